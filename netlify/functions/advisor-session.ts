@@ -0,0 +1,49 @@
+import type { AdvisorSessionResponse } from '../../src/types';
+import { getSignInStore } from '../lib/sign-in-store';
+import {
+  ADVISOR_SESSION_COOKIE,
+  SESSION_DAYS,
+  SignInError,
+  endSession,
+  getSession,
+  redeemSignInLink
+} from '../lib/advisor-sign-in';
+import { HttpError, httpOnlyCookie, json, readJsonBody, withHttp } from '../lib/http';
+
+export const handler = withHttp({
+  methods: ['GET', 'POST', 'DELETE'],
+  failureMessage: 'Failed to sign in',
+  mapError: error => error instanceof SignInError
+    ? new HttpError(error.status, 'Invalid sign-in link', { message: error.message })
+    : undefined
+}, async (event) => {
+  const store = getSignInStore(event);
+
+  if (event.httpMethod === 'DELETE') {
+    await endSession(store, event);
+    return {
+      statusCode: 204,
+      headers: { 'Set-Cookie': httpOnlyCookie(event, ADVISOR_SESSION_COOKIE, '', 0) },
+      body: ''
+    };
+  }
+
+  // The emailed link opens /me, which posts the token here, so mail scanners that
+  // follow links can't use it up before the advisor does
+  if (event.httpMethod === 'POST') {
+    const { token } = (readJsonBody(event) ?? {}) as { token?: unknown };
+    const { token: sessionToken, session } = await redeemSignInLink(store, typeof token === 'string' ? token : '');
+
+    return json(200, { email: session.email, expiresAt: session.expiresAt } satisfies AdvisorSessionResponse, {
+      'Set-Cookie': httpOnlyCookie(event, ADVISOR_SESSION_COOKIE, sessionToken, SESSION_DAYS * 24 * 60 * 60),
+      'Cache-Control': 'no-store'
+    });
+  }
+
+  const session = await getSession(store, event);
+  if (!session) {
+    throw new HttpError(401, 'Unauthorized', { message: 'Please sign in to see your submissions' });
+  }
+
+  return json(200, { email: session.email, expiresAt: session.expiresAt } satisfies AdvisorSessionResponse, { 'Cache-Control': 'no-store' });
+});
@@ -0,0 +1,31 @@
+import type { SignInLinkResponse } from '../../src/types';
+import { SUBMISSION_LIMITS, isValidEmail } from '../../src/shared/submissionSchema';
+import { SIGN_IN_LINK_MINUTES, signInPath } from '../../src/shared/signIn';
+import { getSignInStore } from '../lib/sign-in-store';
+import { getCounterStore } from '../lib/counter-store';
+import { allowSignInLink, buildSignInEmail, issueSignInLink, siteUrl } from '../lib/advisor-sign-in';
+import { getFirmHistoryStore } from '../lib/firm-history-store';
+import { sendMail } from '../lib/mailer';
+import { HttpError, json, readJsonBody, withHttp } from '../lib/http';
+
+export const handler = withHttp({
+  methods: ['POST'],
+  failureMessage: 'Failed to send a sign-in link'
+}, async (event) => {
+  const { email: input } = (readJsonBody(event) ?? {}) as { email?: unknown };
+  const email = typeof input === 'string' ? input.trim().toLowerCase() : '';
+  if (!email || email.length > SUBMISSION_LIMITS.userEmailLength || !isValidEmail(email)) {
+    throw new HttpError(400, 'Invalid email', { details: [{ field: 'email', message: 'Must be a valid email address' }] });
+  }
+
+  // The answer is the same whether or not the address has submitted, so it can't be used to find out who has.
+  // Requests are counted before anything is looked up, and the lookup reads only this address's history.
+  if (await allowSignInLink(getCounterStore(event), email) && await getFirmHistoryStore(event).get(email)) {
+    const token = await issueSignInLink(getSignInStore(event), email);
+    await sendMail({ to: email, ...buildSignInEmail(`${siteUrl(event)}${signInPath(token)}`) });
+  }
+
+  return json(200, {
+    message: `If ${email} has shared firms with us, we've emailed it a sign-in link. The link works once and expires in ${SIGN_IN_LINK_MINUTES} minutes.`
+  } satisfies SignInLinkResponse, { 'Cache-Control': 'no-store' });
+});
@@ -0,0 +1,18 @@
+import { randomBytes } from 'node:crypto';
+import type { CsrfTokenResponse } from '../../src/types';
+import { isValidCsrfToken } from '../../src/shared/csrf';
+import { CSRF_COOKIE, httpOnlyCookie, json, readCookie, withHttp } from '../lib/http';
+
+export const handler = withHttp({
+  methods: ['GET'],
+  failureMessage: 'Failed to issue a CSRF token'
+}, async (event) => {
+  // Keep the browser's existing token, so pages open in other tabs keep working
+  const existing = readCookie(event, CSRF_COOKIE);
+  const token = existing && isValidCsrfToken(existing) ? existing : randomBytes(32).toString('base64url');
+
+  return json(200, { token } satisfies CsrfTokenResponse, {
+    'Set-Cookie': httpOnlyCookie(event, CSRF_COOKIE, token),
+    'Cache-Control': 'no-store'
+  });
+});
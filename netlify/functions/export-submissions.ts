@@ -0,0 +1,51 @@
+import type { SubmissionExportFormat, SubmissionExportView } from '../../src/types';
+import { getSubmissionStore } from '../lib/submission-store';
+import { getProspectStore, loadProspectList } from '../lib/prospect-store';
+import { isAdminRequest } from '../lib/admin-auth';
+import { filterSubmissions, parseSubmissionFilters } from '../lib/submission-query';
+import { buildExportTable, toCsv, toXlsx } from '../lib/submission-export';
+import { HttpError, withHttp } from '../lib/http';
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const handler = withHttp({
+  methods: ['GET'],
+  allowHeaders: ['Authorization'],
+  exposeHeaders: ['Content-Disposition'],
+  failureMessage: 'Failed to export submissions'
+}, async (event) => {
+  if (!isAdminRequest(event)) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+
+  const view: SubmissionExportView = event.queryStringParameters?.view === 'matrix' ? 'matrix' : 'entries';
+  const format: SubmissionExportFormat = event.queryStringParameters?.format === 'xlsx' ? 'xlsx' : 'csv';
+
+  const filters = parseSubmissionFilters(event.queryStringParameters);
+  const store = getSubmissionStore(event);
+  const { list } = await loadProspectList(getProspectStore(event));
+  const currentNames = new Map(list.firms.map(firm => [firm.id, firm.name]));
+  const table = buildExportTable(view, filterSubmissions(await store.list(), filters), filters, currentNames);
+
+  const filename = `submissions-${view}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const headers = {
+    'Content-Disposition': `attachment; filename="${filename}"`,
+    'Cache-Control': 'no-store'
+  };
+
+  if (format === 'xlsx') {
+    return {
+      statusCode: 200,
+      headers: { ...headers, 'Content-Type': XLSX_CONTENT_TYPE },
+      body: (await toXlsx(table)).toString('base64'),
+      isBase64Encoded: true
+    };
+  }
+
+  return {
+    statusCode: 200,
+    headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' },
+    // Byte order mark so Excel opens the CSV as UTF-8
+    body: `\uFEFF${toCsv(table)}`
+  };
+});
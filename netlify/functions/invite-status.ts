@@ -0,0 +1,21 @@
+import type { InviteStatusResponse } from '../../src/types';
+import { getAdvisorStore } from '../lib/advisor-store';
+import { InviteError, isInviteRequired, verifyAdvisorInvite } from '../lib/invites';
+import { HttpError, json, withHttp } from '../lib/http';
+
+export const handler = withHttp({
+  methods: ['GET'],
+  allowHeaders: ['Authorization'],
+  failureMessage: 'Failed to check your invite',
+  mapError: error => error instanceof InviteError
+    ? new HttpError(error.status, 'Invalid invite', { message: error.message })
+    : undefined
+}, async (event) => {
+  // The form asks before the advisor fills it in, so an invite submit-form would refuse is refused up front
+  const token = /^Bearer\s+(.+)$/i.exec(event.headers.authorization ?? '')?.[1]?.trim();
+  if (token) {
+    await verifyAdvisorInvite(token, getAdvisorStore(event));
+  }
+
+  return json(200, { required: isInviteRequired() } satisfies InviteStatusResponse, { 'Cache-Control': 'no-store' });
+});
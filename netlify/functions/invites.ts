@@ -0,0 +1,29 @@
+import type { AdvisorListResponse, CreateInviteResponse } from '../../src/types';
+import { getAdminActor, isAdminRequest } from '../lib/admin-auth';
+import { getAdvisorStore } from '../lib/advisor-store';
+import { InviteError, createInvite, readInviteRequest } from '../lib/invites';
+import { HttpError, json, readJsonBody, withHttp } from '../lib/http';
+
+export const handler = withHttp({
+  methods: ['GET', 'POST'],
+  allowHeaders: ['Authorization'],
+  failureMessage: 'Failed to manage invites',
+  mapError: error => error instanceof InviteError
+    ? new HttpError(error.status, error.message, { details: error.details })
+    : undefined
+}, async (event) => {
+  if (!isAdminRequest(event)) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+
+  const store = getAdvisorStore(event);
+
+  if (event.httpMethod === 'GET') {
+    return json(200, { advisors: await store.list() } satisfies AdvisorListResponse, { 'Cache-Control': 'no-store' });
+  }
+
+  const request = readInviteRequest(readJsonBody(event));
+  const invite = await createInvite(request, getAdminActor(event), store);
+
+  return json(200, invite satisfies CreateInviteResponse, { 'Cache-Control': 'no-store' });
+});
@@ -0,0 +1,33 @@
+import type { SubmissionListResponse } from '../../src/types';
+import { getSubmissionStore } from '../lib/submission-store';
+import { isAdminRequest } from '../lib/admin-auth';
+import { filterSubmissions, paginate, parsePagination, parseSubmissionFilters } from '../lib/submission-query';
+import { getCounterStore } from '../lib/counter-store';
+import { getRejectionCounts } from '../lib/abuse-protection';
+import { HttpError, json, withHttp } from '../lib/http';
+
+export const handler = withHttp({
+  methods: ['GET'],
+  allowHeaders: ['Authorization'],
+  failureMessage: 'Failed to load submissions'
+}, async (event) => {
+  if (!isAdminRequest(event)) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+
+  const filters = parseSubmissionFilters(event.queryStringParameters);
+  const { page, pageSize } = parsePagination(event.queryStringParameters);
+
+  const store = getSubmissionStore(event);
+  const result = paginate(filterSubmissions(await store.list(), filters), page, pageSize);
+  const rejections = await getRejectionCounts(getCounterStore(event));
+
+  return json(200, {
+    submissions: result.items,
+    page: result.page,
+    pageSize: result.pageSize,
+    total: result.total,
+    totalPages: result.totalPages,
+    rejections
+  } satisfies SubmissionListResponse, { 'Cache-Control': 'no-store' });
+});
@@ -0,0 +1,53 @@
+import type { ManageProspectsResponse } from '../../src/types';
+import { getAdminActor, isAdminRequest } from '../lib/admin-auth';
+import { getProspectStore, invalidateActiveFirmRecords, loadProspectList } from '../lib/prospect-store';
+import { ProspectChangeError, applyProspectChange } from '../lib/prospect-changes';
+import { HttpError, json, readJsonBody, withHttp } from '../lib/http';
+
+const AUDIT_LIMIT = 200;
+const STALE_LIST_MESSAGE = 'The prospect list has changed since you loaded it. Reload it and make your change again.';
+
+export const handler = withHttp({
+  methods: ['GET', 'POST'],
+  allowHeaders: ['Authorization', 'If-Match'],
+  failureMessage: 'Failed to update prospect list',
+  mapError: error => error instanceof ProspectChangeError
+    ? new HttpError(error.status, error.message, { details: error.details })
+    : undefined
+}, async (event) => {
+  if (!isAdminRequest(event)) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+
+  const store = getProspectStore(event);
+  let { list, version } = await loadProspectList(store);
+
+  if (event.httpMethod === 'POST') {
+    // A change is made against the list the admin loaded, so it is refused if anyone has saved since
+    const expectedVersion = event.headers['if-match'];
+    if (!expectedVersion) {
+      throw new HttpError(428, 'Version required', { message: STALE_LIST_MESSAGE });
+    }
+    if (expectedVersion !== version) {
+      throw new HttpError(412, 'Prospect list changed', { message: STALE_LIST_MESSAGE });
+    }
+
+    const change: unknown = readJsonBody(event);
+    const result = applyProspectChange(list, change, getAdminActor(event));
+
+    if (result.audit.length > 0) {
+      if (!await store.saveList(result.list, version)) {
+        throw new HttpError(412, 'Prospect list changed', { message: STALE_LIST_MESSAGE });
+      }
+      await store.appendAudit(result.audit);
+      invalidateActiveFirmRecords();
+      ({ list, version } = await loadProspectList(store));
+    }
+  }
+
+  return json(200, {
+    firms: list.firms,
+    version,
+    audit: await store.listAudit(AUDIT_LIMIT)
+  } satisfies ManageProspectsResponse, { 'Cache-Control': 'no-store', ETag: version });
+});
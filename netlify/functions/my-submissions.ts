@@ -0,0 +1,46 @@
+import type { AdvisorSubmission, MySubmissionsResponse } from '../../src/types';
+import { getSubmissionStore } from '../lib/submission-store';
+import { getFirmHistoryStore, reviseHistoryEntry, submissionIdsOf } from '../lib/firm-history-store';
+import { getSignInStore } from '../lib/sign-in-store';
+import { getSession } from '../lib/advisor-sign-in';
+import { EntryChangeError, applyEntryChange, readEntryChange, submissionsOf, toAdvisorSubmission } from '../lib/entry-changes';
+import { HttpError, json, readJsonBody, withHttp } from '../lib/http';
+
+export const handler = withHttp({
+  methods: ['GET', 'POST'],
+  failureMessage: 'Failed to load your submissions',
+  mapError: error => error instanceof EntryChangeError
+    ? new HttpError(error.status, error.message, { details: error.details })
+    : undefined
+}, async (event) => {
+  const session = await getSession(getSignInStore(event), event);
+  if (!session) {
+    throw new HttpError(401, 'Unauthorized', { message: 'Your sign-in has expired. Please ask for a new link.' });
+  }
+
+  const store = getSubmissionStore(event);
+
+  if (event.httpMethod === 'POST') {
+    // The change is applied to the submission as it is when written, so simultaneous changes are kept
+    const change = readEntryChange(readJsonBody(event));
+    const record = await store.update(change.submissionId, stored => ({
+      payload: applyEntryChange(stored, change, session.email).record.payload
+    }));
+    const entry = record?.payload.firms.find(firm => firm.id === change.entryId);
+    if (!record || !entry) {
+      throw new EntryChangeError('Entry not found', 404);
+    }
+
+    await getFirmHistoryStore(event).update(session.email, history => history && reviseHistoryEntry(history, record.id, entry));
+
+    return json(200, toAdvisorSubmission(record) satisfies AdvisorSubmission, { 'Cache-Control': 'no-store' });
+  }
+
+  // Read only this advisor's submissions, listed in their history, rather than every submission
+  const ids = submissionIdsOf(await getFirmHistoryStore(event).get(session.email));
+  const records = (await Promise.all(ids.map(id => store.get(id)))).filter(record => record !== null);
+
+  return json(200, {
+    submissions: submissionsOf(records, session.email).map(toAdvisorSubmission)
+  } satisfies MySubmissionsResponse, { 'Cache-Control': 'no-store' });
+});
@@ -0,0 +1,25 @@
+import type { PreviousFirmsResponse } from '../../src/types';
+import { getAdvisorStore } from '../lib/advisor-store';
+import { getFirmHistoryStore } from '../lib/firm-history-store';
+import { InviteError, verifyAdvisorInvite } from '../lib/invites';
+import { HttpError, json, withHttp } from '../lib/http';
+
+export const handler = withHttp({
+  methods: ['GET'],
+  allowHeaders: ['Authorization'],
+  failureMessage: 'Failed to load your earlier submissions',
+  mapError: error => error instanceof InviteError
+    ? new HttpError(error.status, 'Invalid invite', { message: error.message })
+    : undefined
+}, async (event) => {
+  // Only the advisor an invite vouches for may see what that email address submitted before
+  const token = /^Bearer\s+(.+)$/i.exec(event.headers.authorization ?? '')?.[1]?.trim();
+  if (!token) {
+    throw new HttpError(401, 'Unauthorized', { message: 'Open the invite link you were sent to see your earlier submissions' });
+  }
+
+  const advisor = await verifyAdvisorInvite(token, getAdvisorStore(event));
+  const history = await getFirmHistoryStore(event).get(advisor.email);
+
+  return json(200, { firms: history?.firms ?? [] } satisfies PreviousFirmsResponse, { 'Cache-Control': 'no-store' });
+});
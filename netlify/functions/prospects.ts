@@ -0,0 +1,15 @@
+import type { ProspectListResponse } from '../../src/types';
+import { getProspectStore, loadProspectList, toFirmRecord } from '../lib/prospect-store';
+import { json, withHttp } from '../lib/http';
+
+export const handler = withHttp({
+  methods: ['GET'],
+  failureMessage: 'Failed to load prospect list'
+}, async (event) => {
+  const { list } = await loadProspectList(getProspectStore(event));
+
+  return json(200, {
+    firms: list.firms.filter(firm => firm.status === 'active').map(toFirmRecord),
+    updatedAt: list.updatedAt
+  } satisfies ProspectListResponse, { 'Cache-Control': 'public, max-age=300' });
+});
@@ -0,0 +1,196 @@
+import type { HandlerEvent, HandlerResponse } from '@netlify/functions';
+import type { SubmissionRecord, SubmitFormPayload, SubmitFormResponse } from '../../src/types';
+import { createSubmissionRecord, getSubmissionStore, supersedeAmendedEntries } from '../lib/submission-store';
+import { deliverNotifications, getCampaignEnv, getConfiguredNotifiers } from '../lib/notifiers';
+import { IDEMPOTENCY_KEY_HEADER, isValidIdempotencyKey, validateSubmission } from '../../src/shared/submissionSchema';
+import { getCampaign } from '../../src/shared/campaigns';
+import { FirmService } from '../../src/services/FirmService';
+import { getActiveFirmRecords, getProspectStore, invalidateActiveFirmRecords } from '../lib/prospect-store';
+import { getAdvisorStore } from '../lib/advisor-store';
+import { InviteError, isInviteRequired, verifySubmissionInvite } from '../lib/invites';
+import { claimIdempotencyKey, fingerprintPayload, getIdempotencyStore } from '../lib/idempotency-store';
+import { getCounterStore } from '../lib/counter-store';
+import { checkBotSignals, checkRateLimits, clientIpOf, countSubmission, recordRejection } from '../lib/abuse-protection';
+import { PROOF_OF_WORK_HEADER } from '../../src/shared/botCheck';
+import { HttpError, json, readJsonBody, withHttp } from '../lib/http';
+import { findPreviousEntry, getFirmHistoryStore, rememberSubmission } from '../lib/firm-history-store';
+
+// How long a repeat should wait while the first request with its key is still being processed
+const IN_PROGRESS_RETRY_SECONDS = 2;
+
+function campaignSlugOf(formData: unknown): string | undefined {
+  if (typeof formData !== 'object' || formData === null || !('campaign' in formData)) {
+    return undefined;
+  }
+  return typeof formData.campaign === 'string' ? formData.campaign : undefined;
+}
+
+function firmIdsOf(formData: unknown): string[] {
+  if (typeof formData !== 'object' || formData === null || !('firms' in formData) || !Array.isArray(formData.firms)) {
+    return [];
+  }
+  return formData.firms
+    .map((firm: unknown) => typeof firm === 'object' && firm !== null && 'firmId' in firm ? firm.firmId : undefined)
+    .filter((firmId): firmId is string => typeof firmId === 'string');
+}
+
+function idempotencyKeyOf(event: HandlerEvent): string | undefined {
+  return event.headers[IDEMPOTENCY_KEY_HEADER.toLowerCase()]?.trim() || undefined;
+}
+
+function submittedResponse(submissionId: string, replayed: boolean): HandlerResponse {
+  return json(200, {
+    success: true,
+    submissionId,
+    message: 'Form submitted successfully!'
+  } satisfies SubmitFormResponse, replayed ? { 'Idempotent-Replayed': 'true' } : {});
+}
+
+/**
+ * Check a validated submission against the bot signals, invite and rate limits, then store it.
+ * Throws without storing anything if the submission is turned away.
+ * @param event - The request
+ * @param value - The validated submission
+ * @param consumers - Names of the notification channels that will deliver it
+ * @returns The stored submission
+ */
+async function acceptSubmission(event: HandlerEvent, value: SubmitFormPayload, consumers: string[]): Promise<SubmissionRecord> {
+  // Turn away automated and repeated submissions before anything reaches the notification channels
+  const counters = getCounterStore(event);
+  const botSignal = await checkBotSignals(value, event);
+  if (botSignal) {
+    await recordRejection(counters, botSignal);
+    throw new HttpError(400, 'Submission rejected', {
+      message: "We couldn't accept this submission. Please reload the page and try again."
+    });
+  }
+
+  // Only accept an email address the signed invite vouches for
+  const { inviteToken } = value;
+  if (!inviteToken && isInviteRequired()) {
+    throw new InviteError('Please use the invite link you were sent to submit this form', 401);
+  }
+  const advisor = inviteToken
+    ? await verifySubmissionInvite(inviteToken, value, getAdvisorStore(event))
+    : null;
+
+  const source = { ip: clientIpOf(event), ...(advisor ? { email: value.userEmail } : {}) };
+  const exceeded = await checkRateLimits(counters, source);
+  if (exceeded) {
+    await recordRejection(counters, exceeded.reason);
+    throw new HttpError(429, 'Too many submissions', {
+      message: 'We received several submissions from you recently. Please try again later.',
+      headers: { 'Retry-After': String(exceeded.retryAfterSeconds) }
+    });
+  }
+
+  // An entry can only replace the advisor's own latest entry for a firm; one that no longer
+  // can, e.g. because it was updated from another tab, is kept as a new entry
+  const histories = getFirmHistoryStore(event);
+  const history = await histories.get(value.userEmail);
+  const payload = {
+    ...value,
+    firms: value.firms.map(firm => {
+      if (!firm.amends || findPreviousEntry(history, firm.amends)) {
+        return firm;
+      }
+      const entry = { ...firm };
+      delete entry.amends;
+      return entry;
+    })
+  };
+
+  // Persist the submission before anything is sent downstream
+  const record = await getSubmissionStore(event).save(createSubmissionRecord(payload, consumers, advisor?.id));
+  // The submission is accepted either way, so a failure to count it is only logged
+  await countSubmission(counters, source).catch(error => console.error('Error counting submission:', error));
+  return record;
+}
+
+export const handler = withHttp({
+  methods: ['POST'],
+  allowHeaders: [IDEMPOTENCY_KEY_HEADER, PROOF_OF_WORK_HEADER],
+  exposeHeaders: ['Idempotent-Replayed', 'Retry-After'],
+  failureMessage: 'Failed to process form submission',
+  mapError: error => error instanceof InviteError
+    ? new HttpError(error.status, 'Invalid invite', { message: error.message })
+    : undefined
+}, async (event) => {
+  const idempotencyKey = idempotencyKeyOf(event);
+  if (idempotencyKey && !isValidIdempotencyKey(idempotencyKey)) {
+    throw new HttpError(400, 'Invalid submission', {
+      details: [{ field: IDEMPOTENCY_KEY_HEADER, message: 'Invalid idempotency key' }]
+    });
+  }
+
+  const formData: unknown = readJsonBody(event);
+
+  const campaign = getCampaign(campaignSlugOf(formData));
+  if (!campaign) {
+    throw new HttpError(400, 'Invalid submission', {
+      details: [{ field: 'campaign', message: 'Unknown campaign' }]
+    });
+  }
+
+  // Re-validate everything, including which of the campaign's firms match the current prospect list
+  const prospects = getProspectStore(event);
+  let activeFirms = await getActiveFirmRecords(prospects);
+  // The cached list can predate a firm an admin has just added, so a firm it lacks is looked up afresh
+  if (firmIdsOf(formData).some(firmId => !activeFirms.some(firm => firm.id === firmId))) {
+    invalidateActiveFirmRecords();
+    activeFirms = await getActiveFirmRecords(prospects);
+  }
+  FirmService.setFirms(activeFirms);
+  FirmService.setFirmScope(campaign.firmIds ?? null);
+  const validation = validateSubmission(formData, campaign.maxFirms);
+
+  if (!validation.valid) {
+    throw new HttpError(400, 'Invalid submission', { details: validation.errors });
+  }
+
+  // A repeat of a submission already processed gets the original result instead of new notifications.
+  // The key is claimed before anything else happens, so simultaneous repeats can't all be accepted.
+  const keys = getIdempotencyStore(event);
+  const fingerprint = fingerprintPayload(validation.value);
+  const claimed = idempotencyKey ? await claimIdempotencyKey(keys, idempotencyKey, fingerprint) : null;
+  if (claimed) {
+    if (claimed.fingerprint !== fingerprint) {
+      throw new HttpError(409, 'Submission key already used', {
+        message: 'We already received an earlier version of these answers. Submit again to send your changes as well.'
+      });
+    }
+    if (!claimed.submissionId) {
+      throw new HttpError(409, 'Submission in progress', {
+        message: 'We are still processing this submission.',
+        headers: { 'Retry-After': String(IN_PROGRESS_RETRY_SECONDS) }
+      });
+    }
+    return submittedResponse(claimed.submissionId, true);
+  }
+
+  const store = getSubmissionStore(event);
+  const notifiers = getConfiguredNotifiers(getCampaignEnv(campaign));
+  let record: SubmissionRecord;
+  try {
+    record = await acceptSubmission(event, validation.value, notifiers.map(notifier => notifier.name));
+  } catch (error) {
+    // Nothing was stored, so a retry with the same key must be processed afresh
+    if (idempotencyKey) {
+      await keys.release(idempotencyKey);
+    }
+    throw error;
+  }
+  if (idempotencyKey) {
+    await keys.save({ key: idempotencyKey, fingerprint, submissionId: record.id, processedAt: record.receivedAt });
+  }
+
+  // Remember what this email has shared, so the form can offer to update it next time
+  await supersedeAmendedEntries(store, record);
+  await getFirmHistoryStore(event).update(record.payload.userEmail, history => rememberSubmission(history, record));
+
+  // Notification channels are downstream consumers: failures are recorded per channel, not fatal
+  const deliveries = await deliverNotifications(record, notifiers);
+  await store.update(record.id, { deliveries });
+
+  return submittedResponse(record.id, false);
+});
@@ -0,0 +1,177 @@
+import { createHash } from 'node:crypto';
+import type { HandlerEvent } from '@netlify/functions';
+import type { RejectionReason, SubmitFormPayload } from '../../src/types';
+import { BOT_CHECK, PROOF_OF_WORK_HEADER, verifyProofOfWork } from '../../src/shared/botCheck';
+import { incrementCounter, type CounterStore } from './counter-store';
+
+export const REJECTION_REASONS: RejectionReason[] = ['honeypot', 'too-fast', 'proof-of-work', 'ip-rate-limit', 'email-rate-limit'];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * How many submissions one IP address or email address may make per window
+ */
+export interface RateLimits {
+  perIp: number;
+  perEmail: number;
+  windowMs: number;
+}
+
+/**
+ * A rate limit a submission went over
+ */
+export interface RateLimitExceeded {
+  reason: Extract<RejectionReason, 'ip-rate-limit' | 'email-rate-limit'>;
+  /** Seconds until the window resets */
+  retryAfterSeconds: number;
+}
+
+function nonNegativeIntegerOr(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Read the rate limits from RATE_LIMIT_PER_IP (default 20), RATE_LIMIT_PER_EMAIL (default 5)
+ * and RATE_LIMIT_WINDOW_MINUTES (default 60). A limit of 0 turns that limit off.
+ */
+export function getRateLimits(env: NodeJS.ProcessEnv = process.env): RateLimits {
+  return {
+    perIp: nonNegativeIntegerOr(env.RATE_LIMIT_PER_IP, 20),
+    perEmail: nonNegativeIntegerOr(env.RATE_LIMIT_PER_EMAIL, 5),
+    windowMs: Math.max(1, nonNegativeIntegerOr(env.RATE_LIMIT_WINDOW_MINUTES, 60)) * MINUTE_MS
+  };
+}
+
+/**
+ * The address a request came from, as reported by Netlify's edge
+ * @returns The IP address, or null when the request did not pass through Netlify (e.g. tests)
+ */
+export function clientIpOf(event: HandlerEvent): string | null {
+  const forwardedFor = event.headers['x-forwarded-for']?.split(',')[0];
+  return (event.headers['x-nf-client-connection-ip'] || event.headers['client-ip'] || forwardedFor)?.trim() || null;
+}
+
+function hashed(value: string): string {
+  // Counters are keyed by hash so the store never holds addresses in the clear
+  return createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
+
+/**
+ * Check the honeypot, fill time and proof of work of a validated submission
+ * @param payload - The validated payload, including its bot check
+ * @param event - The request, for the proof of work header
+ * @param now - The current time, in milliseconds since the epoch
+ * @returns Why the submission looks automated, or null if it passes
+ */
+export async function checkBotSignals(payload: SubmitFormPayload, event: HandlerEvent, now: number = Date.now()): Promise<RejectionReason | null> {
+  if (payload.botCheck?.honeypot) {
+    return 'honeypot';
+  }
+  if (!payload.botCheck || payload.botCheck.fillTimeMs < BOT_CHECK.minFillTimeMs) {
+    return 'too-fast';
+  }
+  if (!await verifyProofOfWork(event.headers[PROOF_OF_WORK_HEADER.toLowerCase()], payload.userEmail, now)) {
+    return 'proof-of-work';
+  }
+  return null;
+}
+
+/**
+ * Where a submission came from, for rate limiting
+ */
+export interface SubmissionSource {
+  /** Missing when the request did not pass through Netlify, e.g. in tests; not limited */
+  ip: string | null;
+  /** Only an address an invite vouches for, so nobody can use up another advisor's allowance */
+  email?: string;
+}
+
+function rateLimitChecks(source: SubmissionSource, limits: RateLimits): Array<{ reason: RateLimitExceeded['reason']; key: string; limit: number }> {
+  return [
+    ...(source.ip ? [{ reason: 'ip-rate-limit' as const, key: `ip-${hashed(source.ip)}`, limit: limits.perIp }] : []),
+    ...(source.email ? [{ reason: 'email-rate-limit' as const, key: `email-${hashed(source.email.trim().toLowerCase())}`, limit: limits.perEmail }] : [])
+  ].filter(check => check.limit > 0);
+}
+
+/**
+ * Check whether a submission's IP address or email address has used up its allowance.
+ * Nothing is counted here: only accepted submissions count, see countSubmission.
+ * @param store - The counter store
+ * @param source - Where the submission came from
+ * @param limits - The configured limits
+ * @param now - The current time, in milliseconds since the epoch
+ * @returns The limit the submission would go over, or null if it is within both
+ */
+export async function checkRateLimits(
+  store: CounterStore,
+  source: SubmissionSource,
+  limits: RateLimits = getRateLimits(),
+  now: number = Date.now()
+): Promise<RateLimitExceeded | null> {
+  for (const { reason, key, limit } of rateLimitChecks(source, limits)) {
+    const counter = await store.get(key);
+    if (counter && now - counter.windowStartedAt < limits.windowMs && counter.count >= limit) {
+      return {
+        reason,
+        retryAfterSeconds: Math.max(1, Math.ceil((counter.windowStartedAt + limits.windowMs - now) / 1000))
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Count an accepted submission against its IP address and email address
+ * @param store - The counter store
+ * @param source - Where the submission came from
+ * @param limits - The configured limits
+ * @param now - The current time, in milliseconds since the epoch
+ */
+export async function countSubmission(
+  store: CounterStore,
+  source: SubmissionSource,
+  limits: RateLimits = getRateLimits(),
+  now: number = Date.now()
+): Promise<void> {
+  for (const { key } of rateLimitChecks(source, limits)) {
+    await incrementCounter(store, key, limits.windowMs, now);
+  }
+}
+
+function rejectionKey(reason: RejectionReason, day: Date): string {
+  return `rejections-${reason}-${day.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Log a turned-away attempt and add it to the day's count for its reason
+ * @param store - The counter store
+ * @param reason - Why the attempt was turned away
+ * @param now - The current time, in milliseconds since the epoch
+ */
+export async function recordRejection(store: CounterStore, reason: RejectionReason, now: number = Date.now()): Promise<void> {
+  console.warn(`submit-form rejected a submission: ${reason}`);
+  await incrementCounter(store, rejectionKey(reason, new Date(now)), DAY_MS, now);
+}
+
+/**
+ * Total turned-away attempts per reason over the last few days, today included
+ * @param store - The counter store
+ * @param days - How many days to count
+ * @param now - The current time, in milliseconds since the epoch
+ */
+export async function getRejectionCounts(store: CounterStore, days = 7, now: number = Date.now()): Promise<Record<RejectionReason, number>> {
+  const counts = Object.fromEntries(REJECTION_REASONS.map(reason => [reason, 0])) as Record<RejectionReason, number>;
+
+  for (let offset = 0; offset < days; offset++) {
+    const day = new Date(now - offset * DAY_MS);
+    const counters = await Promise.all(REJECTION_REASONS.map(reason => store.get(rejectionKey(reason, day))));
+    counters.forEach((counter, index) => {
+      counts[REJECTION_REASONS[index]] += counter?.count ?? 0;
+    });
+  }
+
+  return counts;
+}
@@ -0,0 +1,69 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { HandlerEvent } from '@netlify/functions';
+import { isValidEmail } from '../../src/shared/submissionSchema';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Admin tokens that may be sent as a bearer token, each with the admin it identifies.
+ * ADMIN_API_TOKENS gives each admin their own token as comma-separated "email:token" pairs;
+ * the shared ADMIN_API_TOKEN identifies nobody in particular and is recorded as "admin".
+ */
+function adminTokens(env: NodeJS.ProcessEnv): Array<{ actor: string; token: string }> {
+  const personal = (env.ADMIN_API_TOKENS ?? '')
+    .split(',')
+    .map(pair => {
+      const separator = pair.indexOf(':');
+      return { actor: pair.slice(0, separator).trim().toLowerCase(), token: pair.slice(separator + 1).trim() };
+    })
+    .filter(({ actor, token }) => isValidEmail(actor) && token);
+
+  return env.ADMIN_API_TOKEN ? [...personal, { actor: 'admin', token: env.ADMIN_API_TOKEN }] : personal;
+}
+
+/**
+ * Identify the admin making a request from the bearer token it carries.
+ * Admin endpoints stay closed when neither ADMIN_API_TOKENS nor ADMIN_API_TOKEN is configured.
+ * @param event - The Netlify function event
+ * @param env - Environment to read the admin tokens from
+ * @returns The admin's email, "admin" for the shared token, or null if the token is not accepted
+ */
+export function authenticateAdmin(event: HandlerEvent, env: NodeJS.ProcessEnv = process.env): string | null {
+  const tokens = adminTokens(env);
+  if (tokens.length === 0) {
+    console.error('Neither ADMIN_API_TOKENS nor ADMIN_API_TOKEN is set; rejecting admin request');
+    return null;
+  }
+
+  const header = event.headers.authorization ?? event.headers.Authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return null;
+  }
+
+  // Compare fixed-length digests so the check does not leak a token's length or prefix
+  const sent = digest(match[1].trim());
+  return tokens.find(({ token }) => timingSafeEqual(sent, digest(token)))?.actor ?? null;
+}
+
+/**
+ * Check that a request carries an admin API token as a bearer token
+ * @param event - The Netlify function event
+ * @param env - Environment to read the admin tokens from
+ * @returns boolean indicating if the caller may use admin endpoints
+ */
+export function isAdminRequest(event: HandlerEvent, env: NodeJS.ProcessEnv = process.env): boolean {
+  return authenticateAdmin(event, env) !== null;
+}
+
+/**
+ * Who is making an admin request, for audit trails, taken from the token that authenticated it
+ * @param event - The Netlify function event
+ * @param env - Environment to read the admin tokens from
+ * @returns The admin's email, or "admin" for the shared token
+ */
+export function getAdminActor(event: HandlerEvent, env: NodeJS.ProcessEnv = process.env): string {
+  return authenticateAdmin(event, env) ?? 'admin';
+}
@@ -0,0 +1,173 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { HandlerEvent } from '@netlify/functions';
+import { SIGN_IN_LINK_MINUTES } from '../../src/shared/signIn';
+import { readCookie } from './http';
+import { incrementCounter, type CounterStore } from './counter-store';
+import type { SignInStore, SignInToken } from './sign-in-store';
+
+export const ADVISOR_SESSION_COOKIE = 'advisor_session';
+export const SESSION_DAYS = 7;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const SIGN_IN_LINKS_PER_HOUR = 5;
+const MAX_TOKEN_LENGTH = 128;
+
+/**
+ * Error thrown when a sign-in link or session does not check out
+ */
+export class SignInError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SignInError';
+    this.status = status;
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function isExpired(token: SignInToken, now: number): boolean {
+  return new Date(token.expiresAt).getTime() <= now;
+}
+
+async function issueToken(
+  store: SignInStore,
+  kind: SignInToken['kind'],
+  email: string,
+  lifetimeMs: number,
+  now: number
+): Promise<{ token: string; record: SignInToken }> {
+  const token = randomBytes(32).toString('base64url');
+  const record = await store.save({
+    hash: hashToken(token),
+    kind,
+    email: email.trim().toLowerCase(),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + lifetimeMs).toISOString()
+  });
+  return { token, record };
+}
+
+async function findToken(store: SignInStore, token: string, kind: SignInToken['kind'], now: number): Promise<SignInToken | null> {
+  if (!token || token.length > MAX_TOKEN_LENGTH) {
+    return null;
+  }
+
+  const record = await store.get(hashToken(token));
+  if (!record || record.kind !== kind) {
+    return null;
+  }
+  if (isExpired(record, now)) {
+    await store.delete(record.hash);
+    return null;
+  }
+  return record;
+}
+
+/**
+ * Count a sign-in link request for an email address, so nobody can flood an inbox with links
+ * @param store - The counter store
+ * @param email - The address the link would go to
+ * @param now - The current time, in milliseconds since the epoch
+ * @returns boolean indicating if another link may be sent this hour
+ */
+export async function allowSignInLink(store: CounterStore, email: string, now: number = Date.now()): Promise<boolean> {
+  const key = `sign-in-${hashToken(email.trim().toLowerCase()).slice(0, 32)}`;
+  const counter = await incrementCounter(store, key, 60 * MINUTE_MS, now);
+  return counter.count <= SIGN_IN_LINKS_PER_HOUR;
+}
+
+/**
+ * Create a one-time sign-in link token for an email address
+ * @param store - Where sign-in tokens are kept
+ * @param email - The advisor's email address
+ * @param now - The current time, in milliseconds since the epoch
+ * @returns The token to put in the emailed link
+ */
+export async function issueSignInLink(store: SignInStore, email: string, now: number = Date.now()): Promise<string> {
+  return (await issueToken(store, 'magic-link', email, SIGN_IN_LINK_MINUTES * MINUTE_MS, now)).token;
+}
+
+/**
+ * Use up a sign-in link and start a session for its email address
+ * @param store - Where sign-in tokens are kept
+ * @param token - The token from the link
+ * @param now - The current time, in milliseconds since the epoch
+ * @returns The session token for the cookie and the stored session
+ * @throws SignInError if the link is unknown, expired or already used
+ */
+export async function redeemSignInLink(
+  store: SignInStore,
+  token: string,
+  now: number = Date.now()
+): Promise<{ token: string; session: SignInToken }> {
+  const link = await findToken(store, token, 'magic-link', now);
+  if (!link) {
+    throw new SignInError('This sign-in link has expired or has already been used', 401);
+  }
+
+  await store.delete(link.hash);
+  const session = await issueToken(store, 'session', link.email, SESSION_DAYS * DAY_MS, now);
+  return { token: session.token, session: session.record };
+}
+
+/**
+ * The session the request's cookie belongs to
+ * @param store - Where sign-in tokens are kept
+ * @param event - The request
+ * @param now - The current time, in milliseconds since the epoch
+ * @returns The session, or null if the advisor is not signed in or the session has expired
+ */
+export async function getSession(store: SignInStore, event: HandlerEvent, now: number = Date.now()): Promise<SignInToken | null> {
+  return findToken(store, readCookie(event, ADVISOR_SESSION_COOKIE) ?? '', 'session', now);
+}
+
+/**
+ * End the session the request's cookie belongs to, if any
+ * @param store - Where sign-in tokens are kept
+ * @param event - The request
+ */
+export async function endSession(store: SignInStore, event: HandlerEvent): Promise<void> {
+  const session = await getSession(store, event);
+  if (session) {
+    await store.delete(session.hash);
+  }
+}
+
+/**
+ * The site's address for links in emails: Netlify's URL, or the request's own host locally
+ * @param event - The request
+ * @param env - Environment to read URL from
+ */
+export function siteUrl(event: HandlerEvent, env: NodeJS.ProcessEnv = process.env): string {
+  if (env.URL) {
+    return env.URL.replace(/\/+$/, '');
+  }
+  const protocol = event.headers['x-forwarded-proto'] === 'https' || event.rawUrl.startsWith('https:') ? 'https' : 'http';
+  return `${protocol}://${event.headers.host}`;
+}
+
+/**
+ * Build the sign-in email
+ * @param link - The absolute sign-in link
+ */
+export function buildSignInEmail(link: string) {
+  const subject = 'Your Network Assist sign-in link';
+  const text = [
+    'Use this link to see and update the firms and contacts you have shared with us:',
+    '',
+    link,
+    '',
+    `The link works once and expires in ${SIGN_IN_LINK_MINUTES} minutes. If you didn't ask for it, you can ignore this email.`
+  ].join('\n');
+  const html = `
+    <p>Use this link to see and update the firms and contacts you have shared with us:</p>
+    <p><a href="${link}">Sign in to Network Assist</a></p>
+    <p style="color: #666">The link works once and expires in ${SIGN_IN_LINK_MINUTES} minutes. If you didn't ask for it, you can ignore this email.</p>`;
+
+  return { subject, text, html };
+}
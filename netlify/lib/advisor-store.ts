@@ -0,0 +1,61 @@
+import type { HandlerEvent } from '@netlify/functions';
+import { getJsonStore, type JsonStore } from './json-store';
+import type { Advisor } from '../../src/types';
+
+/**
+ * Storage adapter interface implemented by every advisor store
+ */
+export interface AdvisorStore {
+  get(id: string): Promise<Advisor | null>;
+  findByEmail(email: string): Promise<Advisor | null>;
+  save(advisor: Advisor): Promise<Advisor>;
+  /** All advisors, most recently invited first */
+  list(): Promise<Advisor[]>;
+}
+
+function byMostRecentlyInvited(a: Advisor, b: Advisor): number {
+  return b.invitedAt.localeCompare(a.invitedAt);
+}
+
+/**
+ * Keeps each advisor as a document in a JSON store
+ */
+export class JsonAdvisorStore implements AdvisorStore {
+  private store: JsonStore<Advisor>;
+
+  constructor(store: JsonStore<Advisor>) {
+    this.store = store;
+  }
+
+  get(id: string): Promise<Advisor | null> {
+    return this.store.get(id);
+  }
+
+  async findByEmail(email: string): Promise<Advisor | null> {
+    const key = email.trim().toLowerCase();
+    return (await this.list()).find(advisor => advisor.email === key) ?? null;
+  }
+
+  async save(advisor: Advisor): Promise<Advisor> {
+    await this.store.set(advisor.id, advisor);
+    return advisor;
+  }
+
+  async list(): Promise<Advisor[]> {
+    const advisors = await Promise.all((await this.store.keys()).map(key => this.get(key)));
+    return advisors.filter((advisor): advisor is Advisor => advisor !== null).sort(byMostRecentlyInvited);
+  }
+}
+
+/**
+ * Create the advisor store configured for this environment.
+ * ADVISOR_STORE_DIR sets where the file adapter writes (default ".data/advisors").
+ * @param event - The Netlify function event, needed to connect to Blobs
+ */
+export function getAdvisorStore(event?: HandlerEvent): AdvisorStore {
+  return new JsonAdvisorStore(getJsonStore({
+    name: 'advisors',
+    directoryVariable: 'ADVISOR_STORE_DIR',
+    defaultDirectory: '.data/advisors'
+  }, event));
+}
@@ -0,0 +1,71 @@
+import type { HandlerEvent } from '@netlify/functions';
+import { getJsonStore, type JsonStore } from './json-store';
+
+/**
+ * A count of events within a window, e.g. submissions from one IP address this hour
+ */
+export interface Counter {
+  key: string;
+  count: number;
+  /** When the current window started, in milliseconds since the epoch */
+  windowStartedAt: number;
+}
+
+/**
+ * Storage adapter interface implemented by every counter store
+ */
+export interface CounterStore {
+  get(key: string): Promise<Counter | null>;
+  save(counter: Counter): Promise<Counter>;
+}
+
+/**
+ * Count one more event against a key, starting a new window once the current one is over.
+ * Counts are read and written separately, so simultaneous events can undercount slightly.
+ * @param store - The counter store
+ * @param key - What is being counted
+ * @param windowMs - Length of a window in milliseconds
+ * @param now - The current time, in milliseconds since the epoch
+ * @returns The counter including this event
+ */
+export async function incrementCounter(store: CounterStore, key: string, windowMs: number, now: number = Date.now()): Promise<Counter> {
+  const existing = await store.get(key);
+  const counter = existing && now - existing.windowStartedAt < windowMs
+    ? { ...existing, count: existing.count + 1 }
+    : { key, count: 1, windowStartedAt: now };
+
+  return store.save(counter);
+}
+
+/**
+ * Keeps each counter as a document in a JSON store
+ */
+export class JsonCounterStore implements CounterStore {
+  private store: JsonStore<Counter>;
+
+  constructor(store: JsonStore<Counter>) {
+    this.store = store;
+  }
+
+  get(key: string): Promise<Counter | null> {
+    return this.store.get(key);
+  }
+
+  async save(counter: Counter): Promise<Counter> {
+    await this.store.set(counter.key, counter);
+    return counter;
+  }
+}
+
+/**
+ * Create the counter store configured for this environment.
+ * COUNTER_STORE_DIR sets where the file adapter writes (default ".data/counters").
+ * @param event - The Netlify function event, needed to connect to Blobs
+ */
+export function getCounterStore(event?: HandlerEvent): CounterStore {
+  return new JsonCounterStore(getJsonStore({
+    name: 'counters',
+    directoryVariable: 'COUNTER_STORE_DIR',
+    defaultDirectory: '.data/counters'
+  }, event));
+}
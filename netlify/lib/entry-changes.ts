@@ -0,0 +1,193 @@
+import { randomUUID } from 'node:crypto';
+import type {
+  AdvisorSubmission,
+  EntryChange,
+  EntrySnapshot,
+  FirmContact,
+  FirmEntry,
+  SubmissionRecord,
+  ValidationErrorDetail
+} from '../../src/types';
+import { validateContacts } from '../../src/shared/submissionSchema';
+
+const ENTRY_CHANGE_ACTIONS: EntryChange['action'][] = ['update-contacts', 'withdraw', 'mark-contact-left'];
+
+/**
+ * Error thrown when an advisor's change to one of their entries is rejected
+ */
+export class EntryChangeError extends Error {
+  status: number;
+  details?: ValidationErrorDetail[];
+
+  constructor(message: string, status: number, details?: ValidationErrorDetail[]) {
+    super(message);
+    this.name = 'EntryChangeError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOwnedBy(record: SubmissionRecord, email: string): boolean {
+  return record.payload.userEmail.trim().toLowerCase() === email.trim().toLowerCase();
+}
+
+function snapshot(entry: FirmEntry): EntrySnapshot {
+  return {
+    ...(entry.contacts ? { contacts: entry.contacts } : {}),
+    ...(entry.withdrawnAt ? { withdrawnAt: entry.withdrawnAt } : {})
+  };
+}
+
+/**
+ * The submissions an email address made, newest first
+ * @param records - Stored submissions, newest first
+ * @param email - The advisor's email address
+ */
+export function submissionsOf(records: SubmissionRecord[], email: string): SubmissionRecord[] {
+  return records.filter(record => isOwnedBy(record, email));
+}
+
+/**
+ * What the advisor sees of a stored submission: their firms, without delivery or consent details
+ * @param record - The stored submission
+ */
+export function toAdvisorSubmission(record: SubmissionRecord): AdvisorSubmission {
+  return {
+    id: record.id,
+    receivedAt: record.receivedAt,
+    ...(record.payload.campaign ? { campaign: record.payload.campaign } : {}),
+    firms: record.payload.firms
+  };
+}
+
+/**
+ * Validate a change an advisor asked for
+ * @param input - The untrusted request body
+ * @returns The cleaned change
+ * @throws EntryChangeError with details if the change is malformed
+ */
+export function readEntryChange(input: unknown): EntryChange {
+  if (!isRecord(input) || !ENTRY_CHANGE_ACTIONS.includes(input.action as EntryChange['action'])) {
+    throw new EntryChangeError('Invalid change', 400, [{ field: 'action', message: `Must be one of: ${ENTRY_CHANGE_ACTIONS.join(', ')}` }]);
+  }
+
+  const errors: ValidationErrorDetail[] = [];
+  const submissionId = typeof input.submissionId === 'string' ? input.submissionId : '';
+  const entryId = typeof input.entryId === 'string' ? input.entryId : '';
+  if (!submissionId || !entryId) {
+    errors.push({ field: 'entryId', message: 'Must identify one of your entries' });
+  }
+
+  let change: EntryChange;
+  switch (input.action as EntryChange['action']) {
+    case 'update-contacts': {
+      if (!Array.isArray(input.contacts) || input.contacts.length === 0) {
+        errors.push({ field: 'contacts', message: 'Add at least one contact, or withdraw the relationship instead' });
+      }
+      const contacts = Array.isArray(input.contacts) ? validateContacts(input.contacts, 'contacts', errors) : [];
+      change = { action: 'update-contacts', submissionId, entryId, contacts };
+      break;
+    }
+    case 'withdraw':
+      change = { action: 'withdraw', submissionId, entryId };
+      break;
+    case 'mark-contact-left': {
+      const contactIndex = input.contactIndex;
+      if (typeof contactIndex !== 'number' || !Number.isInteger(contactIndex) || contactIndex < 0) {
+        errors.push({ field: 'contactIndex', message: 'Must identify one of the contacts' });
+      }
+      change = { action: 'mark-contact-left', submissionId, entryId, contactIndex: contactIndex as number };
+      break;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new EntryChangeError('Invalid change', 400, errors);
+  }
+  return change;
+}
+
+/**
+ * Apply an advisor's change to one of their entries, recording a revision on the entry
+ * @param record - The stored submission the change refers to, or null if there is none
+ * @param change - The validated change
+ * @param actor - Email the advisor signed in with; only their own submissions can be changed
+ * @param now - When the change is made
+ * @returns The updated submission and the changed entry
+ * @throws EntryChangeError if the entry is not the advisor's or can no longer be changed
+ */
+export function applyEntryChange(
+  record: SubmissionRecord | null,
+  change: EntryChange,
+  actor: string,
+  now: Date = new Date()
+): { record: SubmissionRecord; entry: FirmEntry } {
+  // Someone else's submission is reported as missing, so ids can't be probed
+  const entry = record && isOwnedBy(record, actor)
+    ? record.payload.firms.find(firm => firm.id === change.entryId)
+    : undefined;
+  if (!record || !entry) {
+    throw new EntryChangeError('Entry not found', 404);
+  }
+  if (entry.supersededBy) {
+    throw new EntryChangeError('This entry has been replaced by a later one. Change that one instead.', 409);
+  }
+  if (entry.withdrawnAt) {
+    throw new EntryChangeError('This relationship has been withdrawn', 409);
+  }
+
+  const at = now.toISOString();
+  let updated: FirmEntry;
+
+  switch (change.action) {
+    case 'update-contacts': {
+      if (!entry.isMatched) {
+        throw new EntryChangeError('Contacts can only be shared for firms on our list', 409);
+      }
+      // Contacts keep their "left the firm" mark as long as their name is unchanged
+      const contacts = change.contacts.map((contact): FirmContact => {
+        const leftFirmAt = entry.contacts?.find(previous => previous.name.toLowerCase() === contact.name.toLowerCase())?.leftFirmAt;
+        return leftFirmAt ? { ...contact, leftFirmAt } : contact;
+      });
+      updated = { ...entry, contacts };
+      break;
+    }
+    case 'withdraw':
+      updated = { ...entry, withdrawnAt: at };
+      break;
+    case 'mark-contact-left': {
+      const contact = entry.contacts?.[change.contactIndex];
+      if (!contact) {
+        throw new EntryChangeError('Contact not found', 404);
+      }
+      if (contact.leftFirmAt) {
+        throw new EntryChangeError(`${contact.name} is already marked as having left the firm`, 409);
+      }
+      updated = {
+        ...entry,
+        contacts: entry.contacts?.map((existing, index) => index === change.contactIndex ? { ...existing, leftFirmAt: at } : existing)
+      };
+      break;
+    }
+  }
+
+  updated.revisions = [
+    ...(entry.revisions ?? []),
+    { id: randomUUID(), at, actor: actor.trim().toLowerCase(), action: change.action, before: snapshot(entry), after: snapshot(updated) }
+  ];
+
+  return {
+    record: {
+      ...record,
+      payload: {
+        ...record.payload,
+        firms: record.payload.firms.map(firm => firm.id === entry.id ? updated : firm)
+      }
+    },
+    entry: updated
+  };
+}
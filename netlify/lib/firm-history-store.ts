@@ -0,0 +1,149 @@
+import { createHash } from 'node:crypto';
+import type { HandlerEvent } from '@netlify/functions';
+import { getJsonStore, updateJson, type JsonStore } from './json-store';
+import type { FirmEntry, PreviousEntryRef, PreviousFirmEntry, SubmissionRecord } from '../../src/types';
+
+/**
+ * The latest entry an advisor email has submitted for each firm, and every submission it has made
+ */
+export interface FirmHistory {
+  email: string;
+  /** Most recently submitted first */
+  firms: PreviousFirmEntry[];
+  /** Every submission from this email, newest first; missing on histories saved before it was kept */
+  submissionIds?: string[];
+  updatedAt: string;
+}
+
+/**
+ * Storage adapter interface implemented by every firm history store
+ */
+export interface FirmHistoryStore {
+  get(email: string): Promise<FirmHistory | null>;
+  save(history: FirmHistory): Promise<FirmHistory>;
+  /**
+   * Change an advisor's history without losing a simultaneous change to it
+   * @param change - Builds the new history from the stored one; returning null leaves it as it is
+   * @returns The history as saved, or null if nothing was saved
+   */
+  update(email: string, change: (history: FirmHistory | null) => FirmHistory | null): Promise<FirmHistory | null>;
+}
+
+function historyKey(email: string): string {
+  // Keyed by hash so keys and file names never hold addresses in the clear
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
+
+function isSameFirm(previous: PreviousFirmEntry, firm: FirmEntry): boolean {
+  return (Boolean(firm.firmId) && previous.firmId === firm.firmId) ||
+    previous.firmName.toLowerCase() === firm.firmName.toLowerCase();
+}
+
+/**
+ * Find an entry in an advisor's history
+ * @returns The entry, or undefined if it is not the advisor's latest entry for its firm
+ */
+export function findPreviousEntry(history: FirmHistory | null, ref: PreviousEntryRef): PreviousFirmEntry | undefined {
+  return history?.firms.find(entry => entry.submissionId === ref.submissionId && entry.entryId === ref.entryId);
+}
+
+/**
+ * The submissions an advisor email has made, newest first, so they can be read one by one
+ * instead of scanning every submission. Histories saved before every id was kept fall back
+ * to the submissions their latest entries came from.
+ * @param history - The advisor's history, or null if they have never submitted
+ */
+export function submissionIdsOf(history: FirmHistory | null): string[] {
+  return history?.submissionIds ?? [...new Set(history?.firms.map(entry => entry.submissionId) ?? [])];
+}
+
+/**
+ * Add a stored submission's firms to the advisor's history, replacing earlier entries for the same firms
+ * @param history - The advisor's history so far, or null for their first submission
+ * @param record - The stored submission
+ * @returns The updated history
+ */
+export function rememberSubmission(history: FirmHistory | null, record: SubmissionRecord): FirmHistory {
+  const { firms, userEmail } = record.payload;
+
+  const submitted: PreviousFirmEntry[] = firms.map(firm => ({
+    submissionId: record.id,
+    entryId: firm.id,
+    ...(firm.firmId ? { firmId: firm.firmId } : {}),
+    firmName: firm.firmName,
+    isMatched: firm.isMatched,
+    ...(firm.contacts ? { contacts: firm.contacts } : {}),
+    submittedAt: record.receivedAt
+  }));
+
+  const kept = (history?.firms ?? []).filter(previous => !firms.some(firm =>
+    isSameFirm(previous, firm) ||
+    (firm.amends?.submissionId === previous.submissionId && firm.amends.entryId === previous.entryId)
+  ));
+
+  return {
+    email: userEmail.trim().toLowerCase(),
+    firms: [...submitted, ...kept],
+    submissionIds: [record.id, ...submissionIdsOf(history).filter(id => id !== record.id)],
+    updatedAt: record.receivedAt
+  };
+}
+
+/**
+ * Bring the advisor's history in line with an entry they changed after submitting.
+ * A withdrawn entry is forgotten, and contacts who left the firm are no longer offered.
+ * @param history - The advisor's history
+ * @param submissionId - The submission the entry belongs to
+ * @param entry - The changed entry
+ * @param now - When the change was made
+ * @returns The updated history
+ */
+export function reviseHistoryEntry(history: FirmHistory, submissionId: string, entry: FirmEntry, now: Date = new Date()): FirmHistory {
+  const isEntry = (previous: PreviousFirmEntry) => previous.submissionId === submissionId && previous.entryId === entry.id;
+  const contacts = entry.contacts?.filter(contact => !contact.leftFirmAt);
+
+  return {
+    ...history,
+    firms: entry.withdrawnAt
+      ? history.firms.filter(previous => !isEntry(previous))
+      : history.firms.map(previous => isEntry(previous) ? { ...previous, ...(contacts ? { contacts } : {}) } : previous),
+    updatedAt: now.toISOString()
+  };
+}
+
+/**
+ * Keeps each advisor's history as a document in a JSON store
+ */
+export class JsonFirmHistoryStore implements FirmHistoryStore {
+  private store: JsonStore<FirmHistory>;
+
+  constructor(store: JsonStore<FirmHistory>) {
+    this.store = store;
+  }
+
+  get(email: string): Promise<FirmHistory | null> {
+    return this.store.get(historyKey(email));
+  }
+
+  async save(history: FirmHistory): Promise<FirmHistory> {
+    await this.store.set(historyKey(history.email), history);
+    return history;
+  }
+
+  update(email: string, change: (history: FirmHistory | null) => FirmHistory | null): Promise<FirmHistory | null> {
+    return updateJson(this.store, historyKey(email), change);
+  }
+}
+
+/**
+ * Create the firm history store configured for this environment.
+ * FIRM_HISTORY_STORE_DIR sets where the file adapter writes (default ".data/firm-history").
+ * @param event - The Netlify function event, needed to connect to Blobs
+ */
+export function getFirmHistoryStore(event?: HandlerEvent): FirmHistoryStore {
+  return new JsonFirmHistoryStore(getJsonStore({
+    name: 'firm-history',
+    directoryVariable: 'FIRM_HISTORY_STORE_DIR',
+    defaultDirectory: '.data/firm-history'
+  }, event));
+}
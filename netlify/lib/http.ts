@@ -0,0 +1,235 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { Handler, HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import type { ApiErrorResponse, ValidationErrorDetail } from '../../src/types';
+import { CSRF_HEADER, isValidCsrfToken } from '../../src/shared/csrf';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export const CSRF_COOKIE = 'csrf_token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+
+/**
+ * Error a function throws to answer with a JSON error response
+ */
+export class HttpError extends Error {
+  status: number;
+  /** Human-readable explanation, sent as the response's message */
+  detail?: string;
+  details?: ValidationErrorDetail[];
+  headers?: Record<string, string>;
+
+  constructor(
+    status: number,
+    error: string,
+    options: { message?: string; details?: ValidationErrorDetail[]; headers?: Record<string, string> } = {}
+  ) {
+    super(error);
+    this.name = 'HttpError';
+    this.status = status;
+    this.detail = options.message;
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+}
+
+export interface HttpOptions {
+  /** Methods the function answers; OPTIONS preflights are handled for it */
+  methods: HttpMethod[];
+  /** Request headers browsers may send besides Content-Type and the CSRF token */
+  allowHeaders?: string[];
+  /** Response headers browsers may read */
+  exposeHeaders?: string[];
+  /** Message of the 500 response when the function fails unexpectedly */
+  failureMessage: string;
+  /** Turn an error the function's own modules throw into an HttpError, or return undefined to treat it as unexpected */
+  mapError?: (error: unknown) => HttpError | undefined;
+}
+
+/**
+ * A JSON response
+ * @param statusCode - HTTP status
+ * @param body - Serialized as the response body
+ * @param headers - Extra headers, e.g. Cache-Control
+ */
+export function json(statusCode: number, body: unknown, headers: Record<string, string> = {}): HandlerResponse {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Parse the request body as JSON
+ * @param event - The Netlify function event
+ * @throws HttpError 400 if the body is missing or not valid JSON
+ */
+export function readJsonBody(event: HandlerEvent): unknown {
+  try {
+    return JSON.parse(event.body || '');
+  } catch {
+    throw new HttpError(400, 'Invalid JSON');
+  }
+}
+
+function errorResponse(error: HttpError): HandlerResponse {
+  return json(error.status, {
+    error: error.message,
+    ...(error.detail ? { message: error.detail } : {}),
+    ...(error.details ? { details: error.details } : {})
+  } satisfies ApiErrorResponse, error.headers);
+}
+
+/**
+ * Origins other than the site's own that may call the functions, from ALLOWED_ORIGINS
+ * (comma-separated, e.g. "https://network.definely.com"). They must be on the same site,
+ * i.e. share its registrable domain: the CSRF cookie is SameSite=Strict, so browsers never
+ * send it from another site and every state-changing request from there fails the CSRF check.
+ */
+export function getAllowedOrigins(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.ALLOWED_ORIGINS ?? '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Check whether a browser origin may call the functions
+ * @param origin - The request's Origin header
+ * @param event - The request, whose Host header identifies the site's own origin
+ * @param env - Environment to read ALLOWED_ORIGINS from
+ */
+export function isAllowedOrigin(origin: string, event: HandlerEvent, env: NodeJS.ProcessEnv = process.env): boolean {
+  let host: string;
+  try {
+    host = new URL(origin).host;
+  } catch {
+    return false;
+  }
+
+  return host === event.headers.host || getAllowedOrigins(env).includes(origin);
+}
+
+/**
+ * Read a cookie from the request
+ * @returns The cookie's value, or undefined if it was not sent
+ */
+export function readCookie(event: HandlerEvent, name: string): string | undefined {
+  for (const pair of (event.headers.cookie ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator !== -1 && pair.slice(0, separator).trim() === name) {
+      return decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A Set-Cookie value for a cookie only the functions can read. It is marked Secure
+ * when the request came over HTTPS, so local development over plain HTTP still works.
+ * @param event - The request
+ * @param name - Cookie name
+ * @param value - Cookie value
+ * @param maxAgeSeconds - Lifetime of the cookie; 0 deletes it, and omitting it keeps it for the browser session
+ */
+export function httpOnlyCookie(event: HandlerEvent, name: string, value: string, maxAgeSeconds?: number): string {
+  const secure = event.headers['x-forwarded-proto'] === 'https' || event.rawUrl.startsWith('https:');
+  return `${name}=${value}; Path=/; HttpOnly; SameSite=Strict${maxAgeSeconds !== undefined ? `; Max-Age=${maxAgeSeconds}` : ''}${secure ? '; Secure' : ''}`;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check the double-submit CSRF token: the header must repeat the token in the cookie,
+ * which a page on another site can neither read nor set
+ */
+export function hasValidCsrfToken(event: HandlerEvent): boolean {
+  const cookie = readCookie(event, CSRF_COOKIE);
+  const header = event.headers[CSRF_HEADER.toLowerCase()];
+  if (!cookie || !header || !isValidCsrfToken(cookie)) {
+    return false;
+  }
+
+  return timingSafeEqual(digest(header), digest(cookie));
+}
+
+/**
+ * Wrap a function with the HTTP handling every function shares: only allowlisted origins,
+ * CORS preflights, a CSRF check on state-changing methods and JSON error responses
+ * @param options - Methods, headers and failure message for the function
+ * @param handle - Answers requests that pass the checks; may throw HttpError
+ */
+export function withHttp(
+  options: HttpOptions,
+  handle: (event: HandlerEvent, context: HandlerContext) => Promise<HandlerResponse>
+): Handler {
+  const allowMethods = [...options.methods, 'OPTIONS'].join(', ');
+  const allowHeaders = ['Content-Type', CSRF_HEADER, ...(options.allowHeaders ?? [])].join(', ');
+
+  return async (event, context): Promise<HandlerResponse> => {
+    const origin = event.headers.origin;
+    if (origin && !isAllowedOrigin(origin, event)) {
+      console.warn(`Rejected a request from origin ${origin}`);
+      return errorResponse(new HttpError(403, 'Origin not allowed'));
+    }
+
+    // Requests without an Origin header come from the same page or from outside a browser
+    const cors: Record<string, string> = {
+      Vary: 'Origin',
+      ...(origin ? {
+        'Access-Control-Allow-Origin': origin,
+        'Access-Control-Allow-Credentials': 'true'
+      } : {})
+    };
+    const withCors = (response: HandlerResponse): HandlerResponse => ({
+      ...response,
+      headers: { ...response.headers, ...cors }
+    });
+
+    if (event.httpMethod === 'OPTIONS') {
+      return withCors({
+        statusCode: 204,
+        headers: {
+          'Access-Control-Allow-Methods': allowMethods,
+          'Access-Control-Allow-Headers': allowHeaders,
+          'Access-Control-Max-Age': String(PREFLIGHT_MAX_AGE_SECONDS)
+        },
+        body: ''
+      });
+    }
+
+    if (!options.methods.includes(event.httpMethod as HttpMethod)) {
+      return withCors(errorResponse(new HttpError(405, 'Method not allowed', { headers: { Allow: allowMethods } })));
+    }
+
+    if (!SAFE_METHODS.includes(event.httpMethod) && !hasValidCsrfToken(event)) {
+      return withCors(errorResponse(new HttpError(403, 'Invalid CSRF token', {
+        message: 'Your session has expired. Please reload the page and try again.'
+      })));
+    }
+
+    try {
+      const response = await handle(event, context);
+      return withCors({
+        ...response,
+        headers: {
+          ...response.headers,
+          ...(options.exposeHeaders ? { 'Access-Control-Expose-Headers': options.exposeHeaders.join(', ') } : {})
+        }
+      });
+
+    } catch (error) {
+      const httpError = error instanceof HttpError ? error : options.mapError?.(error);
+      if (httpError) {
+        return withCors(errorResponse(httpError));
+      }
+
+      console.error('Function error:', error);
+      return withCors(errorResponse(new HttpError(500, 'Internal server error', { message: options.failureMessage })));
+    }
+  };
+}
@@ -0,0 +1,116 @@
+import { createHash } from 'node:crypto';
+import type { HandlerEvent } from '@netlify/functions';
+import { getJsonStore, type JsonStore } from './json-store';
+import type { SubmitFormPayload } from '../../src/types';
+
+/**
+ * A submission key submit-form is processing or has processed, and what it produced
+ */
+export interface ProcessedKey {
+  key: string;
+  /** Fingerprint of the payload first sent with the key */
+  fingerprint: string;
+  /** The stored submission; missing while the first request with the key is still being processed */
+  submissionId?: string;
+  /** When the first request with the key claimed it */
+  claimedAt?: string;
+  processedAt?: string;
+}
+
+/**
+ * Storage adapter interface implemented by every idempotency key store
+ */
+export interface IdempotencyStore {
+  get(key: string): Promise<ProcessedKey | null>;
+  /**
+   * Store an entry only if its key is not stored yet
+   * @returns Whether the entry was stored
+   */
+  claim(entry: ProcessedKey): Promise<boolean>;
+  save(entry: ProcessedKey): Promise<ProcessedKey>;
+  release(key: string): Promise<void>;
+}
+
+/**
+ * How long a claimed key waits for its submission to be stored. A claim this old was left
+ * behind by a request that crashed or timed out, and a retry may take the key over.
+ */
+const CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Claim a key before its submission is processed, so that of several simultaneous requests
+ * with the same key only one is accepted and notified
+ * @param store - The idempotency key store
+ * @param key - The submission's idempotency key
+ * @param fingerprint - Fingerprint of the validated payload
+ * @param now - The current time, in milliseconds since the epoch
+ * @returns null once the key is claimed for this request, or the entry already holding it
+ */
+export async function claimIdempotencyKey(store: IdempotencyStore, key: string, fingerprint: string, now: number = Date.now()): Promise<ProcessedKey | null> {
+  const entry: ProcessedKey = { key, fingerprint, claimedAt: new Date(now).toISOString() };
+  if (await store.claim(entry)) {
+    return null;
+  }
+
+  const existing = await store.get(key);
+  if (existing && (existing.submissionId || now - Date.parse(existing.claimedAt ?? '') < CLAIM_TIMEOUT_MS)) {
+    return existing;
+  }
+
+  await store.save(entry);
+  return null;
+}
+
+/**
+ * Fingerprint a validated payload, so a key reused for different answers can be told
+ * apart from a repeat of the same submission
+ */
+export function fingerprintPayload(payload: SubmitFormPayload): string {
+  // A fresh invite link for the same advisor, or a later attempt measuring a longer fill time,
+  // is still the same submission
+  const answers: SubmitFormPayload = { ...payload };
+  delete answers.inviteToken;
+  delete answers.botCheck;
+  return createHash('sha256').update(JSON.stringify(answers)).digest('hex');
+}
+
+/**
+ * Keeps each processed key as a document in a JSON store
+ */
+export class JsonIdempotencyStore implements IdempotencyStore {
+  private store: JsonStore<ProcessedKey>;
+
+  constructor(store: JsonStore<ProcessedKey>) {
+    this.store = store;
+  }
+
+  get(key: string): Promise<ProcessedKey | null> {
+    return this.store.get(key);
+  }
+
+  claim(entry: ProcessedKey): Promise<boolean> {
+    return this.store.create(entry.key, entry);
+  }
+
+  async save(entry: ProcessedKey): Promise<ProcessedKey> {
+    await this.store.set(entry.key, entry);
+    return entry;
+  }
+
+  release(key: string): Promise<void> {
+    return this.store.delete(key);
+  }
+}
+
+/**
+ * Create the idempotency key store configured for this environment.
+ * IDEMPOTENCY_STORE_DIR sets where the file adapter writes (default ".data/idempotency-keys").
+ * @param event - The Netlify function event, needed to connect to Blobs
+ */
+export function getIdempotencyStore(event?: HandlerEvent): IdempotencyStore {
+  return new JsonIdempotencyStore(getJsonStore({
+    name: 'idempotency-keys',
+    directoryVariable: 'IDEMPOTENCY_STORE_DIR',
+    defaultDirectory: '.data/idempotency-keys'
+  }, event));
+}
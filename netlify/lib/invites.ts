@@ -0,0 +1,242 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import type {
+  Advisor,
+  CreateInviteRequest,
+  CreateInviteResponse,
+  InviteClaims,
+  SubmitFormPayload,
+  ValidationErrorDetail
+} from '../../src/types';
+import { decodeInviteToken, invitePath, isInviteExpired } from '../../src/shared/inviteToken';
+import { SUBMISSION_LIMITS, isValidEmail, sanitizeText } from '../../src/shared/submissionSchema';
+import { DEFAULT_CAMPAIGN, getCampaign } from '../../src/shared/campaigns';
+import type { AdvisorStore } from './advisor-store';
+
+export const DEFAULT_INVITE_DAYS = 14;
+export const MIN_INVITE_DAYS = 7;
+export const MAX_INVITE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type InviteRequest = CreateInviteRequest & { expiresInDays: number };
+
+/**
+ * Error thrown when an invite cannot be issued or does not check out
+ */
+export class InviteError extends Error {
+  status: number;
+  details?: ValidationErrorDetail[];
+
+  constructor(message: string, status: number, details?: ValidationErrorDetail[]) {
+    super(message);
+    this.name = 'InviteError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Whether submit-form refuses submissions that don't come through an invite link.
+ * Invites are required unless INVITE_REQUIRED is "false".
+ * @param env - Environment to read INVITE_REQUIRED from
+ */
+export function isInviteRequired(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.INVITE_REQUIRED !== 'false';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getSigningSecret(env: NodeJS.ProcessEnv): string {
+  if (!env.INVITE_SIGNING_SECRET) {
+    console.error('INVITE_SIGNING_SECRET environment variable is not set; invites cannot be issued or checked');
+    throw new InviteError('Invites are not configured', 503);
+  }
+  return env.INVITE_SIGNING_SECRET;
+}
+
+function sign(encodedClaims: string, secret: string): string {
+  return createHmac('sha256', secret).update(encodedClaims).digest('base64url');
+}
+
+/**
+ * Sign invite claims with INVITE_SIGNING_SECRET
+ * @param claims - Who the invite is for and when it expires
+ * @param env - Environment to read INVITE_SIGNING_SECRET from
+ * @returns The token: base64url claims and HMAC-SHA256 signature joined by "."
+ * @throws InviteError if no signing secret is configured
+ */
+export function signInviteToken(claims: InviteClaims, env: NodeJS.ProcessEnv = process.env): string {
+  const encoded = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${encoded}.${sign(encoded, getSigningSecret(env))}`;
+}
+
+/**
+ * Check an invite token's signature and expiry
+ * @param token - The token from the invite link
+ * @param env - Environment to read INVITE_SIGNING_SECRET from
+ * @param now - Current time in milliseconds
+ * @returns The verified claims
+ * @throws InviteError if the token is malformed, tampered with or expired
+ */
+export function verifyInviteToken(
+  token: string,
+  env: NodeJS.ProcessEnv = process.env,
+  now: number = Date.now()
+): InviteClaims {
+  const [encoded, signature = ''] = token.split('.');
+  const expected = Buffer.from(sign(encoded ?? '', getSigningSecret(env)));
+  const actual = Buffer.from(signature);
+
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new InviteError('This invite link is not valid', 401);
+  }
+
+  const claims = decodeInviteToken(token);
+  if (!claims) {
+    throw new InviteError('This invite link is not valid', 401);
+  }
+  if (isInviteExpired(claims, now)) {
+    throw new InviteError('This invite link has expired. Please ask for a new one.', 401);
+  }
+  return claims;
+}
+
+/**
+ * Check an invite token and find the advisor it was issued to
+ * @param token - The token from the invite link
+ * @param store - Where advisor records are kept
+ * @param env - Environment to read INVITE_SIGNING_SECRET from
+ * @returns The advisor the invite was issued to
+ * @throws InviteError if the invite is invalid, expired, or no longer matches the advisor record
+ * because it was replaced by a newer invite for the same campaign
+ */
+export async function verifyAdvisorInvite(
+  token: string,
+  store: AdvisorStore,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<Advisor> {
+  const claims = verifyInviteToken(token, env);
+
+  // Inviting an advisor to a campaign again changes that campaign's expiry, which retires its earlier links
+  const advisor = await store.get(claims.advisorId);
+  const expiresAt = advisor?.inviteExpiries?.[claims.campaign ?? DEFAULT_CAMPAIGN.slug] ?? advisor?.inviteExpiresAt;
+  if (!advisor || advisor.email !== claims.email || !expiresAt || Math.floor(Date.parse(expiresAt) / 1000) !== claims.exp) {
+    throw new InviteError('This invite link is no longer valid', 401);
+  }
+  return advisor;
+}
+
+/**
+ * Check that a submission matches the invite it was sent with
+ * @param token - The invite token sent with the submission
+ * @param payload - The validated submission
+ * @param store - Where advisor records are kept
+ * @param env - Environment to read INVITE_SIGNING_SECRET from
+ * @returns The advisor the invite was issued to
+ * @throws InviteError if the invite is invalid, expired or for someone or something else
+ */
+export async function verifySubmissionInvite(
+  token: string,
+  payload: SubmitFormPayload,
+  store: AdvisorStore,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<Advisor> {
+  const claims = verifyInviteToken(token, env);
+
+  if (claims.campaign !== payload.campaign) {
+    throw new InviteError('This invite link is for a different campaign', 401);
+  }
+  if (claims.email !== payload.userEmail.toLowerCase()) {
+    throw new InviteError('The email address does not match your invite', 401);
+  }
+
+  return verifyAdvisorInvite(token, store, env);
+}
+
+/**
+ * Validate a request to invite an advisor
+ * @param input - The untrusted request body
+ * @returns The cleaned request
+ * @throws InviteError with details if any field is invalid
+ */
+export function readInviteRequest(input: unknown): InviteRequest {
+  const errors: ValidationErrorDetail[] = [];
+  if (!isRecord(input)) {
+    throw new InviteError('Invalid invite', 400, [{ field: '', message: 'Invite must be an object' }]);
+  }
+
+  const email = typeof input.email === 'string' ? input.email.trim().toLowerCase() : '';
+  if (!email || email.length > SUBMISSION_LIMITS.userEmailLength || !isValidEmail(email)) {
+    errors.push({ field: 'email', message: 'Must be a valid email address' });
+  }
+
+  const name = typeof input.name === 'string' ? sanitizeText(input.name) : '';
+  if (name.length > SUBMISSION_LIMITS.contactNameLength) {
+    errors.push({ field: 'name', message: `Must be ${SUBMISSION_LIMITS.contactNameLength} characters or fewer` });
+  }
+
+  const campaign = typeof input.campaign === 'string' && input.campaign !== DEFAULT_CAMPAIGN.slug
+    ? input.campaign
+    : undefined;
+  if (campaign && !getCampaign(campaign)) {
+    errors.push({ field: 'campaign', message: 'Unknown campaign' });
+  }
+
+  const expiresInDays = input.expiresInDays ?? DEFAULT_INVITE_DAYS;
+  if (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays) || expiresInDays < MIN_INVITE_DAYS || expiresInDays > MAX_INVITE_DAYS) {
+    errors.push({ field: 'expiresInDays', message: `Must be a whole number of days from ${MIN_INVITE_DAYS} to ${MAX_INVITE_DAYS}` });
+  }
+
+  if (errors.length > 0) {
+    throw new InviteError('Invalid invite', 400, errors);
+  }
+
+  return { email, name: name || undefined, campaign, expiresInDays: expiresInDays as number };
+}
+
+/**
+ * Issue an invite, creating the advisor record or refreshing the existing one for that email
+ * @param request - The validated invite request
+ * @param actor - Email of the admin sending the invite
+ * @param store - Where advisor records are kept
+ * @param env - Environment to read INVITE_SIGNING_SECRET from
+ * @returns The advisor, the signed token and the link path
+ */
+export async function createInvite(
+  request: InviteRequest,
+  actor: string,
+  store: AdvisorStore,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<CreateInviteResponse> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + request.expiresInDays * DAY_MS);
+  const existing = await store.findByEmail(request.email);
+
+  const advisor: Advisor = {
+    id: existing?.id ?? randomUUID(),
+    email: request.email,
+    name: request.name ?? existing?.name,
+    createdAt: existing?.createdAt ?? now.toISOString(),
+    invitedAt: now.toISOString(),
+    invitedBy: actor,
+    inviteExpiresAt: expiresAt.toISOString(),
+    inviteExpiries: { ...existing?.inviteExpiries, [request.campaign ?? DEFAULT_CAMPAIGN.slug]: expiresAt.toISOString() }
+  };
+
+  // Sign before saving so a missing secret never leaves an advisor without a usable invite
+  const token = signInviteToken({
+    advisorId: advisor.id,
+    email: advisor.email,
+    campaign: request.campaign,
+    exp: Math.floor(expiresAt.getTime() / 1000)
+  }, env);
+
+  return {
+    advisor: await store.save(advisor),
+    token,
+    path: invitePath(token, request.campaign),
+    expiresAt: advisor.inviteExpiresAt
+  };
+}
@@ -0,0 +1,297 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { createHash, randomUUID } from 'node:crypto';
+import { connectLambda, getStore, type Store } from '@netlify/blobs';
+import type { HandlerEvent } from '@netlify/functions';
+
+/**
+ * Storage adapter interface every store builds on: JSON documents by key.
+ * Keys may hold one level of prefix, e.g. "audit/<id>".
+ */
+export interface JsonStore<T> {
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T): Promise<void>;
+  /**
+   * Store a document only if nothing is stored under its key yet. Atomic, so of several
+   * simultaneous creates for one key exactly one succeeds.
+   * @returns Whether the document was stored
+   */
+  create(key: string, value: T): Promise<boolean>;
+  /** The document with its version, which changes whenever the document is rewritten */
+  getVersioned(key: string): Promise<Versioned<T> | null>;
+  /**
+   * Store a document only if it is still at the version that was read, or, for a null
+   * version, only if nothing is stored yet. Atomic, like create.
+   * @returns Whether the document was stored
+   */
+  setIfVersion(key: string, value: T, version: string | null): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  /** Keys starting with the prefix, in no particular order */
+  keys(prefix?: string): Promise<string[]>;
+  /** Keys starting with the prefix with the version of each document, as getVersioned reports it */
+  versions(prefix?: string): Promise<Array<{ key: string; version: string }>>;
+}
+
+/**
+ * A document and the version it was read at
+ */
+export interface Versioned<T> {
+  value: T;
+  version: string;
+}
+
+/**
+ * Where a store keeps its documents
+ */
+export interface JsonStoreLocation {
+  /** Name of the Netlify Blobs store */
+  name: string;
+  /** Environment variable that sets where the file adapter writes */
+  directoryVariable: string;
+  /** Where the file adapter writes by default */
+  defaultDirectory: string;
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+function isExistingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'EEXIST';
+}
+
+function versionOf(contents: string): string {
+  return createHash('sha256').update(contents).digest('base64url');
+}
+
+/**
+ * Conditional writes to one file run one at a time, so a check and its write can't interleave
+ * with another's. Local development runs every function in one process, so this is enough.
+ */
+const fileLocks = new Map<string, Promise<unknown>>();
+
+async function withFileLock<R>(target: string, task: () => Promise<R>): Promise<R> {
+  const run = (fileLocks.get(target) ?? Promise.resolve()).catch(() => {}).then(task);
+  fileLocks.set(target, run);
+  try {
+    return await run;
+  } finally {
+    if (fileLocks.get(target) === run) {
+      fileLocks.delete(target);
+    }
+  }
+}
+
+/**
+ * Stores each document as a JSON file. Used for local development and tests.
+ */
+export class FileJsonStore<T> implements JsonStore<T> {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private resolve(key: string): string {
+    // Keys can come from clients, so never let one escape the store directory
+    const segments = key.split('/').map(segment => path.basename(segment).replace(/^\.+$/, '_'));
+    return path.join(this.directory, ...segments);
+  }
+
+  private filePath(key: string): string {
+    return `${this.resolve(key)}.json`;
+  }
+
+  private async read(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.filePath(key), 'utf8');
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<T | null> {
+    const contents = await this.read(key);
+    return contents === null ? null : JSON.parse(contents) as T;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const target = this.filePath(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a half-written document
+    const temporary = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(value, null, 2));
+    await fs.rename(temporary, target);
+  }
+
+  async getVersioned(key: string): Promise<Versioned<T> | null> {
+    const contents = await this.read(key);
+    return contents === null ? null : { value: JSON.parse(contents) as T, version: versionOf(contents) };
+  }
+
+  async setIfVersion(key: string, value: T, version: string | null): Promise<boolean> {
+    if (version === null) {
+      return this.create(key, value);
+    }
+
+    return withFileLock(this.filePath(key), async () => {
+      const contents = await this.read(key);
+      if (contents === null || versionOf(contents) !== version) {
+        return false;
+      }
+      await this.set(key, value);
+      return true;
+    });
+  }
+
+  async create(key: string, value: T): Promise<boolean> {
+    const target = this.filePath(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    try {
+      // "wx" fails if the file exists, and the check and the create happen as one step
+      await fs.writeFile(target, JSON.stringify(value, null, 2), { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if (isExistingFile(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    const folder = prefix.slice(0, prefix.lastIndexOf('/') + 1);
+    let files: string[];
+    try {
+      files = await fs.readdir(this.resolve(folder));
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    return files
+      .filter(file => file.endsWith('.json'))
+      .map(file => `${folder}${file.slice(0, -'.json'.length)}`)
+      .filter(key => key.startsWith(prefix));
+  }
+
+  async versions(prefix = ''): Promise<Array<{ key: string; version: string }>> {
+    // Versions are content hashes, so every document is read; the file adapter only serves local development
+    const documents = await Promise.all((await this.keys(prefix)).map(async key => ({ key, contents: await this.read(key) })));
+    return documents.flatMap(({ key, contents }) => contents === null ? [] : [{ key, version: versionOf(contents) }]);
+  }
+}
+
+/**
+ * Stores documents in Netlify Blobs. Used in deployed environments.
+ */
+export class BlobsJsonStore<T> implements JsonStore<T> {
+  private store: Store;
+
+  constructor(storeName: string) {
+    this.store = getStore({ name: storeName, consistency: 'strong' });
+  }
+
+  async get(key: string): Promise<T | null> {
+    return ((await this.store.get(key, { type: 'json' })) as T | null) ?? null;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    await this.store.setJSON(key, value);
+  }
+
+  async create(key: string, value: T): Promise<boolean> {
+    const { modified } = await this.store.setJSON(key, value, { onlyIfNew: true });
+    return modified;
+  }
+
+  async getVersioned(key: string): Promise<Versioned<T> | null> {
+    const blob = await this.store.getWithMetadata(key, { type: 'json' });
+    return blob?.etag ? { value: blob.data as T, version: blob.etag } : null;
+  }
+
+  async setIfVersion(key: string, value: T, version: string | null): Promise<boolean> {
+    const { modified } = await this.store.setJSON(key, value, version === null ? { onlyIfNew: true } : { onlyIfMatch: version });
+    return modified;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    const { blobs } = await this.store.list(prefix ? { prefix } : {});
+    return blobs.map(blob => blob.key);
+  }
+
+  async versions(prefix = ''): Promise<Array<{ key: string; version: string }>> {
+    const { blobs } = await this.store.list(prefix ? { prefix } : {});
+    return blobs.map(blob => ({ key: blob.key, version: blob.etag }));
+  }
+}
+
+/**
+ * Create a JSON store with the adapter configured for this environment.
+ * SUBMISSION_STORE selects the adapter for every store ("file" or "blobs", default "file").
+ * @param location - The Blobs store name and file directory
+ * @param event - The Netlify function event, needed to connect to Blobs
+ */
+export function getJsonStore<T>(location: JsonStoreLocation, event?: HandlerEvent): JsonStore<T> {
+  const adapter = process.env.SUBMISSION_STORE || 'file';
+
+  if (adapter === 'blobs') {
+    if (event && 'blobs' in event) {
+      connectLambda(event as unknown as Parameters<typeof connectLambda>[0]);
+    }
+    return new BlobsJsonStore<T>(location.name);
+  }
+
+  if (adapter === 'file') {
+    return new FileJsonStore<T>(
+      path.resolve(process.env[location.directoryVariable] || location.defaultDirectory)
+    );
+  }
+
+  throw new Error(`Unknown SUBMISSION_STORE adapter: ${adapter}`);
+}
+
+/**
+ * Simultaneous updates each get this many tries before giving up
+ */
+const MAX_UPDATE_ATTEMPTS = 10;
+
+/**
+ * Change a document without losing a simultaneous change to it. The document is written
+ * only at the version it was read at; if someone else wrote it in between, it is read
+ * again and the change applied afresh.
+ * @param store - The store holding the document
+ * @param key - The document's key
+ * @param change - Builds the new document from the stored one, or null if there is none;
+ * returning null leaves the document as it is
+ * @returns The document as written, or null if nothing was written
+ * @throws Error if the document kept changing through every attempt
+ */
+export async function updateJson<T>(store: JsonStore<T>, key: string, change: (current: T | null) => T | null): Promise<T | null> {
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const current = await store.getVersioned(key);
+    const next = change(current?.value ?? null);
+    if (next === null) {
+      return null;
+    }
+    if (await store.setIfVersion(key, next, current?.version ?? null)) {
+      return next;
+    }
+  }
+  throw new Error(`Gave up updating ${key} after ${MAX_UPDATE_ATTEMPTS} attempts, as it kept changing`);
+}
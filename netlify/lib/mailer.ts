@@ -0,0 +1,58 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import nodemailer from 'nodemailer';
+import { NOTIFIER_TIMEOUT_MS } from './notifiers/post';
+
+/**
+ * An email to one recipient
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const DEFAULT_FROM = 'Network Assist <no-reply@localhost>';
+
+/**
+ * Connect to SMTP_URL, giving up on a server that stops answering as soon as a webhook would be given up on
+ * @param url - The SMTP connection URL
+ */
+export function createSmtpTransport(url: string) {
+  return nodemailer.createTransport({
+    url,
+    connectionTimeout: NOTIFIER_TIMEOUT_MS,
+    greetingTimeout: NOTIFIER_TIMEOUT_MS,
+    socketTimeout: NOTIFIER_TIMEOUT_MS
+  });
+}
+
+/**
+ * Send an email over SMTP_URL from EMAIL_FROM. Without SMTP_URL the message is
+ * written to MAIL_OUTBOX_DIR (default ".data/outbox") as an .eml file instead,
+ * so sign-in links can be opened during local development.
+ * @param message - The email
+ * @param env - Environment to read the mail settings from
+ * @returns Where the message went: "smtp" or the path of the outbox file
+ */
+export async function sendMail(message: MailMessage, env: NodeJS.ProcessEnv = process.env): Promise<string> {
+  const from = env.EMAIL_FROM || DEFAULT_FROM;
+
+  if (env.SMTP_URL) {
+    await createSmtpTransport(env.SMTP_URL).sendMail({ from, ...message });
+    return 'smtp';
+  }
+
+  const transport = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  const info = await transport.sendMail({ from, ...message });
+
+  const directory = path.resolve(env.MAIL_OUTBOX_DIR || '.data/outbox');
+  await fs.mkdir(directory, { recursive: true });
+  const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`);
+  await fs.writeFile(file, info.message);
+
+  console.warn(`SMTP_URL is not set; wrote "${message.subject}" for ${message.to} to ${file}`);
+  return file;
+}
@@ -0,0 +1,113 @@
+import { createSmtpTransport } from '../mailer';
+import type { Notifier } from './index';
+import { withNotifierTimeout } from './post';
+import type { NormalizedContact, NormalizedSubmission } from './normalize';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * The optional details the advisor filled in for a contact, as "Label: value" lines
+ */
+function optionalDetails(contact: NormalizedContact): string[] {
+  return [
+    ...contact.details.map(detail => `${detail.label}: ${detail.value}`),
+    ...(contact.introNotes ? [`How they know them: ${contact.introNotes}`] : [])
+  ];
+}
+
+/**
+ * Build the plain-text and HTML digest email for a submission
+ */
+export function buildEmailDigest(submission: NormalizedSubmission) {
+  const subject = `Network Assist submission from ${submission.userEmail} (${submission.totalFirms} firm${submission.totalFirms !== 1 ? 's' : ''})`;
+
+  const textLines = [
+    'New Network Assist Form Submission',
+    '',
+    `User Email: ${submission.userEmail}`,
+    `Total Firms: ${submission.totalFirms} (${submission.matchedFirms} matched)`,
+    ...(submission.campaign ? [`Campaign: ${submission.campaign.name}`] : []),
+    ...(submission.introPreference ? [`Intro Preference: ${submission.introPreference}`] : []),
+    ''
+  ];
+
+  submission.firms.forEach(firm => {
+    textLines.push(`Firm ${firm.position}: ${firm.firmName} — ${firm.isMatched ? 'Matched' : 'Not matched'}`);
+    firm.contacts.forEach(contact => {
+      textLines.push(
+        `  Contact: ${contact.name} (${contact.designation})`,
+        `    Relationship: ${contact.relationshipLabel}`,
+        `    Contact Frequency: ${contact.contactFrequencyLabel}`,
+        ...optionalDetails(contact).map(line => `    ${line}`)
+      );
+    });
+  });
+
+  textLines.push('', `Submitted on ${new Date(submission.receivedAt).toUTCString()} · ID ${submission.id}`);
+
+  // One row per contact; the firm cells span all of a firm's contact rows
+  const firmRows = submission.firms.map(firm => {
+    const rowSpan = Math.max(firm.contacts.length, 1);
+    const contactCells = firm.contacts.length > 0
+      ? firm.contacts.map(contact => `
+          <td>${[`${contact.name}, ${contact.designation}`, ...optionalDetails(contact)].map(escapeHtml).join('<br>')}</td>
+          <td>${contact.relationshipLabel}</td>
+          <td>${contact.contactFrequencyLabel}</td>`)
+      : [`
+          <td>—</td>
+          <td>—</td>
+          <td>—</td>`];
+
+    return contactCells.map((cells, index) => `
+        <tr>${index === 0 ? `
+          <td rowspan="${rowSpan}">${firm.position}</td>
+          <td rowspan="${rowSpan}">${escapeHtml(firm.firmName)}</td>
+          <td rowspan="${rowSpan}">${firm.isMatched ? 'Matched' : 'Not matched'}</td>` : ''}${cells}
+        </tr>`).join('');
+  }).join('');
+
+  const html = `
+    <h2>New Network Assist Form Submission</h2>
+    <p><strong>User Email:</strong> ${escapeHtml(submission.userEmail)}<br>
+    <strong>Total Firms:</strong> ${submission.totalFirms} (${submission.matchedFirms} matched)${submission.campaign ? `<br>
+    <strong>Campaign:</strong> ${escapeHtml(submission.campaign.name)}` : ''}${submission.introPreference ? `<br>
+    <strong>Intro Preference:</strong> ${submission.introPreference}` : ''}</p>
+    <table cellpadding="6" border="1" style="border-collapse: collapse">
+      <thead>
+        <tr><th>#</th><th>Firm</th><th>Status</th><th>Contact</th><th>Relationship</th><th>Frequency</th></tr>
+      </thead>
+      <tbody>${firmRows}
+      </tbody>
+    </table>
+    <p style="color: #666">Submitted on ${new Date(submission.receivedAt).toUTCString()} · ID ${submission.id}</p>`;
+
+  return { subject, text: textLines.join('\n'), html };
+}
+
+/**
+ * Emails a digest of each submission over SMTP (SMTP_URL, EMAIL_FROM, EMAIL_TO)
+ */
+export function createEmailNotifier(env: NodeJS.ProcessEnv): Notifier {
+  return {
+    name: 'email',
+    async send(submission) {
+      if (!env.SMTP_URL || !env.EMAIL_FROM || !env.EMAIL_TO) {
+        throw new Error('SMTP_URL, EMAIL_FROM and EMAIL_TO environment variables must be set');
+      }
+
+      // The transport's own timeouts close a connection that goes quiet; the overall limit covers a slow one
+      await withNotifierTimeout('Email', createSmtpTransport(env.SMTP_URL).sendMail({
+        from: env.EMAIL_FROM,
+        to: env.EMAIL_TO.split(',').map(address => address.trim()).filter(Boolean),
+        ...buildEmailDigest(submission)
+      }));
+    }
+  };
+}
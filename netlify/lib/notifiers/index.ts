@@ -0,0 +1,90 @@
+import type { Campaign } from '../../../src/types';
+import type { DeliveryStatus, SubmissionRecord } from '../submission-store';
+import { normalizeSubmission, type NormalizedSubmission } from './normalize';
+import { createSlackNotifier } from './slack';
+import { createEmailNotifier } from './email';
+import { createTeamsNotifier } from './teams';
+import { createWebhookNotifier } from './webhook';
+
+/**
+ * A downstream notification channel. Every channel renders from the same
+ * normalised submission and throws if delivery fails.
+ */
+export interface Notifier {
+  name: string;
+  send(submission: NormalizedSubmission): Promise<void>;
+}
+
+const notifierFactories: Record<string, (env: NodeJS.ProcessEnv) => Notifier> = {
+  slack: createSlackNotifier,
+  email: createEmailNotifier,
+  teams: createTeamsNotifier,
+  webhook: createWebhookNotifier
+};
+
+/**
+ * Build the notifiers enabled by NOTIFY_CHANNELS, a comma-separated list of
+ * channel names (default "slack"). Unknown names become notifiers that always
+ * fail, so a typo shows up in the delivery report instead of being ignored.
+ */
+export function getConfiguredNotifiers(env: NodeJS.ProcessEnv = process.env): Notifier[] {
+  const names = (env.NOTIFY_CHANNELS || 'slack')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return [...new Set(names)].map(name => {
+    const factory = notifierFactories[name];
+    if (!factory) {
+      return {
+        name,
+        send: async () => {
+          throw new Error(`Unknown notification channel: ${name}`);
+        }
+      };
+    }
+    return factory(env);
+  });
+}
+
+/**
+ * Environment for a campaign's notifications. Variables prefixed with
+ * CAMPAIGN_<SLUG>_ (the slug upper-cased with hyphens as underscores) override the
+ * unprefixed ones, so CAMPAIGN_UK_EXPANSION_WEBHOOK_URL sends that campaign's Slack
+ * messages to its own channel and CAMPAIGN_UK_EXPANSION_NOTIFY_CHANNELS picks its channels.
+ */
+export function getCampaignEnv(campaign: Campaign, env: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+  const prefix = `CAMPAIGN_${campaign.slug.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_`;
+  const overrides = Object.entries(env)
+    .filter(([name]) => name.startsWith(prefix) && name.length > prefix.length)
+    .map(([name, value]) => [name.slice(prefix.length), value]);
+
+  return { ...env, ...Object.fromEntries(overrides) };
+}
+
+/**
+ * Send a stored submission to every notifier. Channels are independent: one
+ * failing is recorded in its delivery status and never affects the others.
+ * @returns Delivery status keyed by channel name
+ */
+export async function deliverNotifications(
+  record: SubmissionRecord,
+  notifiers: Notifier[]
+): Promise<Record<string, DeliveryStatus>> {
+  const submission = normalizeSubmission(record);
+
+  const results = await Promise.allSettled(notifiers.map(notifier => notifier.send(submission)));
+  const attemptedAt = new Date().toISOString();
+
+  return Object.fromEntries(results.map((result, index): [string, DeliveryStatus] => {
+    const { name } = notifiers[index];
+
+    if (result.status === 'fulfilled') {
+      return [name, { status: 'delivered', attemptedAt }];
+    }
+
+    const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    console.error(`${name} delivery failed for submission ${record.id}:`, result.reason);
+    return [name, { status: 'failed', attemptedAt, error }];
+  }));
+}
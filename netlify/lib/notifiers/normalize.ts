@@ -0,0 +1,90 @@
+import type { SubmissionRecord } from '../submission-store';
+import { formatContactFrequency, formatRelationshipStrength } from '../../../src/shared/contactOptions';
+import { getCampaign } from '../../../src/shared/campaigns';
+import { formatIntroPreference } from '../../../src/shared/consent';
+
+/**
+ * A contact at a matched firm, with enum values resolved to labels
+ */
+export interface NormalizedContact {
+  name: string;
+  designation: string;
+  relationshipStrength: string;
+  relationshipLabel: string;
+  contactFrequency: string;
+  contactFrequencyLabel: string;
+  /** Email, phone, LinkedIn and practice area, in that order, leaving out any the advisor left blank */
+  details: { label: string; value: string }[];
+  /** How the advisor knows them, or null if not given */
+  introNotes: string | null;
+}
+
+export interface NormalizedFirm {
+  /** 1-based position in the submission */
+  position: number;
+  firmId: string | null;
+  firmName: string;
+  isMatched: boolean;
+  /** Every contact shared for a matched firm; empty for unmatched firms */
+  contacts: NormalizedContact[];
+}
+
+/**
+ * Channel-independent view of a submission that every notifier renders from
+ */
+export interface NormalizedSubmission {
+  id: string;
+  receivedAt: string;
+  userEmail: string;
+  /** The campaign the submission came through, or null for the default form */
+  campaign: { slug: string; name: string } | null;
+  /** How the advisor wants introductions handled, or null for submissions from before it was asked */
+  introPreference: string | null;
+  totalFirms: number;
+  matchedFirms: number;
+  firms: NormalizedFirm[];
+}
+
+/**
+ * Flatten a stored submission into the shape notifiers render
+ */
+export function normalizeSubmission(record: SubmissionRecord): NormalizedSubmission {
+  const firms = record.payload.firms.map((firm, index): NormalizedFirm => ({
+    position: index + 1,
+    firmId: firm.firmId ?? null,
+    firmName: firm.firmName,
+    isMatched: firm.isMatched,
+    contacts: firm.isMatched
+      ? (firm.contacts ?? []).map(contact => ({
+          name: contact.name,
+          designation: contact.designation || 'Not specified',
+          relationshipStrength: contact.relationshipStrength || '',
+          relationshipLabel: formatRelationshipStrength(contact.relationshipStrength),
+          contactFrequency: contact.contactFrequency || '',
+          contactFrequencyLabel: formatContactFrequency(contact.contactFrequency),
+          details: [
+            { label: 'Email', value: contact.email ?? '' },
+            { label: 'Phone', value: contact.phone ?? '' },
+            { label: 'LinkedIn', value: contact.linkedinUrl ?? '' },
+            { label: 'Practice Area', value: contact.practiceArea ?? '' }
+          ].filter(detail => detail.value !== ''),
+          introNotes: contact.introNotes || null
+        }))
+      : []
+  }));
+
+  const campaign = record.payload.campaign ? getCampaign(record.payload.campaign) : null;
+
+  return {
+    id: record.id,
+    receivedAt: record.receivedAt,
+    userEmail: record.payload.userEmail || 'Not provided',
+    campaign: record.payload.campaign
+      ? { slug: record.payload.campaign, name: campaign?.name ?? record.payload.campaign }
+      : null,
+    introPreference: record.consent ? formatIntroPreference(record.consent.introPreference) : null,
+    totalFirms: firms.length,
+    matchedFirms: firms.filter(firm => firm.isMatched).length,
+    firms
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * How long a channel has to answer. Submissions wait for their notifications,
+ * so a channel that hangs must not hold the function past its own time limit.
+ */
+export const NOTIFIER_TIMEOUT_MS = 5_000;
+
+function timedOut(label: string): Error {
+  return new Error(`${label} timed out after ${NOTIFIER_TIMEOUT_MS / 1000} seconds`);
+}
+
+/**
+ * Give up waiting for a delivery that takes longer than NOTIFIER_TIMEOUT_MS
+ * @param label - Names the channel in errors, e.g. "Email"
+ * @param delivery - The delivery in progress
+ * @throws If the delivery fails or times out
+ */
+export function withNotifierTimeout<T>(label: string, delivery: Promise<T>): Promise<T> {
+  const signal = AbortSignal.timeout(NOTIFIER_TIMEOUT_MS);
+
+  return new Promise<T>((resolve, reject) => {
+    const onTimeout = () => reject(timedOut(label));
+    if (signal.aborted) {
+      onTimeout();
+    } else {
+      signal.addEventListener('abort', onTimeout, { once: true });
+    }
+    delivery.then(resolve, reject).finally(() => signal.removeEventListener('abort', onTimeout));
+  });
+}
+
+/**
+ * POST a notification to a channel's endpoint, giving up after NOTIFIER_TIMEOUT_MS
+ * @param label - Names the channel in errors, e.g. "Slack webhook"
+ * @param url - The channel's endpoint
+ * @param init - Headers and body of the request
+ * @throws If the channel times out, can't be reached or answers with an error status
+ */
+export async function postNotification(label: string, url: string, init: Pick<RequestInit, 'headers' | 'body'>): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, method: 'POST', signal: AbortSignal.timeout(NOTIFIER_TIMEOUT_MS) });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      throw timedOut(label);
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    throw new Error(`${label} failed: ${response.status}`);
+  }
+}
@@ -0,0 +1,161 @@
+import type { Notifier } from './index';
+import { postNotification } from './post';
+import type { NormalizedSubmission } from './normalize';
+
+/**
+ * Escape user-provided text for Slack mrkdwn. "&", "<" and ">" are entity-encoded so
+ * values cannot inject mentions or links, and formatting characters are preceded by a
+ * zero-width space so they render literally instead of as bold, italics, strike or code.
+ */
+export function escapeMrkdwn(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/([*_~`])/g, '\u200b$1');
+}
+
+/**
+ * Build the Slack Block Kit message for a submission
+ */
+export function buildSlackMessage(submission: NormalizedSubmission) {
+  // Build firm details blocks
+  const firmBlocks = submission.firms.flatMap((firm) => {
+    const fields = [
+      {
+        type: "mrkdwn",
+        text: `*Firm Name:*\n${escapeMrkdwn(firm.firmName)}`
+      },
+      {
+        type: "mrkdwn",
+        text: `*Status:*\n${firm.isMatched ? '✅ Matched' : '❌ Not Matched'}`
+      }
+    ];
+
+    // One section per contact at a matched firm, numbered when there are several,
+    // with any intro notes in a section of their own below it
+    const contactBlocks = firm.contacts.flatMap((contact, index) => [{
+      type: "section",
+      fields: [
+        {
+          type: "mrkdwn",
+          text: `*${firm.contacts.length > 1 ? `Contact ${index + 1}` : 'Contact Name'}:*\n${escapeMrkdwn(contact.name)}`
+        },
+        {
+          type: "mrkdwn",
+          text: `*Designation:*\n${escapeMrkdwn(contact.designation)}`
+        },
+        {
+          type: "mrkdwn",
+          text: `*Relationship:*\n${contact.relationshipLabel}`
+        },
+        {
+          type: "mrkdwn",
+          text: `*Contact Frequency:*\n${contact.contactFrequencyLabel}`
+        },
+        ...contact.details.map(detail => ({
+          type: "mrkdwn",
+          text: `*${detail.label}:*\n${escapeMrkdwn(detail.value)}`
+        }))
+      ]
+    }, ...(contact.introNotes
+      ? [{
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: `*How they know them:*\n${escapeMrkdwn(contact.introNotes)}`
+          }
+        }]
+      : [])]);
+
+    return [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*Firm ${firm.position}:*${firm.firmId ? ` \`${escapeMrkdwn(firm.firmId)}\`` : ''}`
+        }
+      },
+      {
+        type: "section",
+        fields: fields
+      },
+      ...contactBlocks,
+      {
+        type: "divider"
+      }
+    ];
+  });
+
+  return {
+    text: "New Network Assist Form Submission",
+    blocks: [
+      {
+        type: "header",
+        text: {
+          type: "plain_text",
+          text: "🆕 New Network Assist Form Submission"
+        }
+      },
+      {
+        type: "section",
+        fields: [
+          {
+            type: "mrkdwn",
+            text: `*User Email:*\n${escapeMrkdwn(submission.userEmail)}`
+          },
+          {
+            type: "mrkdwn",
+            text: `*Total Firms:*\n${submission.totalFirms}`
+          },
+          ...(submission.campaign
+            ? [{
+                type: "mrkdwn",
+                text: `*Campaign:*\n${escapeMrkdwn(submission.campaign.name)}`
+              }]
+            : []),
+          ...(submission.introPreference
+            ? [{
+                type: "mrkdwn",
+                text: `*Intro Preference:*\n${submission.introPreference}`
+              }]
+            : [])
+        ]
+      },
+      {
+        type: "divider"
+      },
+      ...firmBlocks,
+      {
+        type: "context",
+        elements: [
+          {
+            type: "plain_text",
+            text: `Submitted on ${new Date(submission.receivedAt).toLocaleString()} · ID ${submission.id}`
+          }
+        ]
+      }
+    ]
+  };
+}
+
+/**
+ * Posts Block Kit messages to a Slack incoming webhook (WEBHOOK_URL)
+ */
+export function createSlackNotifier(env: NodeJS.ProcessEnv): Notifier {
+  return {
+    name: 'slack',
+    async send(submission) {
+      if (!env.WEBHOOK_URL) {
+        throw new Error('WEBHOOK_URL environment variable not set');
+      }
+
+      await postNotification('Slack webhook', env.WEBHOOK_URL, {
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(buildSlackMessage(submission))
+      });
+    }
+  };
+}
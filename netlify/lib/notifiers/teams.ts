@@ -0,0 +1,107 @@
+import type { Notifier } from './index';
+import { postNotification } from './post';
+import type { NormalizedSubmission } from './normalize';
+
+/**
+ * Escape the markdown subset Adaptive Card TextBlocks and FactSets render
+ */
+export function escapeTeamsMarkdown(value: string): string {
+  return value.replace(/([\\*_~`[\]()#>-])/g, '\\$1');
+}
+
+/**
+ * Build the Microsoft Teams message carrying an Adaptive Card for a submission
+ */
+export function buildTeamsMessage(submission: NormalizedSubmission) {
+  const firmContainers = submission.firms.map(firm => ({
+    type: 'Container',
+    separator: true,
+    items: [
+      {
+        type: 'TextBlock',
+        text: `Firm ${firm.position}: ${escapeTeamsMarkdown(firm.firmName)}`,
+        weight: 'Bolder',
+        wrap: true
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Status', value: firm.isMatched ? '✅ Matched' : '❌ Not Matched' },
+          ...firm.contacts.flatMap((contact, index) => [
+            { title: firm.contacts.length > 1 ? `Contact ${index + 1}` : 'Contact Name', value: escapeTeamsMarkdown(contact.name) },
+            { title: 'Designation', value: escapeTeamsMarkdown(contact.designation) },
+            { title: 'Relationship', value: contact.relationshipLabel },
+            { title: 'Contact Frequency', value: contact.contactFrequencyLabel },
+            ...contact.details.map(detail => ({ title: detail.label, value: escapeTeamsMarkdown(detail.value) })),
+            ...(contact.introNotes ? [{ title: 'How They Know Them', value: escapeTeamsMarkdown(contact.introNotes) }] : [])
+          ])
+        ]
+      }
+    ]
+  }));
+
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body: [
+            {
+              type: 'TextBlock',
+              text: '🆕 New Network Assist Form Submission',
+              size: 'Large',
+              weight: 'Bolder',
+              wrap: true
+            },
+            {
+              type: 'FactSet',
+              facts: [
+                { title: 'User Email', value: escapeTeamsMarkdown(submission.userEmail) },
+                { title: 'Total Firms', value: String(submission.totalFirms) },
+                ...(submission.campaign
+                  ? [{ title: 'Campaign', value: escapeTeamsMarkdown(submission.campaign.name) }]
+                  : []),
+                ...(submission.introPreference
+                  ? [{ title: 'Intro Preference', value: submission.introPreference }]
+                  : [])
+              ]
+            },
+            ...firmContainers,
+            {
+              type: 'TextBlock',
+              text: `Submitted on ${new Date(submission.receivedAt).toUTCString()} · ID ${submission.id}`,
+              isSubtle: true,
+              size: 'Small',
+              wrap: true
+            }
+          ]
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * Posts Adaptive Cards to a Microsoft Teams incoming webhook (TEAMS_WEBHOOK_URL)
+ */
+export function createTeamsNotifier(env: NodeJS.ProcessEnv): Notifier {
+  return {
+    name: 'teams',
+    async send(submission) {
+      if (!env.TEAMS_WEBHOOK_URL) {
+        throw new Error('TEAMS_WEBHOOK_URL environment variable not set');
+      }
+
+      await postNotification('Teams webhook', env.TEAMS_WEBHOOK_URL, {
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(buildTeamsMessage(submission))
+      });
+    }
+  };
+}
@@ -0,0 +1,38 @@
+import { createHmac } from 'node:crypto';
+import type { Notifier } from './index';
+import { postNotification } from './post';
+
+/**
+ * Sign a webhook body. Receivers recompute the HMAC over `${timestamp}.${body}`
+ * with the shared secret and compare it to the X-Signature header.
+ */
+export function signWebhookBody(body: string, timestamp: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Posts the normalised submission as signed JSON to a generic webhook,
+ * such as the CRM (NOTIFY_WEBHOOK_URL, NOTIFY_WEBHOOK_SECRET)
+ */
+export function createWebhookNotifier(env: NodeJS.ProcessEnv): Notifier {
+  return {
+    name: 'webhook',
+    async send(submission) {
+      if (!env.NOTIFY_WEBHOOK_URL || !env.NOTIFY_WEBHOOK_SECRET) {
+        throw new Error('NOTIFY_WEBHOOK_URL and NOTIFY_WEBHOOK_SECRET environment variables must be set');
+      }
+
+      const body = JSON.stringify({ event: 'submission.created', submission });
+      const timestamp = String(Math.floor(Date.now() / 1000));
+
+      await postNotification('Webhook', env.NOTIFY_WEBHOOK_URL, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Timestamp': timestamp,
+          'X-Signature': signWebhookBody(body, timestamp, env.NOTIFY_WEBHOOK_SECRET)
+        },
+        body
+      });
+    }
+  };
+}
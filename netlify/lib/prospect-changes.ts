@@ -0,0 +1,240 @@
+import { randomUUID } from 'node:crypto';
+import type {
+  FirmRecord,
+  ProspectAuditEntry,
+  ProspectChange,
+  ProspectFirm,
+  ProspectFirmInput,
+  ValidationErrorDetail
+} from '../../src/types';
+import { SUBMISSION_LIMITS, sanitizeText } from '../../src/shared/submissionSchema';
+import {
+  dedupeFirmNames,
+  findNameCollisions,
+  planProspectImport,
+  uniqueFirmId
+} from '../../src/shared/prospectList';
+import { toFirmRecord, type ProspectList } from './prospect-store';
+
+const MAX_NAMES_PER_FIRM = 25;
+const MAX_IMPORT_SIZE = 1000;
+
+/**
+ * Error thrown when a prospect change is rejected
+ */
+export class ProspectChangeError extends Error {
+  status: number;
+  details?: ValidationErrorDetail[];
+
+  constructor(message: string, status: number, details?: ValidationErrorDetail[]) {
+    super(message);
+    this.name = 'ProspectChangeError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export interface ProspectChangeResult {
+  list: ProspectList;
+  audit: ProspectAuditEntry[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readNames(value: unknown, field: string, errors: ValidationErrorDetail[]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(name => typeof name !== 'string')) {
+    errors.push({ field, message: 'Must be a list of names' });
+    return [];
+  }
+
+  const names = value.map(name => sanitizeText(name)).filter(Boolean);
+  if (names.length > MAX_NAMES_PER_FIRM) {
+    errors.push({ field, message: `No more than ${MAX_NAMES_PER_FIRM} names are allowed` });
+  }
+  if (names.some(name => name.length > SUBMISSION_LIMITS.firmNameLength)) {
+    errors.push({ field, message: `Names must be ${SUBMISSION_LIMITS.firmNameLength} characters or fewer` });
+  }
+  return names;
+}
+
+function readFirmInput(input: unknown, field: string, errors: ValidationErrorDetail[]): ProspectFirmInput | null {
+  if (!isRecord(input)) {
+    errors.push({ field, message: 'Must be a firm' });
+    return null;
+  }
+
+  const name = typeof input.name === 'string' ? sanitizeText(input.name) : '';
+  if (!name) {
+    errors.push({ field: `${field}.name`, message: 'Firm name is required' });
+  } else if (name.length > SUBMISSION_LIMITS.firmNameLength) {
+    errors.push({ field: `${field}.name`, message: `Must be ${SUBMISSION_LIMITS.firmNameLength} characters or fewer` });
+  }
+
+  return {
+    id: typeof input.id === 'string' && input.id.trim() ? input.id.trim() : undefined,
+    name,
+    aliases: readNames(input.aliases, `${field}.aliases`, errors),
+    formerNames: readNames(input.formerNames, `${field}.formerNames`, errors)
+  };
+}
+
+function collisionErrors(firm: FirmRecord, firms: ProspectFirm[], field: string): ValidationErrorDetail[] {
+  return findNameCollisions(firm, firms).map(collision => ({
+    field,
+    message: `"${collision.name}" is already used by ${collision.firm.name}`
+  }));
+}
+
+function findFirm(firms: ProspectFirm[], firmId: unknown): ProspectFirm {
+  const firm = typeof firmId === 'string' ? firms.find(candidate => candidate.id === firmId) : undefined;
+  if (!firm) {
+    throw new ProspectChangeError('Firm not found', 404);
+  }
+  return firm;
+}
+
+/**
+ * Apply one change to the prospect list
+ * @param list - The current prospect list
+ * @param change - The untrusted change request
+ * @param actor - Email of the admin making the change
+ * @returns The updated list and the audit entries describing the change
+ * @throws ProspectChangeError if the change is invalid or refers to an unknown firm
+ */
+export function applyProspectChange(list: ProspectList, change: unknown, actor: string): ProspectChangeResult {
+  if (!isRecord(change) || typeof change.action !== 'string') {
+    throw new ProspectChangeError('Invalid change', 400, [{ field: 'action', message: 'An action is required' }]);
+  }
+
+  const now = new Date().toISOString();
+  const firms = list.firms.map(firm => ({ ...firm }));
+  const audit: ProspectAuditEntry[] = [];
+  const errors: ValidationErrorDetail[] = [];
+  const action = change.action as ProspectChange['action'];
+
+  const record = (firmId: string, before: FirmRecord | null, after: FirmRecord | null) => {
+    audit.push({ id: randomUUID(), at: now, actor, action, firmId, before, after });
+  };
+
+  const stamp = (firm: FirmRecord, status: ProspectFirm['status']): ProspectFirm => ({
+    ...firm,
+    status,
+    updatedAt: now,
+    updatedBy: actor
+  });
+
+  switch (action) {
+    case 'create': {
+      const input = readFirmInput(change.firm, 'firm', errors);
+      if (!input || errors.length > 0) {
+        break;
+      }
+      const created = dedupeFirmNames({
+        id: uniqueFirmId(input.name, firms),
+        name: input.name,
+        aliases: input.aliases ?? [],
+        formerNames: input.formerNames ?? []
+      });
+      errors.push(...collisionErrors(created, firms, 'firm'));
+      firms.push(stamp(created, 'active'));
+      record(created.id, null, created);
+      break;
+    }
+
+    case 'update': {
+      const input = readFirmInput(change.firm, 'firm', errors);
+      if (!input || errors.length > 0) {
+        break;
+      }
+      const index = firms.indexOf(findFirm(firms, input.id));
+      const before = toFirmRecord(firms[index]);
+      const updated = dedupeFirmNames({
+        id: before.id,
+        name: input.name,
+        aliases: input.aliases ?? [],
+        formerNames: input.formerNames ?? []
+      });
+      if (firms[index].status === 'active') {
+        errors.push(...collisionErrors(updated, firms, 'firm'));
+      }
+      firms[index] = stamp(updated, firms[index].status);
+      record(before.id, before, updated);
+      break;
+    }
+
+    case 'archive':
+    case 'restore': {
+      const firm = findFirm(firms, change.firmId);
+      const status = action === 'archive' ? 'archived' : 'active';
+      if (firm.status === status) {
+        break;
+      }
+      if (status === 'active') {
+        errors.push(...collisionErrors(firm, firms, 'firmId'));
+      }
+      firms[firms.indexOf(firm)] = stamp(toFirmRecord(firm), status);
+      record(firm.id, toFirmRecord(firm), toFirmRecord(firm));
+      break;
+    }
+
+    case 'import': {
+      if (!Array.isArray(change.firms) || change.firms.length === 0) {
+        errors.push({ field: 'firms', message: 'At least one firm is required' });
+        break;
+      }
+      if (change.firms.length > MAX_IMPORT_SIZE) {
+        errors.push({ field: 'firms', message: `No more than ${MAX_IMPORT_SIZE} firms can be imported at once` });
+        break;
+      }
+
+      const inputs: ProspectFirmInput[] = [];
+      change.firms.forEach((raw, position) => {
+        const input = readFirmInput(raw, `firms[${position}]`, errors);
+        if (input) {
+          inputs.push(input);
+        }
+      });
+      if (errors.length > 0) {
+        break;
+      }
+
+      // The same plan the admin previewed, so what is applied matches what they saw
+      const plan = planProspectImport(firms, inputs, change.archiveMissing === true);
+      plan.issues
+        .filter(issue => issue.severity === 'error')
+        .forEach(issue => errors.push({ field: 'firms', message: issue.message }));
+      if (errors.length > 0) {
+        break;
+      }
+
+      plan.changes.forEach(planned => {
+        const status = planned.type === 'removed' ? 'archived' : 'active';
+        const index = firms.findIndex(firm => firm.id === planned.after.id);
+        if (index === -1) {
+          firms.push(stamp(planned.after, status));
+        } else {
+          firms[index] = stamp(planned.after, status);
+        }
+        record(planned.after.id, planned.before, planned.after);
+      });
+      break;
+    }
+
+    default:
+      throw new ProspectChangeError('Invalid change', 400, [{ field: 'action', message: `Unknown action: ${String(change.action)}` }]);
+  }
+
+  if (errors.length > 0) {
+    throw new ProspectChangeError('Invalid change', 400, errors);
+  }
+
+  return {
+    list: audit.length > 0 ? { updatedAt: now, firms } : list,
+    audit
+  };
+}
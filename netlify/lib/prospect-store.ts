@@ -0,0 +1,162 @@
+import type { HandlerEvent } from '@netlify/functions';
+import { getJsonStore, type JsonStore, type Versioned } from './json-store';
+import type { FirmRecord, ProspectAuditEntry, ProspectFirm } from '../../src/types';
+import firmsData from '../../firms.json';
+
+/**
+ * The stored prospect list
+ */
+export interface ProspectList {
+  /** ISO timestamp of the last change, or null for the bundled list */
+  updatedAt: string | null;
+  firms: ProspectFirm[];
+}
+
+/**
+ * The prospect list and the version it was loaded at
+ */
+export interface LoadedProspectList {
+  list: ProspectList;
+  /** Version of the stored list, or BUNDLED_VERSION until it is first changed */
+  version: string;
+}
+
+/**
+ * Storage adapter interface implemented by every prospect store
+ */
+export interface ProspectStore {
+  /** The stored list with its version, or null if it has never been changed */
+  getList(): Promise<Versioned<ProspectList> | null>;
+  /**
+   * Save the list unless it has changed since it was loaded
+   * @param list - The new list
+   * @param version - The version the change was made against
+   * @returns Whether the list was saved
+   */
+  saveList(list: ProspectList, version: string): Promise<boolean>;
+  appendAudit(entries: ProspectAuditEntry[]): Promise<void>;
+  /** Audit entries, newest first */
+  listAudit(limit: number): Promise<ProspectAuditEntry[]>;
+}
+
+/** Version of the bundled list, used until the list is first stored */
+export const BUNDLED_VERSION = 'bundled';
+
+const LIST_KEY = 'firms';
+const AUDIT_PREFIX = 'audit';
+
+/**
+ * Server-side cache of the active firms, so submit-form does not read the store on every request
+ */
+const ACTIVE_FIRMS_TTL_MS = 60 * 1000;
+let activeFirmsCache: { firms: FirmRecord[]; expiresAt: number } | null = null;
+
+function auditKey(entry: ProspectAuditEntry): string {
+  // Timestamp first so keys sort chronologically
+  return `${entry.at.replace(/[:.]/g, '-')}-${entry.id}`;
+}
+
+function byNewestFirst(a: ProspectAuditEntry, b: ProspectAuditEntry): number {
+  return b.at.localeCompare(a.at);
+}
+
+/**
+ * Keeps the prospect list and each audit entry as documents in a JSON store
+ */
+export class JsonProspectStore implements ProspectStore {
+  private store: JsonStore<ProspectList | ProspectAuditEntry>;
+
+  constructor(store: JsonStore<ProspectList | ProspectAuditEntry>) {
+    this.store = store;
+  }
+
+  async getList(): Promise<Versioned<ProspectList> | null> {
+    return (await this.store.getVersioned(LIST_KEY)) as Versioned<ProspectList> | null;
+  }
+
+  async saveList(list: ProspectList, version: string): Promise<boolean> {
+    return this.store.setIfVersion(LIST_KEY, list, version === BUNDLED_VERSION ? null : version);
+  }
+
+  async appendAudit(entries: ProspectAuditEntry[]): Promise<void> {
+    await Promise.all(entries.map(entry => this.store.set(`${AUDIT_PREFIX}/${auditKey(entry)}`, entry)));
+  }
+
+  async listAudit(limit: number): Promise<ProspectAuditEntry[]> {
+    const newest = (await this.store.keys(`${AUDIT_PREFIX}/`)).sort().reverse().slice(0, limit);
+    const entries = await Promise.all(newest.map(key => this.store.get(key)));
+    return (entries.filter(Boolean) as ProspectAuditEntry[]).sort(byNewestFirst);
+  }
+}
+
+/**
+ * Create the prospect store configured for this environment.
+ * PROSPECT_STORE_DIR sets where the file adapter writes (default ".data/prospects").
+ * @param event - The Netlify function event, needed to connect to Blobs
+ */
+export function getProspectStore(event?: HandlerEvent): ProspectStore {
+  return new JsonProspectStore(getJsonStore({
+    name: 'prospects',
+    directoryVariable: 'PROSPECT_STORE_DIR',
+    defaultDirectory: '.data/prospects'
+  }, event));
+}
+
+/**
+ * Load the prospect list, falling back to the bundled firms.json until the list is first changed
+ * @param store - The prospect store
+ */
+export async function loadProspectList(store: ProspectStore): Promise<LoadedProspectList> {
+  const stored = await store.getList();
+  if (stored) {
+    return { list: stored.value, version: stored.version };
+  }
+
+  return {
+    list: {
+      updatedAt: null,
+      firms: (firmsData as FirmRecord[]).map(firm => ({
+        ...firm,
+        status: 'active',
+        updatedAt: '',
+        updatedBy: 'firms.json'
+      }))
+    },
+    version: BUNDLED_VERSION
+  };
+}
+
+/**
+ * Strip a prospect down to the record FirmService matches against
+ * @param firm - The stored prospect
+ */
+export function toFirmRecord(firm: FirmRecord): FirmRecord {
+  return {
+    id: firm.id,
+    name: firm.name,
+    aliases: [...firm.aliases],
+    formerNames: [...firm.formerNames]
+  };
+}
+
+/**
+ * Active firms for matching submissions, cached briefly per function instance
+ * @param store - The prospect store
+ */
+export async function getActiveFirmRecords(store: ProspectStore): Promise<FirmRecord[]> {
+  if (activeFirmsCache && activeFirmsCache.expiresAt > Date.now()) {
+    return activeFirmsCache.firms;
+  }
+
+  const { list } = await loadProspectList(store);
+  const firms = list.firms.filter(firm => firm.status === 'active').map(toFirmRecord);
+  activeFirmsCache = { firms, expiresAt: Date.now() + ACTIVE_FIRMS_TTL_MS };
+  return firms;
+}
+
+/**
+ * Drop the cached active firms after the list changes
+ */
+export function invalidateActiveFirmRecords(): void {
+  activeFirmsCache = null;
+}
@@ -0,0 +1,61 @@
+import type { HandlerEvent } from '@netlify/functions';
+import { getJsonStore, type JsonStore } from './json-store';
+
+/**
+ * A magic link that has been emailed, or the session it was exchanged for.
+ * Only the hash of the token is kept, so the store never holds a usable token.
+ */
+export interface SignInToken {
+  /** SHA-256 of the token, hex encoded */
+  hash: string;
+  kind: 'magic-link' | 'session';
+  email: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Storage adapter interface implemented by every sign-in token store
+ */
+export interface SignInStore {
+  get(hash: string): Promise<SignInToken | null>;
+  save(token: SignInToken): Promise<SignInToken>;
+  delete(hash: string): Promise<void>;
+}
+
+/**
+ * Keeps each token as a document in a JSON store
+ */
+export class JsonSignInStore implements SignInStore {
+  private store: JsonStore<SignInToken>;
+
+  constructor(store: JsonStore<SignInToken>) {
+    this.store = store;
+  }
+
+  get(hash: string): Promise<SignInToken | null> {
+    return this.store.get(hash);
+  }
+
+  async save(token: SignInToken): Promise<SignInToken> {
+    await this.store.set(token.hash, token);
+    return token;
+  }
+
+  delete(hash: string): Promise<void> {
+    return this.store.delete(hash);
+  }
+}
+
+/**
+ * Create the sign-in token store configured for this environment.
+ * SIGN_IN_STORE_DIR sets where the file adapter writes (default ".data/sign-in").
+ * @param event - The Netlify function event, needed to connect to Blobs
+ */
+export function getSignInStore(event?: HandlerEvent): SignInStore {
+  return new JsonSignInStore(getJsonStore({
+    name: 'sign-in',
+    directoryVariable: 'SIGN_IN_STORE_DIR',
+    defaultDirectory: '.data/sign-in'
+  }, event));
+}
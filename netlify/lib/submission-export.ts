@@ -0,0 +1,215 @@
+import ExcelJS from 'exceljs';
+import type { FirmContact, SubmissionExportView, SubmissionListFilters, SubmissionRecord } from '../../src/types';
+import { RELATIONSHIP_STRENGTHS, formatContactFrequency, formatRelationshipStrength, type RelationshipStrength } from '../../src/shared/contactOptions';
+import { getCampaign } from '../../src/shared/campaigns';
+import { formatIntroPreference } from '../../src/shared/consent';
+import { firmMatchesFilters } from './submission-query';
+
+export type ExportCell = string | Date;
+
+export interface ExportColumn {
+  header: string;
+  /** Holds dates, which XLSX exports format as dates even where the first rows are blank */
+  date?: boolean;
+}
+
+/**
+ * A rectangular export: one header row plus data rows
+ */
+export interface ExportTable {
+  /** Sheet name used in XLSX exports */
+  name: string;
+  columns: ExportColumn[];
+  rows: ExportCell[][];
+}
+
+/**
+ * One row per contact, across all submissions. Firms without contacts, such as
+ * unmatched firms, get a single row with the contact columns left blank.
+ * The firm, status and relationship strength filters apply to each row, so
+ * other firms in a matching submission are left out.
+ * @param records - Stored submissions, newest first
+ * @param filters - The filters the submissions were chosen by
+ */
+export function buildEntriesTable(records: SubmissionRecord[], filters: SubmissionListFilters = {}): ExportTable {
+  return {
+    name: 'Entries',
+    columns: [
+      { header: 'Advisor email' },
+      { header: 'Firm' },
+      { header: 'Matched' },
+      { header: 'Contact' },
+      { header: 'Designation' },
+      { header: 'Relationship strength' },
+      { header: 'Contact frequency' },
+      { header: 'Contact email' },
+      { header: 'Contact phone' },
+      { header: 'LinkedIn' },
+      { header: 'Practice area' },
+      { header: 'Intro notes' },
+      { header: 'Left firm at', date: true },
+      { header: 'Timestamp', date: true },
+      { header: 'Withdrawn at', date: true },
+      { header: 'Intro preference' },
+      { header: 'Privacy notice version' },
+      { header: 'Consented at', date: true },
+      { header: 'Campaign' },
+      { header: 'Submission ID' }
+    ],
+    rows: records.flatMap(record =>
+      record.payload.firms.filter(firm => firmMatchesFilters(firm, filters)).flatMap(firm => {
+        const matching = filters.relationshipStrength
+          ? firm.contacts?.filter(contact => contact.relationshipStrength === filters.relationshipStrength)
+          : firm.contacts;
+        const contacts: (FirmContact | null)[] = matching?.length ? matching : [null];
+        return contacts.map(contact => [
+          record.payload.userEmail,
+          firm.firmName,
+          firm.isMatched ? 'Yes' : 'No',
+          contact?.name ?? '',
+          contact?.designation ?? '',
+          contact ? formatRelationshipStrength(contact.relationshipStrength) : '',
+          contact ? formatContactFrequency(contact.contactFrequency) : '',
+          contact?.email ?? '',
+          contact?.phone ?? '',
+          contact?.linkedinUrl ?? '',
+          contact?.practiceArea ?? '',
+          contact?.introNotes ?? '',
+          contact?.leftFirmAt ? new Date(contact.leftFirmAt) : '',
+          new Date(firm.timestamp),
+          firm.withdrawnAt ? new Date(firm.withdrawnAt) : '',
+          record.consent ? formatIntroPreference(record.consent.introPreference) : '',
+          record.consent?.privacyNoticeVersion ?? '',
+          record.consent ? new Date(record.consent.consentedAt) : '',
+          getCampaign(record.payload.campaign)?.name ?? record.payload.campaign ?? '',
+          record.id
+        ]);
+      })
+    )
+  };
+}
+
+/**
+ * The strongest relationship among a firm's contacts who are still there
+ */
+function strongestRelationship(contacts: FirmContact[] = []): RelationshipStrength | null {
+  return RELATIONSHIP_STRENGTHS.find(strength =>
+    contacts.some(contact => contact.relationshipStrength === strength && !contact.leftFirmAt)
+  ) ?? null;
+}
+
+/**
+ * Firm × advisor matrix of relationship strength. Only firms with at least one
+ * stated relationship strength appear. Each cell is the advisor's strongest
+ * contact at the firm; when an advisor has shared the same firm more than once,
+ * their most recent answer wins. Withdrawn and replaced entries are left out.
+ * Rows are keyed by firm id, so a firm renamed since it was shared stays one row
+ * under its current name.
+ * @param records - Stored submissions, newest first
+ * @param filters - The filters the submissions were chosen by, applied to each firm
+ * @param currentNames - Current name of each prospect firm by id
+ */
+export function buildRelationshipMatrix(
+  records: SubmissionRecord[],
+  filters: SubmissionListFilters = {},
+  currentNames: Map<string, string> = new Map()
+): ExportTable {
+  const strengths = new Map<string, Map<string, string>>();
+  const firmNames = new Map<string, string>();
+  const advisors = new Set<string>();
+
+  records.forEach(record => {
+    const advisor = record.payload.userEmail.toLowerCase();
+
+    record.payload.firms.forEach(firm => {
+      const current = firm.isMatched && !firm.withdrawnAt && !firm.supersededBy && firmMatchesFilters(firm, filters);
+      const strength = current ? strongestRelationship(firm.contacts) : null;
+      if (!strength) {
+        return;
+      }
+
+      const key = firm.firmId ?? firm.firmName;
+      const row = strengths.get(key) ?? new Map<string, string>();
+      if (!row.has(advisor)) {
+        row.set(advisor, formatRelationshipStrength(strength));
+      }
+      strengths.set(key, row);
+      // Records are newest first, so the first name seen is the latest one shared
+      if (!firmNames.has(key)) {
+        firmNames.set(key, (firm.firmId && currentNames.get(firm.firmId)) || firm.firmName);
+      }
+      advisors.add(advisor);
+    });
+  });
+
+  const advisorColumns = [...advisors].sort();
+  const firmKeys = [...strengths.keys()].sort((a, b) => (firmNames.get(a) ?? a).localeCompare(firmNames.get(b) ?? b));
+
+  return {
+    name: 'Relationship matrix',
+    columns: [{ header: 'Firm' }, ...advisorColumns.map(header => ({ header }))],
+    rows: firmKeys.map(key => [
+      firmNames.get(key) ?? key,
+      ...advisorColumns.map(advisor => strengths.get(key)?.get(advisor) ?? '')
+    ])
+  };
+}
+
+/**
+ * Build the table for an export view
+ * @param view - Which export view to build
+ * @param records - Stored submissions, newest first
+ * @param filters - The filters the submissions were chosen by
+ * @param currentNames - Current name of each prospect firm by id
+ */
+export function buildExportTable(
+  view: SubmissionExportView,
+  records: SubmissionRecord[],
+  filters: SubmissionListFilters = {},
+  currentNames: Map<string, string> = new Map()
+): ExportTable {
+  return view === 'matrix' ? buildRelationshipMatrix(records, filters, currentNames) : buildEntriesTable(records, filters);
+}
+
+function escapeCsvCell(cell: ExportCell): string {
+  let value = cell instanceof Date ? cell.toISOString() : cell;
+
+  // Advisor-entered text must never be evaluated as a formula by a spreadsheet
+  if (/^[=+\-@\t\r]/.test(value)) {
+    value = `'${value}`;
+  }
+
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialise a table as RFC 4180 CSV
+ * @param table - The table to serialise
+ */
+export function toCsv(table: ExportTable): string {
+  return [table.columns.map(column => column.header), ...table.rows]
+    .map(row => row.map(escapeCsvCell).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Serialise a table as an XLSX workbook with a frozen, filterable header row
+ * @param table - The table to serialise
+ */
+export async function toXlsx(table: ExportTable): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(table.name, {
+    views: [{ state: 'frozen', ySplit: 1 }]
+  });
+
+  sheet.columns = table.columns.map(({ header, date }) => ({
+    header,
+    width: Math.min(Math.max(header.length + 2, 14), 40),
+    ...(date ? { style: { numFmt: 'yyyy-mm-dd hh:mm' } } : {})
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.addRows(table.rows);
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: table.columns.length } };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,153 @@
+import type { FirmEntry, SubmissionListFilters, SubmissionRecord } from '../../src/types';
+import { FirmService } from '../../src/services/FirmService';
+import { RELATIONSHIP_STRENGTHS, type RelationshipStrength } from '../../src/shared/contactOptions';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+function readDate(value: string | undefined): string | undefined {
+  return value && DATE_PATTERN.test(value) && !isNaN(Date.parse(value)) ? value : undefined;
+}
+
+function readPositiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Read submission filters from query string parameters, dropping anything malformed
+ * @param params - The event's query string parameters
+ */
+export function parseSubmissionFilters(
+  params: Record<string, string | undefined> | null
+): SubmissionListFilters {
+  const query = params ?? {};
+  const filters: SubmissionListFilters = {};
+
+  const from = readDate(query.from);
+  const to = readDate(query.to);
+  if (from) {
+    filters.from = from;
+  }
+  if (to) {
+    filters.to = to;
+  }
+
+  if (query.userEmail?.trim()) {
+    filters.userEmail = query.userEmail.trim();
+  }
+  if (query.firm?.trim()) {
+    filters.firm = query.firm.trim();
+  }
+
+  if (query.status === 'matched' || query.status === 'unmatched') {
+    filters.status = query.status;
+  }
+
+  if (RELATIONSHIP_STRENGTHS.includes(query.relationshipStrength as RelationshipStrength)) {
+    filters.relationshipStrength = query.relationshipStrength as RelationshipStrength;
+  }
+
+  return filters;
+}
+
+/**
+ * Read the requested page from query string parameters
+ * @param params - The event's query string parameters
+ */
+export function parsePagination(
+  params: Record<string, string | undefined> | null
+): { page: number; pageSize: number } {
+  return {
+    page: readPositiveInteger(params?.page, 1),
+    pageSize: Math.min(readPositiveInteger(params?.pageSize, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE)
+  };
+}
+
+/**
+ * Check one firm entry against the firm, status and relationship strength filters
+ * @param firm - The firm entry
+ * @param filters - Filters to apply
+ */
+export function firmMatchesFilters(firm: FirmEntry, filters: SubmissionListFilters): boolean {
+  if (filters.status && firm.isMatched !== (filters.status === 'matched')) {
+    return false;
+  }
+
+  if (filters.relationshipStrength && !firm.contacts?.some(contact => contact.relationshipStrength === filters.relationshipStrength)) {
+    return false;
+  }
+
+  if (filters.firm) {
+    // Accept a firm id, or any part of the name once both sides are normalised
+    const query = FirmService.normalizeFirmName(filters.firm);
+    const matchesId = firm.firmId === filters.firm;
+    const matchesName = query !== '' && FirmService.normalizeFirmName(firm.firmName).includes(query);
+    if (!matchesId && !matchesName) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Keep the submissions that satisfy every filter
+ * @param records - Stored submissions
+ * @param filters - Filters to apply
+ * @returns The matching submissions, in their original order
+ */
+export function filterSubmissions(
+  records: SubmissionRecord[],
+  filters: SubmissionListFilters
+): SubmissionRecord[] {
+  const receivedFrom = filters.from ? Date.parse(filters.from) : -Infinity;
+  // "to" is inclusive, so compare against the start of the following day
+  const receivedBefore = filters.to ? Date.parse(filters.to) + DAY_MS : Infinity;
+  const email = filters.userEmail?.toLowerCase();
+  const hasFirmFilters = Boolean(filters.firm || filters.status || filters.relationshipStrength);
+
+  return records.filter(record => {
+    const receivedAt = Date.parse(record.receivedAt);
+    if (receivedAt < receivedFrom || receivedAt >= receivedBefore) {
+      return false;
+    }
+
+    if (email && !record.payload.userEmail.toLowerCase().includes(email)) {
+      return false;
+    }
+
+    return !hasFirmFilters || record.payload.firms.some(firm => firmMatchesFilters(firm, filters));
+  });
+}
+
+/**
+ * Slice one page out of a list, clamping the page number to the last page
+ * @param items - The full list
+ * @param page - 1-based page number
+ * @param pageSize - Items per page
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): Page<T> {
+  const totalPages = Math.max(Math.ceil(items.length / pageSize), 1);
+  const current = Math.min(page, totalPages);
+  const start = (current - 1) * pageSize;
+
+  return {
+    items: items.slice(start, start + pageSize),
+    page: current,
+    pageSize,
+    total: items.length,
+    totalPages
+  };
+}
@@ -0,0 +1,179 @@
+import { randomUUID } from 'node:crypto';
+import type { HandlerEvent } from '@netlify/functions';
+import { getJsonStore, updateJson, type JsonStore, type Versioned } from './json-store';
+import type { DeliveryStatus, FirmContact, FirmEntry, SubmissionRecord, SubmitFormPayload } from '../../src/types';
+
+export type { DeliveryStatus, SubmissionRecord };
+
+/**
+ * Storage adapter interface implemented by every submission store
+ */
+export interface SubmissionStore {
+  save(record: SubmissionRecord): Promise<SubmissionRecord>;
+  get(id: string): Promise<SubmissionRecord | null>;
+  /**
+   * Change a stored submission without losing a simultaneous change to it
+   * @param change - The fields to change, or a function building them from the stored submission
+   * @returns The submission as saved, or null if there is none
+   */
+  update(id: string, change: Partial<SubmissionRecord> | ((record: SubmissionRecord) => Partial<SubmissionRecord>)): Promise<SubmissionRecord | null>;
+  /** All submissions, newest first */
+  list(): Promise<SubmissionRecord[]>;
+}
+
+function byNewestFirst(a: SubmissionRecord, b: SubmissionRecord): number {
+  return b.receivedAt.localeCompare(a.receivedAt);
+}
+
+type LegacyFirmEntry = FirmEntry & {
+  contactName?: string;
+  contactDesignation?: string;
+  relationshipStrength?: FirmContact['relationshipStrength'];
+  contactFrequency?: FirmContact['contactFrequency'];
+};
+
+/**
+ * Records saved before firms could hold several contacts kept one contact's fields
+ * on the firm entry; read them as a one-item contact list
+ */
+function upgradeRecord(record: SubmissionRecord): SubmissionRecord {
+  const firms = (record.payload.firms as LegacyFirmEntry[]).map(firm => {
+    if (firm.contacts || !firm.contactName) {
+      return firm;
+    }
+    const { contactName, contactDesignation, relationshipStrength, contactFrequency, ...rest } = firm;
+    return { ...rest, contacts: [{ name: contactName, designation: contactDesignation, relationshipStrength, contactFrequency }] };
+  });
+  return { ...record, payload: { ...record.payload, firms } };
+}
+
+/**
+ * Submissions a function instance has already listed, with the version each was read at.
+ * Warm instances then read only the submissions that are new or changed since.
+ */
+const listedSubmissions = new Map<string, Versioned<SubmissionRecord>>();
+
+/**
+ * Keeps each submission as a document in a JSON store
+ */
+export class JsonSubmissionStore implements SubmissionStore {
+  private store: JsonStore<SubmissionRecord>;
+  private listed: Map<string, Versioned<SubmissionRecord>>;
+
+  /**
+   * @param store - Where the submissions are kept
+   * @param listed - Submissions already read by earlier lists, shared between instances
+   */
+  constructor(store: JsonStore<SubmissionRecord>, listed: Map<string, Versioned<SubmissionRecord>> = new Map()) {
+    this.store = store;
+    this.listed = listed;
+  }
+
+  async save(record: SubmissionRecord): Promise<SubmissionRecord> {
+    await this.store.set(record.id, record);
+    return record;
+  }
+
+  async get(id: string): Promise<SubmissionRecord | null> {
+    const record = await this.store.get(id);
+    return record ? upgradeRecord(record) : null;
+  }
+
+  update(id: string, change: Partial<SubmissionRecord> | ((record: SubmissionRecord) => Partial<SubmissionRecord>)): Promise<SubmissionRecord | null> {
+    return updateJson(this.store, id, stored => {
+      if (!stored) {
+        return null;
+      }
+      const existing = upgradeRecord(stored);
+      return { ...existing, ...(typeof change === 'function' ? change(existing) : change), id };
+    });
+  }
+
+  async list(): Promise<SubmissionRecord[]> {
+    const versions = await this.store.versions();
+    const records = await Promise.all(versions.map(async ({ key, version }) => {
+      const listed = this.listed.get(key);
+      if (listed?.version === version) {
+        return listed.value;
+      }
+
+      const read = await this.store.getVersioned(key);
+      if (!read) {
+        return null;
+      }
+      const record = upgradeRecord(read.value);
+      this.listed.set(key, { value: record, version: read.version });
+      return record;
+    }));
+
+    // Forget submissions that are gone, so the cache never outgrows the store
+    const current = new Set(versions.map(({ key }) => key));
+    [...this.listed.keys()].filter(key => !current.has(key)).forEach(key => this.listed.delete(key));
+
+    return records.filter((record): record is SubmissionRecord => record !== null).sort(byNewestFirst);
+  }
+}
+
+/**
+ * Create the submission store configured for this environment.
+ * SUBMISSION_STORE_DIR sets where the file adapter writes (default ".data/submissions").
+ * @param event - The Netlify function event, needed to connect to Blobs
+ */
+export function getSubmissionStore(event?: HandlerEvent): SubmissionStore {
+  return new JsonSubmissionStore(getJsonStore({
+    name: 'submissions',
+    directoryVariable: 'SUBMISSION_STORE_DIR',
+    defaultDirectory: '.data/submissions'
+  }, event), listedSubmissions);
+}
+
+/**
+ * Build a new submission record with a fresh id and received-at time. The advisor's
+ * consent moves from the payload to the record, stamped with the received-at time.
+ * @param payload - The validated form data
+ * @param consumers - Names of the downstream consumers that will process it
+ * @param advisorId - The advisor whose invite the submission was verified against
+ */
+export function createSubmissionRecord(payload: SubmitFormPayload, consumers: string[], advisorId?: string): SubmissionRecord {
+  const receivedAt = new Date().toISOString();
+
+  // The invite token is a credential until it expires, so it is never stored; the bot check
+  // is only needed to accept the submission
+  const stored: SubmitFormPayload = { ...payload };
+  delete stored.inviteToken;
+  delete stored.consent;
+  delete stored.botCheck;
+
+  return {
+    id: randomUUID(),
+    receivedAt,
+    payload: stored,
+    ...(advisorId ? { advisorId } : {}),
+    ...(payload.consent ? { consent: { ...payload.consent, consentedAt: receivedAt } } : {}),
+    deliveries: Object.fromEntries(consumers.map(name => [name, { status: 'pending' }]))
+  };
+}
+
+/**
+ * Mark the earlier entries a submission's firms replace, so they can be told apart from current ones
+ * @param store - The submission store
+ * @param record - The stored submission whose entries may amend earlier ones
+ */
+export async function supersedeAmendedEntries(store: SubmissionStore, record: SubmissionRecord): Promise<void> {
+  for (const firm of record.payload.firms) {
+    if (!firm.amends) {
+      continue;
+    }
+
+    const { submissionId, entryId } = firm.amends;
+    await store.update(submissionId, earlier => ({
+      payload: {
+        ...earlier.payload,
+        firms: earlier.payload.firms.map(entry => entry.id === entryId
+          ? { ...entry, supersededBy: { submissionId: record.id, entryId: firm.id } }
+          : entry
+        )
+      }
+    }));
+  }
+}
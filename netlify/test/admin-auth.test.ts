@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { authenticateAdmin } from '../lib/admin-auth';
+import { createEvent } from './harness';
+
+const env = {
+  ADMIN_API_TOKENS: 'ada@example.com:ada-token, grace@example.com:grace:token',
+  ADMIN_API_TOKEN: 'shared-token'
+};
+
+function withToken(token: string, headers: Record<string, string> = {}) {
+  return createEvent('invites', { headers: { authorization: `Bearer ${token}`, ...headers } });
+}
+
+describe('authenticateAdmin', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('identifies each admin by their own token', () => {
+    expect(authenticateAdmin(withToken('ada-token'), env)).toBe('ada@example.com');
+    expect(authenticateAdmin(withToken('grace:token'), env)).toBe('grace@example.com');
+  });
+
+  it('records the shared token as "admin", whatever email the request claims', () => {
+    expect(authenticateAdmin(withToken('shared-token', { 'x-admin-email': 'ada@example.com' }), env)).toBe('admin');
+  });
+
+  it('rejects unknown tokens, and every token while none is configured', () => {
+    expect(authenticateAdmin(withToken('guess'), env)).toBeNull();
+    expect(authenticateAdmin(createEvent('invites'), env)).toBeNull();
+    expect(authenticateAdmin(withToken('ada-token'), {})).toBeNull();
+  });
+});
@@ -0,0 +1,303 @@
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handler as signInHandler } from '../functions/advisor-sign-in';
+import { handler as sessionHandler } from '../functions/advisor-session';
+import { handler as mySubmissionsHandler } from '../functions/my-submissions';
+import { createEvent, invoke, TEST_CSRF_TOKEN } from './harness';
+import { getSubmissionStore } from '../lib/submission-store';
+import { getSignInStore } from '../lib/sign-in-store';
+import { getFirmHistoryStore, rememberSubmission } from '../lib/firm-history-store';
+import { issueSignInLink } from '../lib/advisor-sign-in';
+import type { FirmEntry, SubmissionRecord } from '../../src/types';
+
+const ORRICK: FirmEntry = {
+  id: 'entry-1',
+  firmId: 'orrick',
+  firmName: 'Orrick',
+  isMatched: true,
+  timestamp: new Date('2026-10-01T09:00:00Z'),
+  contacts: [
+    { name: 'Jane Smith', designation: 'Partner', relationshipStrength: 'strong', contactFrequency: 'quarterly' },
+    { name: 'Sam Lee', relationshipStrength: 'moderate', contactFrequency: 'annually' }
+  ]
+};
+
+const UNLISTED: FirmEntry = {
+  id: 'entry-2',
+  firmName: 'Quantum Advocates',
+  isMatched: false,
+  timestamp: new Date('2026-10-01T09:00:00Z')
+};
+
+function submission(id: string, userEmail: string, firms: FirmEntry[]): SubmissionRecord {
+  return { id, receivedAt: '2026-10-01T09:00:00.000Z', payload: { userEmail, firms }, deliveries: {} };
+}
+
+function parse(body: string | undefined) {
+  return JSON.parse(body ?? '');
+}
+
+function requestLink(email: unknown) {
+  return invoke(signInHandler, createEvent('advisor-sign-in', { body: JSON.stringify({ email }) }));
+}
+
+function exchange(token: string) {
+  return invoke(sessionHandler, createEvent('advisor-session', { body: JSON.stringify({ token }) }));
+}
+
+function sessionCookie(response: Awaited<ReturnType<typeof exchange>>): string {
+  return /advisor_session=([^;]*)/.exec(String(response.headers?.['Set-Cookie']))?.[1] ?? '';
+}
+
+async function signIn(email = 'advisor@example.com'): Promise<string> {
+  return sessionCookie(await exchange(await issueSignInLink(getSignInStore(), email)));
+}
+
+function withSession(session: string) {
+  return { cookie: `csrf_token=${TEST_CSRF_TOKEN}; advisor_session=${session}` };
+}
+
+function changeEntry(session: string, change: Record<string, unknown>) {
+  return invoke(mySubmissionsHandler, createEvent('my-submissions', {
+    body: JSON.stringify({ submissionId: 'sub-1', entryId: 'entry-1', ...change }),
+    headers: withSession(session)
+  }));
+}
+
+/**
+ * The emails in the outbox, with quoted-printable soft line breaks undone
+ */
+async function readOutbox(directory: string): Promise<string[]> {
+  const files = await readdir(directory).catch(() => []);
+  return Promise.all(files.map(async file =>
+    (await readFile(path.join(directory, file), 'utf8')).replace(/=\r?\n/g, '').replace(/=3D/g, '=')
+  ));
+}
+
+describe('advisor portal', () => {
+  let dataDir: string;
+  let outboxDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'advisor-portal-'));
+  });
+
+  afterAll(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    outboxDir = path.join(dataDir, `outbox-${randomUUID()}`);
+    vi.stubEnv('SUBMISSION_STORE', 'file');
+    vi.stubEnv('SUBMISSION_STORE_DIR', path.join(dataDir, `submissions-${randomUUID()}`));
+    vi.stubEnv('SIGN_IN_STORE_DIR', path.join(dataDir, 'sign-in'));
+    vi.stubEnv('COUNTER_STORE_DIR', path.join(dataDir, `counters-${randomUUID()}`));
+    vi.stubEnv('FIRM_HISTORY_STORE_DIR', path.join(dataDir, `firm-history-${randomUUID()}`));
+    vi.stubEnv('MAIL_OUTBOX_DIR', outboxDir);
+    vi.stubEnv('SMTP_URL', '');
+    vi.stubEnv('URL', 'https://advisors.example.com');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const store = getSubmissionStore();
+    const histories = getFirmHistoryStore();
+    for (const record of [
+      submission('sub-1', 'Advisor@Example.com', [ORRICK, UNLISTED]),
+      submission('sub-2', 'someone-else@example.com', [{ ...ORRICK, id: 'entry-9' }])
+    ]) {
+      await store.save(record);
+      await histories.save(rememberSubmission(await histories.get(record.payload.userEmail), record));
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('advisor-sign-in', () => {
+    it('emails a link that signs the advisor in', async () => {
+      const response = await requestLink('advisor@example.com');
+
+      expect(response.statusCode).toBe(200);
+      expect(parse(response.body).message).toContain('expires in 15 minutes');
+
+      const [email, ...others] = await readOutbox(outboxDir);
+      expect(others).toHaveLength(0);
+      expect(email).toContain('To: advisor@example.com');
+      const token = /https:\/\/advisors\.example\.com\/me\?token=([A-Za-z0-9_-]+)/.exec(email)?.[1];
+      expect(token).toBeDefined();
+
+      expect((await exchange(token ?? '')).statusCode).toBe(200);
+    });
+
+    it('gives the same answer for an address that has not submitted, without sending anything', async () => {
+      const known = await requestLink('advisor@example.com');
+      const unknown = await requestLink('stranger@example.com');
+
+      expect(unknown.statusCode).toBe(200);
+      expect(parse(unknown.body).message).toBe(parse(known.body).message.replace('advisor@example.com', 'stranger@example.com'));
+      expect(await readOutbox(outboxDir)).toHaveLength(1);
+    });
+
+    it.each([
+      ['a malformed address', 'not-an-email'],
+      ['a missing address', undefined]
+    ])('rejects %s', async (_, email) => {
+      const response = await requestLink(email);
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body)).toMatchObject({ details: [{ field: 'email' }] });
+    });
+
+    it('stops emailing links to one address after five an hour', async () => {
+      for (let attempt = 0; attempt < 6; attempt++) {
+        expect((await requestLink('advisor@example.com')).statusCode).toBe(200);
+      }
+
+      expect(await readOutbox(outboxDir)).toHaveLength(5);
+    });
+  });
+
+  describe('advisor-session', () => {
+    it('exchanges a link for a session cookie only once', async () => {
+      const token = await issueSignInLink(getSignInStore(), 'advisor@example.com');
+
+      const first = await exchange(token);
+      expect(first.statusCode).toBe(200);
+      expect(parse(first.body)).toMatchObject({ email: 'advisor@example.com' });
+      expect(first.headers?.['Set-Cookie']).toMatch(/^advisor_session=[A-Za-z0-9_-]{43}; Path=\/; HttpOnly; SameSite=Strict; Max-Age=604800$/);
+
+      const second = await exchange(token);
+      expect(second.statusCode).toBe(401);
+      expect(parse(second.body)).toMatchObject({ error: 'Invalid sign-in link' });
+    });
+
+    it('refuses an expired link', async () => {
+      const token = await issueSignInLink(getSignInStore(), 'advisor@example.com', Date.now() - 16 * 60 * 1000);
+
+      expect((await exchange(token)).statusCode).toBe(401);
+    });
+
+    it('does not accept a session token as a sign-in link', async () => {
+      expect((await exchange(await signIn())).statusCode).toBe(401);
+    });
+
+    it('reports who is signed in until they sign out', async () => {
+      const session = await signIn();
+
+      const current = await invoke(sessionHandler, createEvent('advisor-session', { httpMethod: 'GET', headers: withSession(session) }));
+      expect(current.statusCode).toBe(200);
+      expect(parse(current.body)).toMatchObject({ email: 'advisor@example.com' });
+
+      const signOut = await invoke(sessionHandler, createEvent('advisor-session', { httpMethod: 'DELETE', headers: withSession(session) }));
+      expect(signOut.statusCode).toBe(204);
+      expect(signOut.headers?.['Set-Cookie']).toContain('Max-Age=0');
+
+      const after = await invoke(sessionHandler, createEvent('advisor-session', { httpMethod: 'GET', headers: withSession(session) }));
+      expect(after.statusCode).toBe(401);
+    });
+  });
+
+  describe('my-submissions', () => {
+    it('requires a session', async () => {
+      const response = await invoke(mySubmissionsHandler, createEvent('my-submissions', { httpMethod: 'GET' }));
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it("lists only the advisor's own submissions, without delivery details", async () => {
+      const response = await invoke(mySubmissionsHandler, createEvent('my-submissions', {
+        httpMethod: 'GET',
+        headers: withSession(await signIn())
+      }));
+
+      expect(response.statusCode).toBe(200);
+      const { submissions } = parse(response.body);
+      expect(submissions).toEqual([
+        { id: 'sub-1', receivedAt: '2026-10-01T09:00:00.000Z', firms: [expect.objectContaining({ id: 'entry-1' }), expect.objectContaining({ id: 'entry-2' })] }
+      ]);
+    });
+
+    it('edits contacts and records a revision', async () => {
+      const response = await changeEntry(await signIn(), {
+        action: 'update-contacts',
+        contacts: [{ name: 'Jane Smith', designation: 'Managing Partner', relationshipStrength: 'very-strong', contactFrequency: 'quarterly' }]
+      });
+
+      expect(response.statusCode).toBe(200);
+      const entry = (await getSubmissionStore().get('sub-1'))?.payload.firms[0];
+      expect(entry?.contacts).toEqual([
+        { name: 'Jane Smith', designation: 'Managing Partner', relationshipStrength: 'very-strong', contactFrequency: 'quarterly' }
+      ]);
+      expect(entry?.revisions).toEqual([{
+        id: expect.any(String),
+        at: expect.any(String),
+        actor: 'advisor@example.com',
+        action: 'update-contacts',
+        before: { contacts: ORRICK.contacts },
+        after: { contacts: entry?.contacts }
+      }]);
+      expect(parse(response.body).firms[0]).toEqual(JSON.parse(JSON.stringify(entry)));
+    });
+
+    it('marks a contact as having left the firm, and keeps the mark through later edits', async () => {
+      const session = await signIn();
+
+      expect((await changeEntry(session, { action: 'mark-contact-left', contactIndex: 1 })).statusCode).toBe(200);
+      expect((await changeEntry(session, { action: 'mark-contact-left', contactIndex: 1 })).statusCode).toBe(409);
+      await changeEntry(session, { action: 'update-contacts', contacts: ORRICK.contacts });
+
+      const entry = (await getSubmissionStore().get('sub-1'))?.payload.firms[0];
+      expect(entry?.contacts?.[0]).not.toHaveProperty('leftFirmAt');
+      expect(entry?.contacts?.[1].leftFirmAt).toEqual(expect.any(String));
+      expect(entry?.revisions?.map(revision => revision.action)).toEqual(['mark-contact-left', 'update-contacts']);
+    });
+
+    it('withdraws a relationship, forgets it for the form and refuses later changes', async () => {
+      await getFirmHistoryStore().save({
+        email: 'advisor@example.com',
+        firms: [{ submissionId: 'sub-1', entryId: 'entry-1', firmId: 'orrick', firmName: 'Orrick', isMatched: true, submittedAt: '2026-10-01T09:00:00.000Z' }],
+        updatedAt: '2026-10-01T09:00:00.000Z'
+      });
+      const session = await signIn();
+
+      expect((await changeEntry(session, { action: 'withdraw' })).statusCode).toBe(200);
+
+      const entry = (await getSubmissionStore().get('sub-1'))?.payload.firms[0];
+      expect(entry?.withdrawnAt).toEqual(expect.any(String));
+      expect(entry?.revisions?.[0]).toMatchObject({ action: 'withdraw', before: {}, after: { withdrawnAt: entry?.withdrawnAt } });
+      expect((await getFirmHistoryStore().get('advisor@example.com'))?.firms).toEqual([]);
+
+      const later = await changeEntry(session, { action: 'mark-contact-left', contactIndex: 0 });
+      expect(later.statusCode).toBe(409);
+      expect(parse(later.body)).toMatchObject({ error: 'This relationship has been withdrawn' });
+    });
+
+    it("does not let an advisor change someone else's entry", async () => {
+      const response = await changeEntry(await signIn(), { action: 'withdraw', submissionId: 'sub-2', entryId: 'entry-9' });
+
+      expect(response.statusCode).toBe(404);
+      expect((await getSubmissionStore().get('sub-2'))?.payload.firms[0]).not.toHaveProperty('withdrawnAt');
+    });
+
+    it.each([
+      ['invalid contacts', { action: 'update-contacts', contacts: [{ name: 'Jane Smith', email: 'not-an-email' }] }, 400, 'contacts[0].email'],
+      ['no contacts', { action: 'update-contacts', contacts: [] }, 400, 'contacts'],
+      ['an unknown action', { action: 'delete' }, 400, 'action'],
+      ['a contact that does not exist', { action: 'mark-contact-left', contactIndex: 5 }, 404, undefined],
+      ['contacts for an unlisted firm', { action: 'update-contacts', entryId: 'entry-2', contacts: [{ name: 'Jane Smith' }] }, 409, undefined]
+    ])('rejects %s', async (_, change, status, field) => {
+      const response = await changeEntry(await signIn(), change);
+
+      expect(response.statusCode).toBe(status);
+      if (field) {
+        expect(parse(response.body).details).toContainEqual(expect.objectContaining({ field }));
+      }
+      expect((await getSubmissionStore().get('sub-1'))?.payload.firms.every(firm => !firm.revisions)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Handler, HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+
+/**
+ * A request received by the fake Slack endpoint
+ */
+export interface RecordedRequest {
+  method: string;
+  headers: IncomingHttpHeaders;
+  /** The parsed JSON body, or the raw text if it was not JSON */
+  body: unknown;
+}
+
+/**
+ * An in-process stand-in for a Slack incoming webhook that records every payload
+ */
+export interface FakeSlack {
+  /** URL to use as WEBHOOK_URL */
+  url: string;
+  requests: RecordedRequest[];
+  /** Answer every following request with this status, e.g. 500 to simulate an outage */
+  respondWith(status: number): void;
+  /** Forget the recorded requests and answer 200 again */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a fake Slack webhook on a free local port
+ */
+export async function startFakeSlack(): Promise<FakeSlack> {
+  const requests: RecordedRequest[] = [];
+  let status = 200;
+
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      let body: unknown = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Keep the raw text so a malformed payload still shows up in assertions
+      }
+
+      requests.push({ method: request.method ?? '', headers: request.headers, body });
+      response.writeHead(status, { 'Content-Type': 'text/plain' });
+      response.end(status < 400 ? 'ok' : 'invalid_payload');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/services/T000/B000/XXXX`,
+    requests,
+    respondWith(nextStatus) {
+      status = nextStatus;
+    },
+    reset() {
+      requests.length = 0;
+      status = 200;
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+    }
+  };
+}
+
+/**
+ * CSRF token the synthetic events carry in both the cookie and the header, as the SPA's requests do
+ */
+export const TEST_CSRF_TOKEN = 'test-csrf-token-000000000000000000000000000';
+
+/**
+ * Build a synthetic Netlify event for a function, as sent by the SPA on the same site
+ * @param functionName - Name of the function, used for the path
+ * @param overrides - Method, body and anything else to change; headers are merged with the defaults
+ */
+export function createEvent(functionName: string, overrides: Partial<HandlerEvent> = {}): HandlerEvent {
+  const path = `/.netlify/functions/${functionName}`;
+
+  return {
+    rawUrl: `http://localhost:8888${path}`,
+    rawQuery: '',
+    path,
+    httpMethod: 'POST',
+    multiValueHeaders: {},
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    body: null,
+    isBase64Encoded: false,
+    ...overrides,
+    headers: {
+      'content-type': 'application/json',
+      host: 'localhost:8888',
+      cookie: `csrf_token=${TEST_CSRF_TOKEN}`,
+      'x-csrf-token': TEST_CSRF_TOKEN,
+      ...overrides.headers
+    }
+  };
+}
+
+/**
+ * Invoke a function handler the way Netlify does and return its response
+ * @throws Error if the handler answers through the callback instead of returning a response
+ */
+export async function invoke(handler: Handler, event: HandlerEvent): Promise<HandlerResponse> {
+  const response = await handler(event, {} as HandlerContext);
+  if (!response) {
+    throw new Error('Handler did not return a response');
+  }
+  return response;
+}
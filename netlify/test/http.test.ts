@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpError, json, readJsonBody, withHttp } from '../lib/http';
+import { handler as csrfToken } from '../functions/csrf-token';
+import { createEvent, invoke, TEST_CSRF_TOKEN } from './harness';
+
+class LookupError extends Error {}
+
+const handler = withHttp({
+  methods: ['GET', 'POST'],
+  allowHeaders: ['Authorization'],
+  exposeHeaders: ['Retry-After'],
+  failureMessage: 'Failed to do the thing',
+  mapError: error => error instanceof LookupError ? new HttpError(404, 'Not found', { message: error.message }) : undefined
+}, async (event) => {
+  switch (event.body) {
+    case 'http-error':
+      throw new HttpError(429, 'Too many requests', { message: 'Slow down', headers: { 'Retry-After': '30' } });
+    case 'lookup-error':
+      throw new LookupError('No such thing');
+    case 'crash':
+      throw new Error('Database on fire');
+    case 'corrupt-store':
+      return json(200, JSON.parse('{"stored": '));
+    default:
+      return json(200, { ok: true, parsed: event.body ? readJsonBody(event) : null });
+  }
+});
+
+function parse(body: string | undefined) {
+  return JSON.parse(body ?? '');
+}
+
+describe('withHttp', () => {
+  beforeEach(() => {
+    vi.stubEnv('ALLOWED_ORIGINS', 'https://partners.example.com, https://staging.example.com/');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('origins', () => {
+    it.each([
+      ['the site itself', 'http://localhost:8888'],
+      ['an allowlisted origin', 'https://partners.example.com'],
+      ['an allowlisted origin configured with a trailing slash', 'https://staging.example.com']
+    ])('echoes %s back instead of a wildcard', async (_, origin) => {
+      const response = await invoke(handler, createEvent('thing', { httpMethod: 'GET', headers: { origin } }));
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers).toMatchObject({
+        'Access-Control-Allow-Origin': origin,
+        'Access-Control-Allow-Credentials': 'true',
+        'Access-Control-Expose-Headers': 'Retry-After',
+        Vary: 'Origin'
+      });
+    });
+
+    it('rejects any other origin without CORS headers', async () => {
+      const response = await invoke(handler, createEvent('thing', { headers: { origin: 'https://evil.example' } }));
+
+      expect(response.statusCode).toBe(403);
+      expect(parse(response.body)).toEqual({ error: 'Origin not allowed' });
+      expect(response.headers).not.toHaveProperty('Access-Control-Allow-Origin');
+    });
+
+    it('answers requests without an Origin header without CORS headers', async () => {
+      const response = await invoke(handler, createEvent('thing', { httpMethod: 'GET' }));
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers).not.toHaveProperty('Access-Control-Allow-Origin');
+    });
+  });
+
+  describe('preflight', () => {
+    it('answers before the method check, listing the methods and headers', async () => {
+      const response = await invoke(handler, createEvent('thing', {
+        httpMethod: 'OPTIONS',
+        headers: { origin: 'https://partners.example.com' }
+      }));
+
+      expect(response.statusCode).toBe(204);
+      expect(response.headers).toMatchObject({
+        'Access-Control-Allow-Origin': 'https://partners.example.com',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, X-CSRF-Token, Authorization'
+      });
+    });
+
+    it('refuses a preflight from an origin that is not allowed', async () => {
+      const response = await invoke(handler, createEvent('thing', {
+        httpMethod: 'OPTIONS',
+        headers: { origin: 'https://evil.example' }
+      }));
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  it('rejects other methods with 405 and an Allow header', async () => {
+    const response = await invoke(handler, createEvent('thing', { httpMethod: 'DELETE' }));
+
+    expect(response.statusCode).toBe(405);
+    expect(response.headers).toMatchObject({ Allow: 'GET, POST, OPTIONS' });
+    expect(parse(response.body)).toEqual({ error: 'Method not allowed' });
+  });
+
+  describe('CSRF', () => {
+    it.each([
+      ['no header', { 'x-csrf-token': '' }],
+      ['no cookie', { cookie: '' }],
+      ['a header that does not match the cookie', { 'x-csrf-token': 'x'.repeat(43) }],
+      ['a malformed token', { cookie: 'csrf_token=abc', 'x-csrf-token': 'abc' }]
+    ])('rejects a POST with %s', async (_, headers) => {
+      const response = await invoke(handler, createEvent('thing', { body: '{}', headers }));
+
+      expect(response.statusCode).toBe(403);
+      expect(parse(response.body)).toMatchObject({ error: 'Invalid CSRF token' });
+    });
+
+    it('accepts a POST whose header repeats the cookie', async () => {
+      const response = await invoke(handler, createEvent('thing', {
+        body: '{"a":1}',
+        headers: { cookie: `theme=dark; csrf_token=${TEST_CSRF_TOKEN}` }
+      }));
+
+      expect(response.statusCode).toBe(200);
+      expect(parse(response.body)).toEqual({ ok: true, parsed: { a: 1 } });
+    });
+
+    it('does not check GET requests', async () => {
+      const response = await invoke(handler, createEvent('thing', { httpMethod: 'GET', headers: { cookie: '', 'x-csrf-token': '' } }));
+
+      expect(response.statusCode).toBe(200);
+    });
+  });
+
+  describe('errors', () => {
+    it('renders an HttpError with its status, message and headers', async () => {
+      const response = await invoke(handler, createEvent('thing', { body: 'http-error' }));
+
+      expect(response.statusCode).toBe(429);
+      expect(response.headers).toMatchObject({ 'Content-Type': 'application/json', 'Retry-After': '30' });
+      expect(parse(response.body)).toEqual({ error: 'Too many requests', message: 'Slow down' });
+    });
+
+    it('renders errors the function maps', async () => {
+      const response = await invoke(handler, createEvent('thing', { body: 'lookup-error' }));
+
+      expect(response.statusCode).toBe(404);
+      expect(parse(response.body)).toEqual({ error: 'Not found', message: 'No such thing' });
+    });
+
+    it('answers malformed JSON with 400', async () => {
+      const response = await invoke(handler, createEvent('thing', { body: '{"a": ' }));
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body)).toEqual({ error: 'Invalid JSON' });
+    });
+
+    it('treats JSON the function fails to read from elsewhere as unexpected', async () => {
+      const response = await invoke(handler, createEvent('thing', { body: 'corrupt-store' }));
+
+      expect(response.statusCode).toBe(500);
+      expect(parse(response.body)).toEqual({ error: 'Internal server error', message: 'Failed to do the thing' });
+    });
+
+    it('hides unexpected errors behind a 500 with the failure message', async () => {
+      const response = await invoke(handler, createEvent('thing', { body: 'crash', headers: { origin: 'http://localhost:8888' } }));
+
+      expect(response.statusCode).toBe(500);
+      expect(response.headers).toMatchObject({ 'Access-Control-Allow-Origin': 'http://localhost:8888' });
+      expect(parse(response.body)).toEqual({ error: 'Internal server error', message: 'Failed to do the thing' });
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+});
+
+describe('csrf-token', () => {
+  it('issues a token and sets it as a cookie', async () => {
+    const response = await invoke(csrfToken, createEvent('csrf-token', { httpMethod: 'GET', headers: { cookie: '' } }));
+
+    expect(response.statusCode).toBe(200);
+    const { token } = parse(response.body);
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(response.headers?.['Set-Cookie']).toBe(`csrf_token=${token}; Path=/; HttpOnly; SameSite=Strict`);
+  });
+
+  it('keeps the token the browser already has', async () => {
+    const response = await invoke(csrfToken, createEvent('csrf-token', { httpMethod: 'GET' }));
+
+    expect(parse(response.body)).toEqual({ token: TEST_CSRF_TOKEN });
+  });
+
+  it('marks the cookie Secure over HTTPS', async () => {
+    const response = await invoke(csrfToken, createEvent('csrf-token', {
+      httpMethod: 'GET',
+      headers: { cookie: '', 'x-forwarded-proto': 'https' }
+    }));
+
+    expect(response.headers?.['Set-Cookie']).toContain('; Secure');
+  });
+});
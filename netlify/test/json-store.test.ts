@@ -0,0 +1,90 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileJsonStore, updateJson } from '../lib/json-store';
+
+describe('FileJsonStore', () => {
+  let dataDir: string;
+  let store: FileJsonStore<{ value: number }>;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'json-store-'));
+    store = new FileJsonStore(path.join(dataDir, 'store'));
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('stores, replaces and deletes documents', async () => {
+    expect(await store.get('a')).toBeNull();
+
+    await store.set('a', { value: 1 });
+    await store.set('a', { value: 2 });
+    expect(await store.get('a')).toEqual({ value: 2 });
+
+    await store.delete('a');
+    await store.delete('a');
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('lists keys under a prefix', async () => {
+    await store.set('list', { value: 1 });
+    await store.set('audit/2026-10-01-a', { value: 2 });
+    await store.set('audit/2026-10-02-b', { value: 3 });
+
+    expect((await store.keys()).sort()).toEqual(['list']);
+    expect((await store.keys('audit/')).sort()).toEqual(['audit/2026-10-01-a', 'audit/2026-10-02-b']);
+    expect(await store.keys('audit/2026-10-02')).toEqual(['audit/2026-10-02-b']);
+    expect(await store.keys('missing/')).toEqual([]);
+  });
+
+  it('writes a document only at the version it was read at', async () => {
+    expect(await store.setIfVersion('a', { value: 1 }, null)).toBe(true);
+    expect(await store.setIfVersion('a', { value: 9 }, null)).toBe(false);
+
+    const read = await store.getVersioned('a');
+    expect(read?.value).toEqual({ value: 1 });
+
+    expect(await store.setIfVersion('a', { value: 2 }, read!.version)).toBe(true);
+    expect(await store.setIfVersion('a', { value: 3 }, read!.version)).toBe(false);
+    expect(await store.get('a')).toEqual({ value: 2 });
+  });
+
+  it('lists the version of each document as it was read', async () => {
+    await store.set('a', { value: 1 });
+    await store.set('b', { value: 2 });
+    const before = await store.getVersioned('a');
+
+    await store.set('b', { value: 3 });
+    const versions = await store.versions();
+
+    expect(versions.find(({ key }) => key === 'a')?.version).toBe(before!.version);
+    expect(versions.find(({ key }) => key === 'b')?.version).toBe((await store.getVersioned('b'))!.version);
+    expect(versions).toHaveLength(2);
+  });
+
+  it('accepts only one of several simultaneous writes at the same version', async () => {
+    await store.set('a', { value: 0 });
+    const { version } = (await store.getVersioned('a'))!;
+
+    const results = await Promise.all([1, 2, 3].map(value => store.setIfVersion('a', { value }, version)));
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('keeps every one of several simultaneous updates', async () => {
+    await Promise.all([1, 2, 3, 4, 5].map(() => updateJson(store, 'a', current => ({ value: (current?.value ?? 0) + 1 }))));
+
+    expect(await store.get('a')).toEqual({ value: 5 });
+  });
+
+  it('never writes outside its directory', async () => {
+    await store.set('../escaped', { value: 1 });
+    await store.set('../../escaped/again', { value: 2 });
+
+    expect(await readdir(dataDir)).toEqual(['store']);
+    expect(await store.get('../escaped')).toEqual({ value: 1 });
+  });
+});
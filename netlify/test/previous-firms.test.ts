@@ -0,0 +1,159 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handler } from '../functions/previous-firms';
+import { handler as inviteStatus } from '../functions/invite-status';
+import { createEvent, invoke } from './harness';
+import { getAdvisorStore } from '../lib/advisor-store';
+import { getFirmHistoryStore } from '../lib/firm-history-store';
+import { createInvite, readInviteRequest, signInviteToken } from '../lib/invites';
+import type { PreviousFirmEntry } from '../../src/types';
+
+const orrick: PreviousFirmEntry = {
+  submissionId: 'submission-1',
+  entryId: 'entry-1',
+  firmId: 'orrick',
+  firmName: 'Orrick',
+  isMatched: true,
+  contacts: [{ name: 'Jane Smith', relationshipStrength: 'strong', contactFrequency: 'quarterly' }],
+  submittedAt: '2026-10-01T09:00:00.000Z'
+};
+
+function get(authorization?: string) {
+  return invoke(handler, createEvent('previous-firms', {
+    httpMethod: 'GET',
+    headers: authorization ? { authorization } : {}
+  }));
+}
+
+function parse(body: string | undefined) {
+  return JSON.parse(body ?? '');
+}
+
+async function invite(email: string): Promise<string> {
+  return (await createInvite(readInviteRequest({ email }), 'admin@example.com', getAdvisorStore())).token;
+}
+
+describe('previous-firms', () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'previous-firms-'));
+  });
+
+  afterAll(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    vi.stubEnv('SUBMISSION_STORE', 'file');
+    vi.stubEnv('ADVISOR_STORE_DIR', path.join(dataDir, 'advisors'));
+    vi.stubEnv('FIRM_HISTORY_STORE_DIR', path.join(dataDir, 'firm-history'));
+    vi.stubEnv('INVITE_SIGNING_SECRET', 'test-secret');
+
+    await getFirmHistoryStore().save({
+      email: 'advisor@example.com',
+      firms: [orrick],
+      updatedAt: orrick.submittedAt
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("returns the invited advisor's earlier firms", async () => {
+    const response = await get(`Bearer ${await invite('advisor@example.com')}`);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers).toMatchObject({ 'Cache-Control': 'no-store' });
+    expect(parse(response.body)).toEqual({ firms: [orrick] });
+  });
+
+  it('returns no firms for an advisor who has not submitted before', async () => {
+    const response = await get(`Bearer ${await invite('newcomer@example.com')}`);
+
+    expect(response.statusCode).toBe(200);
+    expect(parse(response.body)).toEqual({ firms: [] });
+  });
+
+  it('requires an invite', async () => {
+    const response = await get();
+
+    expect(response.statusCode).toBe(401);
+    expect(parse(response.body)).toMatchObject({ error: 'Unauthorized' });
+  });
+
+  it.each([
+    ['a forged token', () => `${btoa(JSON.stringify({ advisorId: 'a1', email: 'advisor@example.com', exp: 4102444800 }))}.forged`],
+    ['a token for an advisor who was never invited', () => signInviteToken({ advisorId: 'unknown', email: 'advisor@example.com', exp: 4102444800 })]
+  ])('rejects %s', async (_, token) => {
+    const response = await get(`Bearer ${token()}`);
+
+    expect(response.statusCode).toBe(401);
+    expect(parse(response.body)).toMatchObject({ error: 'Invalid invite' });
+    expect(response.body).not.toContain('Orrick');
+  });
+});
+
+describe('invite-status', () => {
+  let dataDir: string;
+
+  function check(token?: string) {
+    return invoke(inviteStatus, createEvent('invite-status', {
+      httpMethod: 'GET',
+      headers: token ? { authorization: `Bearer ${token}` } : {}
+    }));
+  }
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'invite-status-'));
+  });
+
+  afterAll(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('ADVISOR_STORE_DIR', path.join(dataDir, 'advisors'));
+    vi.stubEnv('INVITE_SIGNING_SECRET', 'test-secret');
+    vi.stubEnv('INVITE_REQUIRED', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('says whether submissions need an invite', async () => {
+    expect(parse((await check()).body)).toEqual({ required: true });
+
+    vi.stubEnv('INVITE_REQUIRED', 'false');
+    expect(parse((await check()).body)).toEqual({ required: false });
+  });
+
+  it('accepts a current invite and refuses one submit-form would refuse', async () => {
+    const replaced = await invite('advisor@example.com');
+    const current = (await createInvite(readInviteRequest({ email: 'advisor@example.com', expiresInDays: 30 }), 'admin@example.com', getAdvisorStore())).token;
+
+    expect((await check(current)).statusCode).toBe(200);
+
+    const refused = await check(replaced);
+    expect(refused.statusCode).toBe(401);
+    expect(parse(refused.body)).toMatchObject({ error: 'Invalid invite', message: 'This invite link is no longer valid' });
+  });
+
+  it("keeps an advisor's link for one campaign when they are invited to another", async () => {
+    const forDefault = await invite('advisor@example.com');
+    const forCampaign = (await createInvite(readInviteRequest({ email: 'advisor@example.com', campaign: 'uk-expansion' }), 'admin@example.com', getAdvisorStore())).token;
+
+    expect((await check(forDefault)).statusCode).toBe(200);
+    expect((await check(forCampaign)).statusCode).toBe(200);
+
+    const replacement = (await createInvite(readInviteRequest({ email: 'advisor@example.com', campaign: 'uk-expansion', expiresInDays: 30 }), 'admin@example.com', getAdvisorStore())).token;
+
+    expect((await check(forDefault)).statusCode).toBe(200);
+    expect((await check(forCampaign)).statusCode).toBe(401);
+    expect((await check(replacement)).statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,70 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { buildEntriesTable, buildRelationshipMatrix, toXlsx } from '../lib/submission-export';
+import type { FirmEntry, SubmissionRecord } from '../../src/types';
+
+const ORRICK: FirmEntry = {
+  id: 'entry-1',
+  firmId: 'orrick',
+  firmName: 'Orrick',
+  isMatched: true,
+  timestamp: new Date('2026-10-01T09:00:00Z'),
+  contacts: [
+    { name: 'Jane Smith', relationshipStrength: 'strong', contactFrequency: 'quarterly' },
+    { name: 'Sam Lee', relationshipStrength: 'moderate', contactFrequency: 'annually' }
+  ]
+};
+
+const UNLISTED: FirmEntry = {
+  id: 'entry-2',
+  firmName: 'Quantum Advocates',
+  isMatched: false,
+  timestamp: new Date('2026-10-01T09:00:00Z')
+};
+
+function submission(id: string, userEmail: string, firms: FirmEntry[]): SubmissionRecord {
+  return { id, receivedAt: '2026-10-01T09:00:00.000Z', payload: { userEmail, firms }, deliveries: {} };
+}
+
+describe('buildEntriesTable', () => {
+  it('applies the firm, status and relationship strength filters to each row', () => {
+    const records = [submission('sub-1', 'advisor@example.com', [ORRICK, UNLISTED])];
+
+    const matched = buildEntriesTable(records, { status: 'matched', relationshipStrength: 'strong' });
+    expect(matched.rows.map(row => [row[1], row[3]])).toEqual([['Orrick', 'Jane Smith']]);
+
+    const byFirm = buildEntriesTable(records, { firm: 'quantum' });
+    expect(byFirm.rows.map(row => row[1])).toEqual(['Quantum Advocates']);
+  });
+});
+
+describe('buildRelationshipMatrix', () => {
+  it('keeps a renamed firm in one row under its current name', () => {
+    const records = [
+      submission('sub-2', 'b@example.com', [{ ...ORRICK, firmName: 'Orrick Herrington' }]),
+      submission('sub-1', 'a@example.com', [ORRICK])
+    ];
+
+    const matrix = buildRelationshipMatrix(records, {}, new Map([['orrick', 'Orrick, Herrington & Sutcliffe']]));
+
+    expect(matrix.columns.map(column => column.header)).toEqual(['Firm', 'a@example.com', 'b@example.com']);
+    expect(matrix.rows).toEqual([['Orrick, Herrington & Sutcliffe', 'Strong', 'Strong']]);
+  });
+});
+
+describe('toXlsx', () => {
+  it('formats date columns even when the first row leaves them blank', async () => {
+    const table = buildEntriesTable([submission('sub-1', 'advisor@example.com', [
+      ORRICK,
+      { ...UNLISTED, withdrawnAt: '2026-10-02T09:00:00.000Z' }
+    ])]);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await toXlsx(table) as unknown as ArrayBuffer);
+    const sheet = workbook.worksheets[0];
+    const withdrawnAt = table.columns.findIndex(column => column.header === 'Withdrawn at') + 1;
+
+    expect(table.rows[0][withdrawnAt - 1]).toBe('');
+    expect(sheet.getCell(4, withdrawnAt).numFmt).toBe('yyyy-mm-dd hh:mm');
+  });
+});
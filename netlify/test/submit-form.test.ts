@@ -0,0 +1,588 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import { createServer, type AddressInfo, type Socket } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handler } from '../functions/submit-form';
+import { createEvent, invoke, startFakeSlack, type FakeSlack } from './harness';
+import { getSubmissionStore } from '../lib/submission-store';
+import { getCounterStore } from '../lib/counter-store';
+import { getFirmHistoryStore } from '../lib/firm-history-store';
+import { getRejectionCounts } from '../lib/abuse-protection';
+import { getAdvisorStore } from '../lib/advisor-store';
+import { getProspectStore, loadProspectList } from '../lib/prospect-store';
+import { createInvite, readInviteRequest } from '../lib/invites';
+import { solveProofOfWork } from '../../src/shared/botCheck';
+import { PRIVACY_NOTICE } from '../../src/shared/consent';
+import type { SubmitFormPayload } from '../../src/types';
+
+const consent = { privacyNoticeVersion: PRIVACY_NOTICE.version, introPreference: 'warm-email' as const };
+const botCheck = { honeypot: '', fillTimeMs: 30_000 };
+
+const matchedPayload: SubmitFormPayload = {
+  userEmail: 'advisor@example.com',
+  consent,
+  botCheck,
+  firms: [{
+    id: 'entry-1',
+    firmId: 'blank-rome',
+    firmName: 'Blank Rome',
+    isMatched: true,
+    timestamp: new Date('2026-10-01T09:00:00Z'),
+    contacts: [
+      {
+        name: 'Jane Smith',
+        designation: 'Partner',
+        relationshipStrength: 'strong',
+        contactFrequency: 'quarterly',
+        email: 'jane.smith@blankrome.com',
+        introNotes: 'We worked on a *cross-border* deal together'
+      },
+      {
+        name: 'Sam Lee',
+        designation: 'Associate',
+        relationshipStrength: 'moderate',
+        contactFrequency: 'annually'
+      }
+    ]
+  }]
+};
+
+const unmatchedPayload: SubmitFormPayload = {
+  userEmail: 'advisor@example.com',
+  consent,
+  botCheck,
+  firms: [{
+    id: 'entry-1',
+    firmName: 'Quantum <Advocates>',
+    isMatched: false,
+    timestamp: new Date('2026-10-01T09:00:00Z')
+  }]
+};
+
+// Solved once, since every payload is from the same advisor
+let proofOfWork: string;
+
+function post(body: string | null, headers: Record<string, string> = {}) {
+  return invoke(handler, createEvent('submit-form', {
+    body,
+    headers: { 'content-type': 'application/json', 'x-proof-of-work': proofOfWork, ...headers }
+  }));
+}
+
+function parse(body: string | undefined) {
+  return JSON.parse(body ?? '');
+}
+
+async function invite(email: string): Promise<string> {
+  return (await createInvite(readInviteRequest({ email }), 'admin@example.com', getAdvisorStore())).token;
+}
+
+/**
+ * Replace the submission id and the locale-dependent timestamp so the message can be snapshotted
+ */
+function stableMessage(message: unknown, submissionId: string): unknown {
+  return JSON.parse(
+    JSON.stringify(message)
+      .split(submissionId).join('<submission-id>')
+      .replace(/Submitted on [^·]+·/, 'Submitted on <received-at> ·')
+  );
+}
+
+describe('submit-form', () => {
+  let slack: FakeSlack;
+  let dataDir: string;
+
+  beforeAll(async () => {
+    slack = await startFakeSlack();
+    dataDir = await mkdtemp(path.join(tmpdir(), 'submit-form-'));
+    proofOfWork = await solveProofOfWork('advisor@example.com');
+  });
+
+  afterAll(async () => {
+    await slack.close();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('WEBHOOK_URL', slack.url);
+    vi.stubEnv('NOTIFY_CHANNELS', 'slack');
+    vi.stubEnv('SUBMISSION_STORE', 'file');
+    vi.stubEnv('SUBMISSION_STORE_DIR', path.join(dataDir, 'submissions'));
+    vi.stubEnv('PROSPECT_STORE_DIR', path.join(dataDir, 'prospects'));
+    vi.stubEnv('ADVISOR_STORE_DIR', path.join(dataDir, 'advisors'));
+    vi.stubEnv('IDEMPOTENCY_STORE_DIR', path.join(dataDir, 'idempotency-keys'));
+    // Fresh counters for every test, so submissions from earlier tests never hit a rate limit
+    vi.stubEnv('COUNTER_STORE_DIR', path.join(dataDir, `counters-${randomUUID()}`));
+    vi.stubEnv('FIRM_HISTORY_STORE_DIR', path.join(dataDir, `firm-history-${randomUUID()}`));
+    // Most tests submit without an invite
+    vi.stubEnv('INVITE_REQUIRED', 'false');
+    vi.stubEnv('INVITE_SIGNING_SECRET', 'test-secret');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    slack.reset();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('methods', () => {
+    it('answers the CORS preflight without doing anything', async () => {
+      const response = await invoke(handler, createEvent('submit-form', {
+        httpMethod: 'OPTIONS',
+        headers: { origin: 'http://localhost:8888' }
+      }));
+
+      expect(response.statusCode).toBe(204);
+      expect(response.headers).toMatchObject({
+        'Access-Control-Allow-Origin': 'http://localhost:8888',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS'
+      });
+      expect(response.body).toBe('');
+      expect(slack.requests).toHaveLength(0);
+    });
+
+    it.each(['GET', 'PUT', 'DELETE'])('rejects %s with 405', async (httpMethod) => {
+      const response = await invoke(handler, createEvent('submit-form', { httpMethod }));
+
+      expect(response.statusCode).toBe(405);
+      expect(parse(response.body)).toEqual({ error: 'Method not allowed' });
+      expect(slack.requests).toHaveLength(0);
+    });
+  });
+
+  describe('request bodies', () => {
+    it.each([
+      ['malformed JSON', '{"userEmail": '],
+      ['an empty body', null]
+    ])('rejects %s with 400', async (_, body) => {
+      const response = await post(body);
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body)).toEqual({ error: 'Invalid JSON' });
+      expect(slack.requests).toHaveLength(0);
+    });
+
+    it('rejects a submission that fails validation and lists the problems', async () => {
+      const response = await post(JSON.stringify({ ...unmatchedPayload, userEmail: 'not-an-email' }));
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body)).toMatchObject({
+        error: 'Invalid submission',
+        details: [expect.objectContaining({ field: 'userEmail' })]
+      });
+      expect(slack.requests).toHaveLength(0);
+    });
+
+    it('rejects malformed and repeated entry ids', async () => {
+      const firms = [
+        { ...unmatchedPayload.firms[0], id: '../entry-1' },
+        { ...unmatchedPayload.firms[0], id: 'entry-2', firmName: 'Quantum Advocates' },
+        { ...unmatchedPayload.firms[0], id: 'entry-2', firmName: 'Other Advocates' }
+      ];
+      const response = await post(JSON.stringify({ ...unmatchedPayload, firms }));
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body).details).toEqual([
+        expect.objectContaining({ field: 'firms[0].id' }),
+        expect.objectContaining({ field: 'firms[2].id' })
+      ]);
+    });
+
+    it('refuses a firm the client matched against an out-of-date prospect list', async () => {
+      const renamed = { ...matchedPayload, firms: [{ ...matchedPayload.firms[0], firmName: 'Blank Rome Old Name LLP' }] };
+      const response = await post(JSON.stringify(renamed));
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body)).toMatchObject({
+        error: 'Invalid submission',
+        details: [expect.objectContaining({ field: 'firms[0].firmName' })]
+      });
+      expect(slack.requests).toHaveLength(0);
+    });
+
+    it('accepts a firm added to the prospect list since this instance cached it', async () => {
+      // Cache the list as it was before the firm was added
+      await post(JSON.stringify(matchedPayload));
+
+      // Another instance adds the firm, so this one's cache is never invalidated
+      vi.stubEnv('PROSPECT_STORE_DIR', path.join(dataDir, `prospects-${randomUUID()}`));
+      const prospects = getProspectStore();
+      const { list, version } = await loadProspectList(prospects);
+      const added = { id: 'newly-added', name: 'Newly Added LLP', aliases: [], formerNames: [], status: 'active' as const, updatedAt: '2026-10-19T09:00:00.000Z', updatedBy: 'admin@example.com' };
+      await prospects.saveList({ updatedAt: added.updatedAt, firms: [...list.firms, added] }, version);
+
+      const response = await post(JSON.stringify({
+        ...matchedPayload,
+        firms: [{ ...matchedPayload.firms[0], firmId: added.id, firmName: added.name }]
+      }));
+
+      expect(response.statusCode).toBe(200);
+    });
+  });
+
+  describe('Slack messages', () => {
+    it('posts Block Kit for a matched firm with its contacts', async () => {
+      const response = await post(JSON.stringify(matchedPayload));
+
+      expect(response.statusCode).toBe(200);
+      const { submissionId } = parse(response.body);
+      expect(slack.requests).toHaveLength(1);
+      expect(slack.requests[0].headers['content-type']).toBe('application/json');
+      expect(stableMessage(slack.requests[0].body, submissionId)).toMatchSnapshot();
+    });
+
+    it('posts Block Kit for an unmatched firm, escaping what the advisor typed', async () => {
+      const response = await post(JSON.stringify(unmatchedPayload));
+
+      expect(response.statusCode).toBe(200);
+      const { submissionId } = parse(response.body);
+      expect(slack.requests).toHaveLength(1);
+      expect(stableMessage(slack.requests[0].body, submissionId)).toMatchSnapshot();
+    });
+  });
+
+  describe('delivery failures', () => {
+    it('still accepts the submission when the webhook returns 500, recording the failure', async () => {
+      slack.respondWith(500);
+
+      const response = await post(JSON.stringify(unmatchedPayload));
+
+      expect(response.statusCode).toBe(200);
+      expect(slack.requests).toHaveLength(1);
+
+      const record = await getSubmissionStore().get(parse(response.body).submissionId);
+      expect(record?.deliveries.slack).toMatchObject({ status: 'failed', error: 'Slack webhook failed: 500' });
+    });
+
+    it('still accepts the submission when WEBHOOK_URL is not set, recording the failure', async () => {
+      vi.stubEnv('WEBHOOK_URL', '');
+
+      const response = await post(JSON.stringify(unmatchedPayload));
+
+      expect(response.statusCode).toBe(200);
+      expect(slack.requests).toHaveLength(0);
+
+      const record = await getSubmissionStore().get(parse(response.body).submissionId);
+      expect(record?.deliveries.slack).toMatchObject({ status: 'failed', error: 'WEBHOOK_URL environment variable not set' });
+    });
+
+    it('still accepts the submission when the webhook times out, recording the failure', async () => {
+      vi.spyOn(AbortSignal, 'timeout').mockReturnValue(AbortSignal.abort(new DOMException('Timed out', 'TimeoutError')));
+
+      const response = await post(JSON.stringify(unmatchedPayload));
+
+      expect(response.statusCode).toBe(200);
+
+      const record = await getSubmissionStore().get(parse(response.body).submissionId);
+      expect(record?.deliveries.slack).toMatchObject({ status: 'failed', error: 'Slack webhook timed out after 5 seconds' });
+    });
+
+    it('still accepts the submission when the SMTP server hangs, recording the failure', async () => {
+      // Accepts connections and never greets, as a stuck mail server does
+      const sockets: Socket[] = [];
+      const smtp = createServer(socket => sockets.push(socket));
+      await new Promise<void>(resolve => smtp.listen(0, '127.0.0.1', resolve));
+      vi.stubEnv('NOTIFY_CHANNELS', 'email');
+      vi.stubEnv('SMTP_URL', `smtp://127.0.0.1:${(smtp.address() as AddressInfo).port}`);
+      vi.stubEnv('EMAIL_FROM', 'forms@example.com');
+      vi.stubEnv('EMAIL_TO', 'team@example.com');
+      vi.spyOn(AbortSignal, 'timeout').mockReturnValue(AbortSignal.abort(new DOMException('Timed out', 'TimeoutError')));
+
+      try {
+        const response = await post(JSON.stringify(unmatchedPayload));
+
+        expect(response.statusCode).toBe(200);
+
+        const record = await getSubmissionStore().get(parse(response.body).submissionId);
+        expect(record?.deliveries.email).toMatchObject({ status: 'failed', error: 'Email timed out after 5 seconds' });
+      } finally {
+        sockets.forEach(socket => socket.destroy());
+        await new Promise(resolve => smtp.close(resolve));
+      }
+    });
+
+    it('records a successful delivery', async () => {
+      const response = await post(JSON.stringify(unmatchedPayload));
+
+      const record = await getSubmissionStore().get(parse(response.body).submissionId);
+      expect(record?.deliveries.slack).toMatchObject({ status: 'delivered' });
+    });
+  });
+
+  describe('idempotency keys', () => {
+    it('returns the original result for a repeat without notifying again', async () => {
+      const key = randomUUID();
+
+      const first = await post(JSON.stringify(unmatchedPayload), { 'idempotency-key': key });
+      const repeat = await post(JSON.stringify(unmatchedPayload), { 'idempotency-key': key });
+
+      expect(first.statusCode).toBe(200);
+      expect(repeat.statusCode).toBe(200);
+      expect(parse(repeat.body).submissionId).toBe(parse(first.body).submissionId);
+      expect(repeat.headers).toMatchObject({ 'Idempotent-Replayed': 'true' });
+      expect(first.headers).not.toHaveProperty('Idempotent-Replayed');
+      expect(slack.requests).toHaveLength(1);
+    });
+
+    it('treats the same answers under a different key as a new submission', async () => {
+      const first = await post(JSON.stringify(unmatchedPayload), { 'idempotency-key': randomUUID() });
+      const second = await post(JSON.stringify(unmatchedPayload), { 'idempotency-key': randomUUID() });
+
+      expect(parse(second.body).submissionId).not.toBe(parse(first.body).submissionId);
+      expect(slack.requests).toHaveLength(2);
+    });
+
+    it('rejects a key reused for different answers', async () => {
+      const key = randomUUID();
+
+      await post(JSON.stringify(unmatchedPayload), { 'idempotency-key': key });
+      const changed = await post(JSON.stringify(matchedPayload), { 'idempotency-key': key });
+
+      expect(changed.statusCode).toBe(409);
+      expect(parse(changed.body)).toMatchObject({ error: 'Submission key already used' });
+      expect(slack.requests).toHaveLength(1);
+    });
+
+    it('accepts only one of several simultaneous requests with the same key', async () => {
+      const key = randomUUID();
+
+      const responses = await Promise.all([1, 2, 3].map(() =>
+        post(JSON.stringify(unmatchedPayload), { 'idempotency-key': key })
+      ));
+
+      const accepted = responses.filter(response => response.statusCode === 200 && !response.headers?.['Idempotent-Replayed']);
+      expect(accepted).toHaveLength(1);
+      for (const response of responses.filter(response => response.statusCode !== 200)) {
+        expect(response.statusCode).toBe(409);
+        expect(parse(response.body)).toMatchObject({ error: 'Submission in progress' });
+        expect(response.headers).toMatchObject({ 'Retry-After': '2' });
+      }
+      expect(slack.requests).toHaveLength(1);
+      expect((await getSubmissionStore().list()).filter(record => record.id === parse(accepted[0].body).submissionId)).toHaveLength(1);
+
+      const repeat = await post(JSON.stringify(unmatchedPayload), { 'idempotency-key': key });
+      expect(parse(repeat.body).submissionId).toBe(parse(accepted[0].body).submissionId);
+    });
+
+    it('releases the key of a submission that was turned away', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const key = randomUUID();
+
+      const rejected = await post(JSON.stringify({ ...unmatchedPayload, botCheck: { honeypot: '', fillTimeMs: 1000 } }), { 'idempotency-key': key });
+      const retried = await post(JSON.stringify(unmatchedPayload), { 'idempotency-key': key });
+
+      expect(rejected.statusCode).toBe(400);
+      expect(retried.statusCode).toBe(200);
+      expect(retried.headers).not.toHaveProperty('Idempotent-Replayed');
+      expect(slack.requests).toHaveLength(1);
+    });
+
+    it('rejects a malformed key', async () => {
+      const response = await post(JSON.stringify(unmatchedPayload), { 'idempotency-key': '../../etc/passwd' });
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body)).toMatchObject({
+        details: [{ field: 'Idempotency-Key', message: 'Invalid idempotency key' }]
+      });
+      expect(slack.requests).toHaveLength(0);
+    });
+
+    it('allows the key in CORS preflight requests', async () => {
+      const response = await invoke(handler, createEvent('submit-form', { httpMethod: 'OPTIONS' }));
+
+      expect(response.headers?.['Access-Control-Allow-Headers']).toContain('Idempotency-Key');
+    });
+  });
+
+  describe('abuse protection', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('requires the bot check', async () => {
+      const response = await post(JSON.stringify({ ...unmatchedPayload, botCheck: undefined }));
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body)).toMatchObject({
+        details: [expect.objectContaining({ field: 'botCheck' })]
+      });
+      expect(slack.requests).toHaveLength(0);
+    });
+
+    it.each([
+      ['a filled-in honeypot', { ...botCheck, honeypot: 'https://spam.example' }, 'honeypot'],
+      ['a form filled in too quickly', { ...botCheck, fillTimeMs: 800 }, 'too-fast']
+    ] as const)('rejects %s and counts it', async (_, check, reason) => {
+      const response = await post(JSON.stringify({ ...unmatchedPayload, botCheck: check }));
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body)).toMatchObject({ error: 'Submission rejected' });
+      expect(slack.requests).toHaveLength(0);
+      expect((await getRejectionCounts(getCounterStore()))[reason]).toBe(1);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(reason));
+    });
+
+    it.each([
+      ['a missing proof of work', async () => ''],
+      ['an unsolved proof of work', async () => `${Date.now()}.0`],
+      ['a proof of work solved for another email address', () => solveProofOfWork('someone-else@example.com')]
+    ])('rejects %s', async (_, proof) => {
+      const response = await post(JSON.stringify(unmatchedPayload), { 'x-proof-of-work': await proof() });
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body)).toMatchObject({ error: 'Submission rejected' });
+      expect(slack.requests).toHaveLength(0);
+      expect((await getRejectionCounts(getCounterStore()))['proof-of-work']).toBe(1);
+    });
+
+    it('limits submissions per invited email address', async () => {
+      vi.stubEnv('RATE_LIMIT_PER_EMAIL', '2');
+      const invited = JSON.stringify({ ...unmatchedPayload, inviteToken: await invite('advisor@example.com') });
+
+      const accepted = [await post(invited), await post(invited)];
+      const limited = await post(invited);
+
+      expect(accepted.map(response => response.statusCode)).toEqual([200, 200]);
+      expect(limited.statusCode).toBe(429);
+      expect(Number(limited.headers?.['Retry-After'])).toBeGreaterThan(0);
+      expect(parse(limited.body)).toMatchObject({ error: 'Too many submissions' });
+      expect(slack.requests).toHaveLength(2);
+      expect((await getRejectionCounts(getCounterStore()))['email-rate-limit']).toBe(1);
+    });
+
+    it("does not let submissions without an invite use up an advisor's allowance", async () => {
+      vi.stubEnv('RATE_LIMIT_PER_EMAIL', '1');
+
+      const uninvited = [
+        await post(JSON.stringify(unmatchedPayload)),
+        await post(JSON.stringify(unmatchedPayload))
+      ];
+      const invited = await post(JSON.stringify({ ...unmatchedPayload, inviteToken: await invite('advisor@example.com') }));
+
+      expect(uninvited.map(response => response.statusCode)).toEqual([200, 200]);
+      expect(invited.statusCode).toBe(200);
+    });
+
+    it('does not count submissions that were turned away', async () => {
+      vi.stubEnv('RATE_LIMIT_PER_IP', '1');
+      const fromIp = { 'x-nf-client-connection-ip': '203.0.113.7' };
+
+      const rejected = await post(JSON.stringify({ ...unmatchedPayload, botCheck: { ...botCheck, honeypot: 'spam' } }), fromIp);
+      const forged = await post(JSON.stringify({ ...unmatchedPayload, inviteToken: 'forged.token' }), fromIp);
+      const accepted = await post(JSON.stringify(unmatchedPayload), fromIp);
+      const limited = await post(JSON.stringify(unmatchedPayload), fromIp);
+
+      expect([rejected, forged, accepted, limited].map(response => response.statusCode)).toEqual([400, 401, 200, 429]);
+    });
+
+    it('requires an invite unless INVITE_REQUIRED is false', async () => {
+      vi.stubEnv('INVITE_REQUIRED', '');
+
+      const uninvited = await post(JSON.stringify(unmatchedPayload));
+      const invited = await post(JSON.stringify({ ...unmatchedPayload, inviteToken: await invite('advisor@example.com') }));
+
+      expect(uninvited.statusCode).toBe(401);
+      expect(invited.statusCode).toBe(200);
+    });
+
+    it('refuses an invite link replaced by a newer invite', async () => {
+      const replaced = await invite('advisor@example.com');
+      await createInvite(readInviteRequest({ email: 'advisor@example.com', expiresInDays: 30 }), 'admin@example.com', getAdvisorStore());
+
+      const response = await post(JSON.stringify({ ...unmatchedPayload, inviteToken: replaced }));
+
+      expect(response.statusCode).toBe(401);
+      expect(slack.requests).toHaveLength(0);
+    });
+
+    it('limits submissions per IP address', async () => {
+      vi.stubEnv('RATE_LIMIT_PER_IP', '1');
+      const fromIp = { 'x-nf-client-connection-ip': '203.0.113.7' };
+
+      const accepted = await post(JSON.stringify(unmatchedPayload), fromIp);
+      const limited = await post(JSON.stringify(unmatchedPayload), fromIp);
+      const otherIp = await post(JSON.stringify(unmatchedPayload), { 'x-nf-client-connection-ip': '203.0.113.8' });
+
+      expect(accepted.statusCode).toBe(200);
+      expect(limited.statusCode).toBe(429);
+      expect(otherIp.statusCode).toBe(200);
+      expect((await getRejectionCounts(getCounterStore()))['ip-rate-limit']).toBe(1);
+    });
+
+    it('allows the proof of work in CORS preflight requests', async () => {
+      const response = await invoke(handler, createEvent('submit-form', { httpMethod: 'OPTIONS' }));
+
+      expect(response.headers?.['Access-Control-Allow-Headers']).toContain('X-Proof-Of-Work');
+    });
+  });
+
+  describe('earlier submissions', () => {
+    it("remembers each email's latest entry for every firm", async () => {
+      await post(JSON.stringify(unmatchedPayload));
+      const latest = parse((await post(JSON.stringify(matchedPayload))).body).submissionId;
+
+      const history = await getFirmHistoryStore().get('Advisor@Example.com');
+      expect(history?.firms).toEqual([
+        expect.objectContaining({ submissionId: latest, entryId: 'entry-1', firmId: 'blank-rome', firmName: 'Blank Rome' }),
+        expect.objectContaining({ entryId: 'entry-1', isMatched: false })
+      ]);
+      expect(await getFirmHistoryStore().get('someone-else@example.com')).toBeNull();
+    });
+
+    it('keeps every one of several simultaneous submissions from an email in its history', async () => {
+      const responses = await Promise.all([1, 2, 3].map(() => post(JSON.stringify(unmatchedPayload))));
+
+      const history = await getFirmHistoryStore().get('advisor@example.com');
+      expect(history?.submissionIds).toHaveLength(3);
+      expect(history?.submissionIds).toEqual(expect.arrayContaining(responses.map(response => parse(response.body).submissionId)));
+    });
+
+    it('replaces the earlier entry an amendment points at', async () => {
+      const earlierId = parse((await post(JSON.stringify(matchedPayload))).body).submissionId;
+      const amendment: SubmitFormPayload = {
+        ...matchedPayload,
+        firms: [{
+          ...matchedPayload.firms[0],
+          id: 'entry-2',
+          contacts: [{ name: 'Jane Smith', relationshipStrength: 'moderate', contactFrequency: 'annually' }],
+          amends: { submissionId: earlierId, entryId: 'entry-1' }
+        }]
+      };
+
+      const laterId = parse((await post(JSON.stringify(amendment))).body).submissionId;
+
+      const later = await getSubmissionStore().get(laterId);
+      expect(later?.payload.firms[0].amends).toEqual({ submissionId: earlierId, entryId: 'entry-1' });
+      const earlier = await getSubmissionStore().get(earlierId);
+      expect(earlier?.payload.firms[0].supersededBy).toEqual({ submissionId: laterId, entryId: 'entry-2' });
+
+      const history = await getFirmHistoryStore().get('advisor@example.com');
+      expect(history?.firms).toHaveLength(1);
+      expect(history?.firms[0]).toMatchObject({ submissionId: laterId, entryId: 'entry-2' });
+    });
+
+    it('keeps an amendment of an entry the advisor never made as a new entry', async () => {
+      const response = await post(JSON.stringify({
+        ...unmatchedPayload,
+        firms: [{ ...unmatchedPayload.firms[0], amends: { submissionId: randomUUID(), entryId: 'entry-1' } }]
+      }));
+
+      expect(response.statusCode).toBe(200);
+      const record = await getSubmissionStore().get(parse(response.body).submissionId);
+      expect(record?.payload.firms[0]).not.toHaveProperty('amends');
+    });
+
+    it('rejects a malformed amendment', async () => {
+      const response = await post(JSON.stringify({
+        ...unmatchedPayload,
+        firms: [{ ...unmatchedPayload.firms[0], amends: { submissionId: '../secrets', entryId: 'entry-1' } }]
+      }));
+
+      expect(response.statusCode).toBe(400);
+      expect(parse(response.body)).toMatchObject({ details: [{ field: 'firms[0].amends' }] });
+    });
+  });
+});
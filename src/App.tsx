@@ -1,11 +1,21 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import HomePage from './pages/HomePage'
+import AdminPage from './pages/AdminPage'
+import AdminProspectsPage from './pages/AdminProspectsPage'
+import AdminInvitesPage from './pages/AdminInvitesPage'
+import MySubmissionsPage from './pages/MySubmissionsPage'
+import { MY_SUBMISSIONS_PATH } from './shared/signIn'
 
 function App() {
   return (
     <Router>
       <Routes>
         <Route path="/" element={<HomePage />} />
+        <Route path="/c/:campaignSlug" element={<HomePage />} />
+        <Route path={MY_SUBMISSIONS_PATH} element={<MySubmissionsPage />} />
+        <Route path="/admin" element={<AdminPage />} />
+        <Route path="/admin/prospects" element={<AdminProspectsPage />} />
+        <Route path="/admin/invites" element={<AdminInvitesPage />} />
       </Routes>
     </Router>
   )
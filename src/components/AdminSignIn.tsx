@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import Input from './Input';
+import Button from './Button';
+
+interface AdminSignInProps {
+  onSignIn: (token: string) => void;
+}
+
+export function AdminSignIn({ onSignIn }: AdminSignInProps) {
+  const [token, setToken] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!token.trim()) {
+      return;
+    }
+
+    onSignIn(token.trim());
+    setToken('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg p-6 space-y-4 max-w-md" style={{ border: '1px solid #eeeeee' }}>
+      <Input
+        id="admin-token"
+        type="password"
+        label="Admin access token"
+        helperText="Changes you make are recorded against the admin this token belongs to"
+        value={token}
+        onChange={(event) => setToken(event.target.value)}
+        autoComplete="off"
+        required
+      />
+      <Button appearance="primary" size="small" htmlType="submit" disabled={!token.trim()}>
+        Sign in
+      </Button>
+    </form>
+  );
+}
+
+export default AdminSignIn;
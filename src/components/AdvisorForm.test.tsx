@@ -0,0 +1,653 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import AdvisorForm from './AdvisorForm';
+import { FirmService } from '../services/FirmService';
+import { PRIVACY_NOTICE } from '../shared/consent';
+import type { FirmRecord, PreviousFirmEntry } from '../types';
+
+// The real proof of work takes thousands of hashes; submit-form's tests cover it
+vi.mock('../shared/botCheck', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../shared/botCheck')>(),
+  solveProofOfWork: async () => 'proof-of-work'
+}));
+
+const FIRMS: FirmRecord[] = [
+  { id: 'hogan-lovells', name: 'Hogan Lovells', aliases: [], formerNames: ['Lovells'] },
+  { id: 'ashurst', name: 'Ashurst', aliases: [], formerNames: [] }
+];
+
+const UNLISTED_FIRM = 'Quantum Advocates';
+
+const EARLIER_HOGAN_LOVELLS: PreviousFirmEntry = {
+  submissionId: 'sub-0',
+  entryId: 'entry-0',
+  firmId: 'hogan-lovells',
+  firmName: 'Hogan Lovells',
+  isMatched: true,
+  contacts: [{ name: 'Jane Smith', designation: 'Partner', relationshipStrength: 'strong', contactFrequency: 'quarterly' }],
+  submittedAt: '2026-10-01T09:00:00.000Z'
+};
+
+/**
+ * An invite token for advisor@example.com; only the server checks the signature
+ */
+function inviteToken(): string {
+  const claims = btoa(JSON.stringify({ advisorId: 'advisor-1', email: 'advisor@example.com', exp: 4102444800 }));
+  return `${claims.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}.signature`;
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+/**
+ * Answer the prospect list request with the test firms, previous-firms with the given
+ * earlier entries, invite-status with the given response (invites optional by default)
+ * and submit-form with the given response
+ */
+function mockFetch(
+  submitResponse: () => Response,
+  previousFirms: PreviousFirmEntry[] = [],
+  inviteStatus: () => Response = () => jsonResponse({ required: false })
+) {
+  const fetchMock = vi.fn<typeof fetch>(async (input) => {
+    const url = String(input);
+    if (url.endsWith('/prospects')) {
+      return jsonResponse({ firms: FIRMS });
+    }
+    if (url.endsWith('/csrf-token')) {
+      return jsonResponse({ token: 'csrf-token' });
+    }
+    if (url.endsWith('/invite-status')) {
+      return inviteStatus();
+    }
+    if (url.endsWith('/previous-firms')) {
+      return jsonResponse({ firms: previousFirms });
+    }
+    if (url.endsWith('/submit-form')) {
+      return submitResponse();
+    }
+    throw new Error(`Unexpected request to ${url}`);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function submitRequests(fetchMock: ReturnType<typeof mockFetch>) {
+  return fetchMock.mock.calls.filter(([input]) => String(input).endsWith('/submit-form'));
+}
+
+function submissionKeys(fetchMock: ReturnType<typeof mockFetch>) {
+  return submitRequests(fetchMock).map(([, init]) => (init?.headers as Record<string, string>)['Idempotency-Key']);
+}
+
+function renderForm(options: { inviteToken?: string } = {}) {
+  const user = userEvent.setup();
+  const props = {
+    ...options,
+    onComplete: vi.fn(),
+    onToast: vi.fn(),
+    onFirmsChange: vi.fn()
+  };
+  render(<AdvisorForm {...props} />);
+  return { user, ...props };
+}
+
+async function enterEmail(user: ReturnType<typeof userEvent.setup>, email = 'advisor@example.com') {
+  await user.type(screen.getByPlaceholderText('Enter your email address'), email);
+}
+
+async function enterFirm(user: ReturnType<typeof userEvent.setup>, firmName: string) {
+  const input = screen.getByPlaceholderText('Type law firm name...');
+  await user.type(input, firmName);
+  await user.keyboard('{Escape}');
+  await user.click(screen.getByRole('button', { name: 'Add Firm' }));
+}
+
+async function chooseOption(user: ReturnType<typeof userEvent.setup>, selectId: string, label: string) {
+  await user.click(document.getElementById(selectId) as HTMLElement);
+  await user.click(await screen.findByRole('option', { name: label }));
+}
+
+async function agreeAndSubmit(user: ReturnType<typeof userEvent.setup>) {
+  await user.click(screen.getByRole('button', { name: /^Submit/ }));
+  await user.click(screen.getByRole('radio', { name: 'Warm email intro' }));
+  await user.click(screen.getByRole('checkbox'));
+  await user.click(screen.getByRole('button', { name: 'Agree and submit' }));
+}
+
+describe('AdvisorForm', () => {
+  beforeEach(() => {
+    FirmService.setFirms(FIRMS);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    FirmService.setFirms(null);
+  });
+
+  describe('email gating', () => {
+    beforeEach(() => {
+      mockFetch(() => jsonResponse({}));
+    });
+
+    it('asks for an email address before a firm can be added', async () => {
+      const { user, onFirmsChange } = renderForm();
+
+      await enterFirm(user, 'Ashurst');
+
+      expect(screen.getByText('Please enter your email address before adding a firm')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Save Contact' })).not.toBeInTheDocument();
+      expect(onFirmsChange).not.toHaveBeenCalled();
+    });
+
+    it('rejects an invalid email address before a firm can be added', async () => {
+      const { user } = renderForm();
+
+      await enterEmail(user, 'not-an-email');
+      await enterFirm(user, 'Ashurst');
+
+      expect(screen.getByText('Please enter a valid email address before adding a firm')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Save Contact' })).not.toBeInTheDocument();
+    });
+
+    it('clears the email error once the address is changed', async () => {
+      const { user } = renderForm();
+
+      await enterFirm(user, 'Ashurst');
+      await enterEmail(user);
+
+      expect(screen.queryByText('Please enter your email address before adding a firm')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('step transitions', () => {
+    beforeEach(() => {
+      mockFetch(() => jsonResponse({}));
+    });
+
+    it('opens contact details for a matched firm and returns on cancel', async () => {
+      const { user, onFirmsChange } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, 'Lovells');
+
+      expect(screen.getByText('Hogan Lovells', { selector: 'span' })).toBeInTheDocument();
+      expect(screen.queryByPlaceholderText('Type law firm name...')).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Cancel' }));
+
+      expect(screen.getByPlaceholderText('Type law firm name...')).toHaveValue('');
+      expect(onFirmsChange).not.toHaveBeenCalled();
+    });
+
+    it('adds the matched firm with its contacts when they are saved', async () => {
+      const { user, onFirmsChange, onToast } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, 'Ashurst');
+
+      await chooseOption(user, 'relationship-strength-0', 'Strong');
+      await chooseOption(user, 'contact-frequency-0', 'Quarterly');
+      await user.type(screen.getByLabelText(/Contact Name/), 'Jane Smith');
+      await user.type(screen.getByLabelText(/Designation/), 'Partner');
+      await user.click(screen.getByRole('button', { name: 'Save Contact' }));
+
+      expect(await screen.findByPlaceholderText('Type law firm name...', {}, { timeout: 2000 })).toBeInTheDocument();
+      expect(onFirmsChange).toHaveBeenLastCalledWith([
+        expect.objectContaining({
+          firmId: 'ashurst',
+          firmName: 'Ashurst',
+          isMatched: true,
+          contacts: [expect.objectContaining({ name: 'Jane Smith', designation: 'Partner', relationshipStrength: 'strong', contactFrequency: 'quarterly' })]
+        })
+      ]);
+      expect(onToast).toHaveBeenCalledWith("Thank you! We'll be in touch with you about Ashurst.");
+    });
+
+    it('keeps the advisor on contact details until required fields are filled in', async () => {
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, 'Ashurst');
+      await user.click(screen.getByRole('button', { name: 'Save Contact' }));
+
+      expect(screen.getByText('Contact name is required')).toBeInTheDocument();
+      expect(screen.getByText('Please select relationship strength')).toBeInTheDocument();
+      expect(screen.queryByPlaceholderText('Type law firm name...')).not.toBeInTheDocument();
+    });
+
+    it('keeps the inputs of the contacts after one that is removed', async () => {
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, 'Ashurst');
+      await user.click(screen.getByRole('button', { name: 'Add another contact at Ashurst' }));
+      await user.click(screen.getByRole('button', { name: 'Add another contact at Ashurst' }));
+      for (const [index, name] of ['Jane Smith', 'Sam Lee', 'Ana Ruiz'].entries()) {
+        await user.type(within(screen.getByRole('group', { name: `Contact ${index + 1}` })).getByLabelText(/Contact Name/), name);
+      }
+      const lastName = within(screen.getByRole('group', { name: 'Contact 3' })).getByLabelText(/Contact Name/);
+
+      await user.click(screen.getByRole('button', { name: 'Remove contact 2' }));
+
+      expect(within(screen.getByRole('group', { name: 'Contact 1' })).getByLabelText(/Contact Name/)).toHaveValue('Jane Smith');
+      expect(within(screen.getByRole('group', { name: 'Contact 2' })).getByLabelText(/Contact Name/)).toBe(lastName);
+      expect(lastName).toHaveValue('Ana Ruiz');
+    });
+
+    it('offers the closest listed firm for a near miss', async () => {
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, 'Hogan Lovels');
+
+      expect(screen.getByText('Did you mean Hogan Lovells?')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Yes, use Hogan Lovells' }));
+
+      expect(screen.getByRole('button', { name: 'Save Contact' })).toBeInTheDocument();
+    });
+  });
+
+  describe('duplicate firms', () => {
+    beforeEach(() => {
+      mockFetch(() => jsonResponse({}));
+    });
+
+    it('rejects a firm that has already been entered', async () => {
+      const { user, onFirmsChange, onToast } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+
+      expect(onToast).toHaveBeenCalledWith(`Thank you! We'll be in touch with you about ${UNLISTED_FIRM}.`);
+      expect(onFirmsChange).toHaveBeenCalledTimes(1);
+
+      await enterFirm(user, UNLISTED_FIRM.toUpperCase());
+
+      expect(screen.getByText('This firm has already been entered')).toBeInTheDocument();
+      expect(onFirmsChange).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('invites', () => {
+    it('stops an advisor without an invite before the first step when invites are required', async () => {
+      mockFetch(() => jsonResponse({}), [], () => jsonResponse({ required: true }));
+      renderForm();
+
+      expect(await screen.findByText('You need an invite to use this form')).toBeInTheDocument();
+      expect(screen.getByText(/This form is for invited advisors/)).toBeInTheDocument();
+      expect(screen.queryByPlaceholderText('Enter your email address')).not.toBeInTheDocument();
+    });
+
+    it('stops an advisor whose invite the server refuses', async () => {
+      const fetchMock = mockFetch(() => jsonResponse({}), [], () => jsonResponse({ error: 'Invalid invite', message: 'This invite link is no longer valid' }, 401));
+      renderForm({ inviteToken: inviteToken() });
+
+      expect(await screen.findByText('This invite link is no longer valid')).toBeInTheDocument();
+      expect(screen.queryByPlaceholderText('Type law firm name...')).not.toBeInTheDocument();
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/.netlify/functions/invite-status',
+        expect.objectContaining({ headers: { Authorization: `Bearer ${inviteToken()}` } })
+      );
+    });
+
+    it('keeps the form open without an invite when invites are optional', async () => {
+      const fetchMock = mockFetch(() => jsonResponse({}));
+      const { user } = renderForm();
+
+      await waitFor(() => expect(fetchMock).toHaveBeenCalledWith('/.netlify/functions/invite-status', expect.anything()));
+      await enterEmail(user);
+
+      expect(screen.queryByText('You need an invite to use this form')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('earlier submissions', () => {
+    it('offers to update the earlier entry for a firm the advisor already shared', async () => {
+      const fetchMock = mockFetch(() => jsonResponse({ success: true, submissionId: 'sub-1', message: 'ok' }), [EARLIER_HOGAN_LOVELLS]);
+      const { user, onToast } = renderForm({ inviteToken: inviteToken() });
+
+      await waitFor(() => expect(fetchMock).toHaveBeenCalledWith(
+        '/.netlify/functions/previous-firms',
+        expect.objectContaining({ headers: expect.objectContaining({ Authorization: `Bearer ${inviteToken()}` }) })
+      ));
+      await enterFirm(user, 'Hogan Lovells');
+
+      const submittedOn = new Date(EARLIER_HOGAN_LOVELLS.submittedAt).toLocaleDateString();
+      expect(screen.getByText(`You already shared a contact at Hogan Lovells on ${submittedOn} — update it instead?`)).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Save Contact' })).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Update earlier entry' }));
+
+      expect(screen.getByLabelText(/Contact Name/)).toHaveValue('Jane Smith');
+      await user.click(screen.getByRole('button', { name: 'Save Contact' }));
+
+      await screen.findByPlaceholderText('Type law firm name...', {}, { timeout: 2000 });
+      expect(onToast).toHaveBeenCalledWith('Thank you! Your contacts at Hogan Lovells will be updated when you submit.');
+      await agreeAndSubmit(user);
+      await screen.findByText('Form Complete');
+
+      const [[, init]] = submitRequests(fetchMock);
+      expect(JSON.parse(String(init?.body)).firms).toEqual([
+        expect.objectContaining({ firmId: 'hogan-lovells', amends: { submissionId: 'sub-0', entryId: 'entry-0' } })
+      ]);
+    });
+
+    it('adds the firm as a new entry when the advisor prefers', async () => {
+      mockFetch(() => jsonResponse({}), [EARLIER_HOGAN_LOVELLS]);
+      const { user } = renderForm({ inviteToken: inviteToken() });
+
+      await waitFor(() => expect(fetch).toHaveBeenCalledWith('/.netlify/functions/previous-firms', expect.anything()));
+      await enterFirm(user, 'Lovells');
+      await user.click(screen.getByRole('button', { name: 'Add as a new entry' }));
+
+      expect(screen.queryByText(/update it instead\?/)).not.toBeInTheDocument();
+      expect(screen.getByLabelText(/Contact Name/)).toHaveValue('');
+    });
+
+    it('does not look up earlier firms without an invite', async () => {
+      const fetchMock = mockFetch(() => jsonResponse({}), [EARLIER_HOGAN_LOVELLS]);
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, 'Hogan Lovells');
+
+      expect(screen.getByRole('button', { name: 'Save Contact' })).toBeInTheDocument();
+      expect(fetchMock.mock.calls.some(([input]) => String(input).endsWith('/previous-firms'))).toBe(false);
+    });
+  });
+
+  describe('submitting', () => {
+    it('asks for consent, then submits and shows the completed form', async () => {
+      const fetchMock = mockFetch(() => jsonResponse({ success: true, submissionId: 'sub-1', message: 'ok' }));
+      const { user, onComplete } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await user.click(screen.getByRole('button', { name: /^Submit/ }));
+
+      expect(screen.getByText(PRIVACY_NOTICE.title)).toBeInTheDocument();
+      expect(submitRequests(fetchMock)).toHaveLength(0);
+
+      await user.click(screen.getByRole('radio', { name: 'Warm email intro' }));
+      await user.click(screen.getByRole('checkbox'));
+      await user.click(screen.getByRole('button', { name: 'Agree and submit' }));
+
+      expect(await screen.findByText('Form Complete')).toBeInTheDocument();
+
+      const [[, init]] = submitRequests(fetchMock);
+      expect(init?.method).toBe('POST');
+      expect(JSON.parse(String(init?.body))).toMatchObject({
+        userEmail: 'advisor@example.com',
+        firms: [expect.objectContaining({ firmName: UNLISTED_FIRM, isMatched: false })],
+        consent: { privacyNoticeVersion: PRIVACY_NOTICE.version, introPreference: 'warm-email' },
+        botCheck: { honeypot: '', fillTimeMs: expect.any(Number) }
+      });
+      expect(init?.headers).toMatchObject({ 'X-Proof-Of-Work': 'proof-of-work', 'X-CSRF-Token': 'csrf-token' });
+      expect(onComplete).toHaveBeenCalledWith(
+        [expect.objectContaining({ firmName: UNLISTED_FIRM })],
+        'advisor@example.com'
+      );
+    });
+
+    it('keeps a failed submission for retrying and offers to try again', async () => {
+      mockFetch(() => jsonResponse({ error: 'Failed to send' }, 500));
+      const { user, onComplete } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      expect(await screen.findByText("We couldn't submit your form")).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Try again' })).toBeInTheDocument();
+      expect(screen.queryByText('Form Complete')).not.toBeInTheDocument();
+      expect(onComplete).not.toHaveBeenCalled();
+
+      const queue = JSON.parse(localStorage.getItem('advisor-form:submission-queue') ?? '[]');
+      expect(queue).toHaveLength(1);
+      expect(queue[0].payload.firms[0].firmName).toBe(UNLISTED_FIRM);
+    });
+
+    it('delivers the queued submission when the advisor tries again', async () => {
+      let failing = true;
+      const fetchMock = mockFetch(() => failing
+        ? jsonResponse({ error: 'Failed to send' }, 500)
+        : jsonResponse({ success: true, submissionId: 'sub-1', message: 'ok' })
+      );
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      failing = false;
+      await user.click(await screen.findByRole('button', { name: 'Try again' }));
+
+      expect(await screen.findByText('Form Complete')).toBeInTheDocument();
+      expect(submitRequests(fetchMock)).toHaveLength(2);
+      await waitFor(() => expect(localStorage.getItem('advisor-form:submission-queue')).toBeNull());
+    });
+
+    it('sends the same idempotency key with every attempt to submit the draft', async () => {
+      let failing = true;
+      const fetchMock = mockFetch(() => failing
+        ? jsonResponse({ error: 'Failed to send' }, 500)
+        : jsonResponse({ success: true, submissionId: 'sub-1', message: 'ok' })
+      );
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      failing = false;
+      await user.click(await screen.findByRole('button', { name: 'Try again' }));
+      await screen.findByText('Form Complete');
+
+      const [firstKey, retryKey] = submissionKeys(fetchMock);
+      expect(firstKey).toMatch(/^[0-9a-f-]{36}$/);
+      expect(retryKey).toBe(firstKey);
+    });
+
+    it('sends changed answers under a new key once the server has the earlier version', async () => {
+      let conflict = true;
+      const fetchMock = mockFetch(() => conflict
+        ? jsonResponse({ error: 'Submission key already used', message: 'We already received an earlier version of these answers.' }, 409)
+        : jsonResponse({ success: true, submissionId: 'sub-2', message: 'ok' })
+      );
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      expect(await screen.findByText('We already received an earlier version of these answers.')).toBeInTheDocument();
+      expect(screen.queryByText("We couldn't submit your form")).not.toBeInTheDocument();
+      expect(localStorage.getItem('advisor-form:submission-queue')).toBeNull();
+
+      conflict = false;
+      await user.click(screen.getByRole('button', { name: /^Submit/ }));
+      await user.click(screen.getByRole('button', { name: 'Agree and submit' }));
+      await screen.findByText('Form Complete');
+
+      const [firstKey, secondKey] = submissionKeys(fetchMock);
+      expect(secondKey).toBeDefined();
+      expect(secondKey).not.toBe(firstKey);
+    });
+
+    it('disables the submit button while a retry is in flight', async () => {
+      let respond: (response: Response) => void = () => {};
+      mockFetch(() => jsonResponse({ error: 'Failed to send' }, 500));
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      // Hold the retry open until the buttons have been checked
+      vi.mocked(fetch).mockImplementationOnce(() => new Promise(resolve => { respond = resolve; }));
+      await user.click(await screen.findByRole('button', { name: 'Try again' }));
+
+      expect(screen.getByRole('button', { name: 'Submitting...' })).toBeDisabled();
+      expect(screen.getByRole('button', { name: 'Retrying...' })).toBeDisabled();
+
+      respond(jsonResponse({ success: true, submissionId: 'sub-1', message: 'ok' }));
+      expect(await screen.findByText('Form Complete')).toBeInTheDocument();
+    });
+
+    it('does not send a queued retry while the advisor is trying again', async () => {
+      let respond: (response: Response) => void = () => {};
+      const fetchMock = mockFetch(() => jsonResponse({ error: 'Failed to send' }, 500));
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      // Hold "Try again" open past the moment the queued retry falls due
+      vi.mocked(fetch).mockImplementationOnce(() => new Promise(resolve => { respond = resolve; }));
+      await user.click(await screen.findByRole('button', { name: 'Try again' }));
+      await new Promise(resolve => setTimeout(resolve, 2500));
+
+      expect(submitRequests(fetchMock)).toHaveLength(2);
+
+      respond(jsonResponse({ success: true, submissionId: 'sub-1', message: 'ok' }));
+      expect(await screen.findByText('Form Complete')).toBeInTheDocument();
+      expect(submitRequests(fetchMock)).toHaveLength(2);
+    }, 10_000);
+
+    it('queues a submission the server is still processing instead of starting over', async () => {
+      const fetchMock = mockFetch(() => jsonResponse(
+        { error: 'Submission in progress', message: 'We are still processing this submission.' },
+        409,
+        { 'Retry-After': '2' }
+      ));
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      expect(await screen.findByText("We couldn't submit your form")).toBeInTheDocument();
+      const queue = JSON.parse(localStorage.getItem('advisor-form:submission-queue') ?? '[]');
+      expect(queue).toHaveLength(1);
+      expect(queue[0].idempotencyKey).toBe(submissionKeys(fetchMock)[0]);
+    });
+
+    it('asks the advisor to contact support once automatic retries have run out', async () => {
+      mockFetch(() => jsonResponse({ error: 'Failed to send' }, 500));
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+      expect(await screen.findByText(/we'll keep retrying automatically/)).toBeInTheDocument();
+
+      const queue = JSON.parse(localStorage.getItem('advisor-form:submission-queue') ?? '[]');
+      localStorage.setItem('advisor-form:submission-queue', JSON.stringify([{ ...queue[0], attempts: 7 }]));
+      await user.click(screen.getByRole('button', { name: 'Try again' }));
+
+      expect(await screen.findByText(/we've stopped retrying automatically/)).toBeInTheDocument();
+      expect(screen.queryByText(/we'll keep retrying automatically/)).not.toBeInTheDocument();
+    });
+
+    it('waits as long as a rate-limited server asks before retrying', async () => {
+      mockFetch(() => jsonResponse({ error: 'Too many submissions' }, 429, { 'Retry-After': '120' }));
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      expect(await screen.findByText("We couldn't submit your form")).toBeInTheDocument();
+      const queue = JSON.parse(localStorage.getItem('advisor-form:submission-queue') ?? '[]');
+      expect(queue[0].nextAttemptAt).toBeGreaterThanOrEqual(Date.now() + 119_000);
+    });
+
+    it('drops a queued submission the server refuses on retry and shows the reason', async () => {
+      let failing = true;
+      mockFetch(() => failing
+        ? jsonResponse({ error: 'Failed to send' }, 500)
+        : jsonResponse({ error: 'Unauthorized', message: 'This invite link is not valid.' }, 401)
+      );
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+      expect(await screen.findByText("We couldn't submit your form")).toBeInTheDocument();
+
+      failing = false;
+
+      expect(await screen.findByText('This invite link is not valid.', {}, { timeout: 4000 })).toBeInTheDocument();
+      expect(screen.queryByText("We couldn't submit your form")).not.toBeInTheDocument();
+      expect(localStorage.getItem('advisor-form:submission-queue')).toBeNull();
+    }, 10_000);
+
+    it('shows the reason and does not queue a submission the server refused', async () => {
+      mockFetch(() => jsonResponse({ error: 'Unauthorized', message: 'This invite link is not valid.' }, 401));
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      expect(await screen.findByText('Please check your answers')).toBeInTheDocument();
+      expect(screen.getByText('This invite link is not valid.')).toBeInTheDocument();
+      expect(screen.queryByText("We couldn't submit your form")).not.toBeInTheDocument();
+      expect(localStorage.getItem('advisor-form:submission-queue')).toBeNull();
+    });
+
+    it('does not queue a submission turned away as automated', async () => {
+      mockFetch(() => jsonResponse({ error: 'Submission rejected', message: "We couldn't accept this submission." }, 400));
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      expect(await screen.findByText("We couldn't accept this submission.")).toBeInTheDocument();
+      expect(localStorage.getItem('advisor-form:submission-queue')).toBeNull();
+    });
+
+    it('reloads the firm list when the server no longer knows a firm the advisor picked', async () => {
+      const fetchMock = mockFetch(() => jsonResponse({
+        error: 'Invalid submission',
+        details: [{ field: 'firms[0].firmName', message: 'Blank Rome has changed on our list of firms. Please remove it and add it again' }]
+      }, 400));
+      const { user } = renderForm();
+
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+
+      expect(await screen.findByText('Blank Rome has changed on our list of firms. Please remove it and add it again')).toBeInTheDocument();
+      await waitFor(() => expect(fetchMock).toHaveBeenCalledWith(expect.stringMatching(/\/prospects$/), { cache: 'no-cache' }));
+    });
+
+    it('sends what a bot typed into the hidden field', async () => {
+      const fetchMock = mockFetch(() => jsonResponse({ success: true, submissionId: 'sub-1', message: 'ok' }));
+      const { user } = renderForm();
+
+      const honeypot = document.getElementById('company_website') as HTMLInputElement;
+      expect(honeypot).toHaveAttribute('tabindex', '-1');
+      await user.type(honeypot, 'https://spam.example');
+      await enterEmail(user);
+      await enterFirm(user, UNLISTED_FIRM);
+      await agreeAndSubmit(user);
+      await screen.findByText('Form Complete');
+
+      const [[, init]] = submitRequests(fetchMock);
+      expect(JSON.parse(String(init?.body)).botCheck.honeypot).toBe('https://spam.example');
+    });
+  });
+});
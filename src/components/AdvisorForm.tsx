@@ -1,22 +1,105 @@
-import { useState, useCallback } from 'react';
-import type { AdvisorFormState, FirmEntry, ContactFormData } from '../types';
+import { useState, useCallback, useEffect, useImperativeHandle, useRef, type Ref } from 'react';
+import type { AdvisorConsent, AdvisorFormDraft, AdvisorFormState, Campaign, FirmEntry, ContactFormData, FirmSuggestion, InviteClaims, PreviousEntryRef, PreviousFirmEntry, RejectedSubmission, SubmitFormPayload, SubmitFormResponse } from '../types';
 import { FirmService } from '../services/FirmService';
+import { DraftService } from '../services/DraftService';
+import { SubmissionError, SubmissionService } from '../services/SubmissionService';
+import { isValidEmail, validateSubmission } from '../shared/submissionSchema';
+import { DEFAULT_CAMPAIGN } from '../shared/campaigns';
+import { decodeInviteToken, isInviteExpired } from '../shared/inviteToken';
+import { toContactFormData } from '../shared/contactOptions';
+import Button from './Button';
+import InlineBanner from './InlineBanner';
 import FirmInputStep from './FirmInputStep';
 import ContactDetailsStep from './ContactDetailsStep';
+import ConsentStep from './ConsentStep';
 import FormCompleteStep from './FormCompleteStep';
 import ErrorBoundary from './ErrorBoundary';
 
-const initialFormState: AdvisorFormState = {
-  currentStep: 'firm-input',
-  currentFirmName: '',
-  currentFirmMatched: false,
-  enteredFirms: [],
-  isFormComplete: false,
-  maxFirms: 5,
-  userEmail: ''
+/**
+ * Slug recorded on drafts and submissions; the default form records none
+ */
+function campaignSlug(campaign: Campaign): string | undefined {
+  return campaign.slug === DEFAULT_CAMPAIGN.slug ? undefined : campaign.slug;
+}
+
+type Invite =
+  | { status: 'valid'; token: string; claims: InviteClaims }
+  | { status: 'expired' | 'wrong-campaign' | 'invalid' };
+
+const INVITE_PROBLEMS: Record<Exclude<Invite['status'], 'valid'>, string> = {
+  expired: 'This invite link has expired. Please ask the person who sent it for a new one.',
+  'wrong-campaign': 'This invite link is for a different page. Please open the exact link you were sent.',
+  invalid: "This invite link isn't complete. Please open the exact link you were sent."
 };
 
+const NO_INVITE = 'This form is for invited advisors. Please open the invite link you were sent, or ask the person who told you about it for one.';
+
+/**
+ * Read the invite from the link the form was opened with. The signature is checked
+ * by submit-form; here the claims only prefill the form.
+ */
+function readInvite(token: string | undefined, campaign: Campaign): Invite | null {
+  if (!token) {
+    return null;
+  }
+
+  const claims = decodeInviteToken(token);
+  if (!claims) {
+    return { status: 'invalid' };
+  }
+  if (isInviteExpired(claims)) {
+    return { status: 'expired' };
+  }
+  if (claims.campaign !== campaignSlug(campaign)) {
+    return { status: 'wrong-campaign' };
+  }
+  return { status: 'valid', token, claims };
+}
+
+function createInitialFormState(campaign: Campaign, invite: Invite | null): AdvisorFormState {
+  const verified = invite?.status === 'valid' ? invite : null;
+
+  return {
+    currentStep: 'firm-input',
+    currentFirmId: '',
+    currentFirmName: '',
+    currentFirmMatched: false,
+    enteredFirms: [],
+    isFormComplete: false,
+    maxFirms: campaign.maxFirms,
+    userEmail: verified?.claims.email ?? '',
+    campaign: campaignSlug(campaign),
+    inviteToken: verified?.token,
+    startedAt: Date.now()
+  };
+}
+
+/**
+ * A firm the advisor is entering again, and their latest earlier entry for it
+ */
+interface PreviousFirmPrompt {
+  enteredName: string;
+  previous: PreviousFirmEntry;
+}
+
+/**
+ * Lets the page showing the entered firms change them, since the form owns the list
+ */
+export interface AdvisorFormHandle {
+  /** Reopen the contact details for an entered firm */
+  editFirm: (firmId: string) => void;
+  /** Remove an entered firm, returning it and where it was so it can be restored */
+  removeFirm: (firmId: string) => { firm: FirmEntry; index: number } | null;
+  /** Put a removed firm back where it was; false if the list has changed so it no longer fits */
+  restoreFirm: (firm: FirmEntry, index: number) => boolean;
+}
+
 interface AdvisorFormProps {
+  ref?: Ref<AdvisorFormHandle>;
+  /** The campaign whose firms, firm limit and draft the form uses */
+  campaign?: Campaign;
+  /** Signed invite token from the link the advisor opened */
+  inviteToken?: string;
   onComplete?: (firms: FirmEntry[], userEmail: string) => void;
   onToast?: (message: string) => void;
   onFirmsChange?: (firms: FirmEntry[]) => void;
@@ -24,17 +107,206 @@ interface AdvisorFormProps {
   onFormStateChange?: (isComplete: boolean) => void;
 }
 
-export function AdvisorForm({ onComplete, onToast, onFirmsChange, onRemoveFirm, onFormStateChange }: AdvisorFormProps) {
-  const [formState, setFormState] = useState<AdvisorFormState>(initialFormState);
+export function AdvisorForm({ ref, campaign = DEFAULT_CAMPAIGN, inviteToken, onComplete, onToast, onFirmsChange, onRemoveFirm, onFormStateChange }: AdvisorFormProps) {
+  const [invite] = useState(() => readInvite(inviteToken, campaign));
+  const [formState, setFormState] = useState<AdvisorFormState>(() => createInitialFormState(campaign, invite));
   const [loading, setLoading] = useState(false);
   const [firmInputError, setFirmInputError] = useState<string>('');
   const [currentFirmInput, setCurrentFirmInput] = useState<string>('');
   const [emailError, setEmailError] = useState<string>('');
+  const [firmSuggestion, setFirmSuggestion] = useState<FirmSuggestion | null>(null);
+  const [previousFirms, setPreviousFirms] = useState<PreviousFirmEntry[]>([]);
+  const [previousFirmsVersion, setPreviousFirmsVersion] = useState(0);
+  const [previousFirmPrompt, setPreviousFirmPrompt] = useState<PreviousFirmPrompt | null>(null);
+  const [contactDraft, setContactDraft] = useState<ContactFormData[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // Filled in only by bots, which complete every field they find
+  const [honeypot, setHoneypot] = useState('');
+  // Set synchronously, so a second click before the re-render can't post the submission twice
+  const submittingRef = useRef(false);
+  const [validationError, setValidationError] = useState<string>('');
+  const [queueVersion, setQueueVersion] = useState(0);
+  const [deliveredSubmissionIds, setDeliveredSubmissionIds] = useState<string[]>([]);
+  const [rejectedSubmissions, setRejectedSubmissions] = useState<RejectedSubmission[]>([]);
+  const [inviteRefusal, setInviteRefusal] = useState<string | null>(null);
+  const [savedDraft, setSavedDraft] = useState<AdvisorFormDraft | null>(() => {
+    const draft = DraftService.load(campaignSlug(campaign));
+    return draft && DraftService.hasContent(draft.formState) ? draft : null;
+  });
+
+  // Match against the campaign's firms on the current prospect list rather than only the one bundled at build time
+  useEffect(() => {
+    FirmService.setFirmScope(campaign.firmIds ?? null);
+    FirmService.loadFirms();
+  }, [campaign]);
+
+  // Stop before the first step if submit-form would refuse the submission for want of a usable invite
+  useEffect(() => {
+    const token = invite?.status === 'valid' ? invite.token : undefined;
+    const problem = !invite ? NO_INVITE : invite.status === 'valid' ? null : INVITE_PROBLEMS[invite.status];
+
+    let cancelled = false;
+    SubmissionService.checkInvite(token)
+      .then(({ required }) => {
+        if (!cancelled && required && problem) {
+          setInviteRefusal(problem);
+        }
+      })
+      .catch(error => {
+        if (cancelled) {
+          return;
+        }
+        if (error instanceof SubmissionError && error.status === 401) {
+          setInviteRefusal(error.message);
+        } else {
+          // submit-form checks the invite again, so the form stays open when the check can't be made
+          console.error('Error checking invite:', error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [invite]);
+
+  // An invited advisor can update what they shared in earlier submissions instead of entering it again
+  useEffect(() => {
+    if (!formState.inviteToken) {
+      return;
+    }
+
+    let cancelled = false;
+    SubmissionService.getPreviousFirms(formState.inviteToken)
+      .then(firms => {
+        if (!cancelled) {
+          setPreviousFirms(firms);
+        }
+      })
+      .catch(error => console.error('Error loading earlier submissions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formState.inviteToken, previousFirmsVersion]);
+
+  // Persist the in-progress form, but never overwrite a draft the advisor hasn't decided on yet
+  useEffect(() => {
+    if (savedDraft || formState.isFormComplete) {
+      return;
+    }
+
+    if (DraftService.hasContent(formState)) {
+      DraftService.save({ formState, contactForm: contactDraft });
+    } else {
+      DraftService.clear(formState.campaign);
+    }
+  }, [formState, contactDraft, savedDraft]);
+
+  const handleResumeDraft = useCallback(() => {
+    if (!savedDraft) return;
+
+    // The campaign's current firm limit applies, even if it changed since the draft was saved,
+    // and an invite link opened now decides the email address
+    setFormState({
+      ...savedDraft.formState,
+      maxFirms: campaign.maxFirms,
+      isFormComplete: false,
+      // Drafts saved before the form recorded when it was opened were started no later than saved
+      startedAt: savedDraft.formState.startedAt ?? savedDraft.savedAt.getTime(),
+      ...(invite?.status === 'valid' ? { userEmail: invite.claims.email, inviteToken: invite.token } : {})
+    });
+    setContactDraft(savedDraft.contactForm);
+    setSavedDraft(null);
+
+    if (onFirmsChange) {
+      onFirmsChange(savedDraft.formState.enteredFirms);
+    }
+  }, [savedDraft, campaign.maxFirms, invite, onFirmsChange]);
+
+  const handleDiscardDraft = useCallback(() => {
+    DraftService.clear(campaignSlug(campaign));
+    setSavedDraft(null);
+  }, [campaign]);
 
   const remainingFirms = formState.maxFirms - formState.enteredFirms.length;
 
+  const isFirmAlreadyEntered = useCallback((firmName: string, firmId?: string) => {
+    return formState.enteredFirms.some(
+      entry => (firmId && entry.firmId === firmId) ||
+        entry.firmName.toLowerCase() === firmName.toLowerCase()
+    );
+  }, [formState.enteredFirms]);
+
+  const startContactDetails = useCallback((firmId: string, firmName: string, amends?: PreviousEntryRef, contacts?: ContactFormData[]) => {
+    // Matched firm: go to contact details step
+    setContactDraft(contacts ?? null);
+    setFormState(prev => ({
+      ...prev,
+      currentFirmId: firmId,
+      currentFirmName: firmName,
+      currentFirmMatched: true,
+      currentFirmAmends: amends,
+      currentStep: 'contact-details',
+      editingFirmId: undefined
+    }));
+  }, []);
+
+  const addUnmatchedFirm = useCallback((firmName: string, amends?: PreviousEntryRef) => {
+    // Unmatched firm: add to list immediately and show toast
+    const newFirmEntry: FirmEntry = {
+      id: crypto.randomUUID(),
+      firmName,
+      isMatched: false,
+      timestamp: new Date(),
+      ...(amends ? { amends } : {})
+    };
+
+    setFormState(prev => {
+      const updatedFirms = [...prev.enteredFirms, newFirmEntry];
+      if (onFirmsChange) {
+        onFirmsChange(updatedFirms);
+      }
+      return {
+        ...prev,
+        enteredFirms: updatedFirms,
+        currentFirmId: '',
+        currentFirmName: '',
+        currentFirmMatched: false,
+        currentStep: 'firm-input'
+      };
+    });
+
+    // Show toast notification
+    if (onToast) {
+      onToast(amends
+        ? `Thank you! Your earlier entry for ${firmName} will be updated when you submit.`
+        : `Thank you! We'll be in touch with you about ${firmName}.`);
+    }
+  }, [onFirmsChange, onToast]);
+
+  const continueWithFirm = useCallback((firmName: string) => {
+    // Check if firm, or one of its aliases, matches our database
+    const matchedFirm = FirmService.resolveFirm(firmName);
+
+    if (matchedFirm) {
+      startContactDetails(matchedFirm.id, matchedFirm.name);
+      return;
+    }
+
+    // Offer the closest firm on our list before treating the entry as unmatched
+    const [bestMatch] = FirmService.findMatches(firmName, 1);
+    if (bestMatch && !isFirmAlreadyEntered(bestMatch.firmName, bestMatch.firmId)) {
+      setFirmSuggestion({ enteredName: firmName, match: bestMatch });
+      return;
+    }
+
+    addUnmatchedFirm(firmName);
+  }, [isFirmAlreadyEntered, startContactDetails, addUnmatchedFirm]);
+
   const handleFirmSubmit = useCallback((firmName: string) => {
     setFirmInputError('');
+    setFirmSuggestion(null);
+    setPreviousFirmPrompt(null);
 
     // Validate email is provided and valid before allowing any firm submission
     if (!formState.userEmail) {
@@ -42,84 +314,122 @@ export function AdvisorForm({ onComplete, onToast, onFirmsChange, onRemoveFirm,
       return;
     }
 
-    if (!validateEmail(formState.userEmail)) {
+    if (!isValidEmail(formState.userEmail)) {
       setEmailError('Please enter a valid email address before adding a firm');
       return;
     }
 
-    // Check if firm already entered
-    const isAlreadyEntered = formState.enteredFirms.some(
-      entry => entry.firmName.toLowerCase() === firmName.toLowerCase()
-    );
+    // Check if firm, or one of its aliases, matches our database
+    const matchedFirm = FirmService.resolveFirm(firmName);
 
-    if (isAlreadyEntered) {
+    // Check if firm already entered
+    if (isFirmAlreadyEntered(firmName, matchedFirm?.id) || (matchedFirm && isFirmAlreadyEntered(matchedFirm.name))) {
       setFirmInputError('This firm has already been entered');
       return;
     }
 
-    // Check if firm matches our database
-    const isMatched = FirmService.isValidFirm(firmName);
-    const exactFirmName = FirmService.getExactFirmName(firmName) || firmName;
-
     // Clear the input field
     setCurrentFirmInput('');
 
-    if (isMatched) {
-      // Matched firm: go to contact details step
-      setFormState(prev => ({
-        ...prev,
-        currentFirmName: exactFirmName,
-        currentFirmMatched: isMatched,
-        currentStep: 'contact-details'
-      }));
-    } else {
-      // Unmatched firm: add to list immediately and show toast
-      const newFirmEntry: FirmEntry = {
-        id: crypto.randomUUID(),
-        firmName: exactFirmName,
-        isMatched: false,
-        timestamp: new Date()
-      };
+    // Offer to update the advisor's earlier entry for the firm rather than adding it again
+    const previous = previousFirms.find(entry =>
+      (matchedFirm && entry.firmId === matchedFirm.id) ||
+      entry.firmName.toLowerCase() === firmName.toLowerCase() ||
+      entry.firmName.toLowerCase() === matchedFirm?.name.toLowerCase()
+    );
+    if (previous) {
+      setPreviousFirmPrompt({ enteredName: firmName, previous });
+      return;
+    }
 
-      setFormState(prev => {
-        const updatedFirms = [...prev.enteredFirms, newFirmEntry];
-        if (onFirmsChange) {
-          onFirmsChange(updatedFirms);
-        }
-        return {
-          ...prev,
-          enteredFirms: updatedFirms,
-          currentFirmName: '',
-          currentFirmMatched: false,
-          currentStep: 'firm-input'
-        };
-      });
+    continueWithFirm(firmName);
+  }, [formState.userEmail, isFirmAlreadyEntered, previousFirms, continueWithFirm]);
 
-      // Show toast notification
-      if (onToast) {
-        onToast(`Thank you! We'll be in touch with you about ${exactFirmName}.`);
-      }
+  const handleUpdatePreviousFirm = useCallback(() => {
+    if (!previousFirmPrompt) return;
+    const { enteredName, previous } = previousFirmPrompt;
+    const amends = { submissionId: previous.submissionId, entryId: previous.entryId };
+    setPreviousFirmPrompt(null);
+
+    const matchedFirm = FirmService.resolveFirm(enteredName);
+    if (matchedFirm) {
+      startContactDetails(matchedFirm.id, matchedFirm.name, amends, toContactFormData(previous.contacts));
+      return;
     }
-  }, [formState.enteredFirms, formState.userEmail, onFirmsChange, onToast]);
 
-  const handleContactSubmit = useCallback((contactData: ContactFormData) => {
-    console.log('handleContactSubmit called with:', contactData);
+    addUnmatchedFirm(enteredName, amends);
+  }, [previousFirmPrompt, startContactDetails, addUnmatchedFirm]);
+
+  const handleAddPreviousFirmAsNew = useCallback(() => {
+    if (!previousFirmPrompt) return;
+    setPreviousFirmPrompt(null);
+    continueWithFirm(previousFirmPrompt.enteredName);
+  }, [previousFirmPrompt, continueWithFirm]);
+
+  const handleSuggestionAccept = useCallback(() => {
+    if (!firmSuggestion) return;
+    setFirmSuggestion(null);
+    startContactDetails(firmSuggestion.match.firmId, firmSuggestion.match.firmName);
+  }, [firmSuggestion, startContactDetails]);
+
+  const handleSuggestionReject = useCallback(() => {
+    if (!firmSuggestion) return;
+    setFirmSuggestion(null);
+    addUnmatchedFirm(firmSuggestion.enteredName);
+  }, [firmSuggestion, addUnmatchedFirm]);
+
+  const handleContactSubmit = useCallback((contacts: ContactFormData[]) => {
+    console.log(`handleContactSubmit called with ${contacts.length} contacts`);
     setLoading(true);
 
     // Simulate API call
     setTimeout(() => {
+      if (formState.editingFirmId) {
+        const editingFirmId = formState.editingFirmId;
+        setContactDraft(null);
+
+        // Update the entry where it is, keeping its id and place in the list
+        setFormState(prev => {
+          const updatedFirms = prev.enteredFirms.map(entry => entry.id === editingFirmId
+            ? { ...entry, contacts }
+            : entry
+          );
+          if (onFirmsChange) {
+            onFirmsChange(updatedFirms);
+          }
+          return {
+            ...prev,
+            enteredFirms: updatedFirms,
+            currentStep: 'firm-input',
+            currentFirmId: '',
+            currentFirmName: '',
+            currentFirmMatched: false,
+            editingFirmId: undefined
+          };
+        });
+
+        if (onToast) {
+          onToast(`Your contacts at ${formState.currentFirmName} have been updated.`);
+        }
+
+        setLoading(false);
+        return;
+      }
+
+      const amends = formState.currentFirmAmends;
       const newFirmEntry: FirmEntry = {
         id: crypto.randomUUID(),
+        firmId: formState.currentFirmId,
         firmName: formState.currentFirmName,
         isMatched: true,
-        contactName: contactData.name,
-        contactDesignation: contactData.designation,
-        relationshipStrength: contactData.relationshipStrength,
-        contactFrequency: contactData.contactFrequency,
-        timestamp: new Date()
+        contacts,
+        timestamp: new Date(),
+        ...(amends ? { amends } : {})
       };
 
-      console.log('Creating new firm entry:', newFirmEntry);
+      console.log('Creating new firm entry:', newFirmEntry.id);
+
+      setContactDraft(null);
 
       setFormState(prev => {
         const updatedFirms = [...prev.enteredFirms, newFirmEntry];
@@ -130,110 +440,266 @@ export function AdvisorForm({ onComplete, onToast, onFirmsChange, onRemoveFirm,
           ...prev,
           enteredFirms: updatedFirms,
           currentStep: 'firm-input',
+          currentFirmId: '',
           currentFirmName: '',
-          currentFirmMatched: false
+          currentFirmMatched: false,
+          currentFirmAmends: undefined
         };
       });
 
       // Show toast notification for matched firm
       if (onToast) {
-        onToast(`Thank you! We'll be in touch with you about ${formState.currentFirmName}.`);
+        onToast(amends
+          ? `Thank you! Your contacts at ${formState.currentFirmName} will be updated when you submit.`
+          : `Thank you! We'll be in touch with you about ${formState.currentFirmName}.`);
       }
 
       console.log('Returning to firm-input step');
       setLoading(false);
     }, 1000);
-  }, [formState.currentFirmName]);
+  }, [formState.currentFirmId, formState.currentFirmName, formState.currentFirmAmends, formState.editingFirmId, onFirmsChange, onToast]);
 
   const handleContactCancel = useCallback(() => {
+    setContactDraft(null);
     setFormState(prev => ({
       ...prev,
       currentStep: 'firm-input',
+      currentFirmId: '',
       currentFirmName: '',
-      currentFirmMatched: false
+      currentFirmMatched: false,
+      currentFirmAmends: undefined,
+      editingFirmId: undefined
     }));
   }, []);
 
 
-  const handleFinish = useCallback(async () => {
+  const completeSubmission = useCallback((firms: FirmEntry[], userEmail: string, submissionId?: string) => {
+    DraftService.clear(campaignSlug(campaign));
+    if (submissionId) {
+      SubmissionService.remove(submissionId);
+    }
+
+    setFormState(prev => ({
+      ...prev,
+      isFormComplete: true,
+      enteredFirms: firms,
+      pendingSubmissionId: undefined
+    }));
+
+    if (onFormStateChange) {
+      onFormStateChange(true);
+    }
+
+    if (onComplete) {
+      onComplete(firms, userEmail);
+    }
+  }, [campaign, onComplete, onFormStateChange]);
+
+  const handleFinish = useCallback(async (consent: AdvisorConsent | undefined = formState.consent) => {
+    if (submittingRef.current) {
+      return;
+    }
+
     // Validate email is provided and valid
     if (!formState.userEmail) {
       setEmailError('Please enter your email address');
       return;
     }
 
-    if (!validateEmail(formState.userEmail)) {
+    if (!isValidEmail(formState.userEmail)) {
       setEmailError('Please enter a valid email address');
       return;
     }
 
-    // No need to check for thank-you step since unmatched firms are added immediately
-    let finalFirms = formState.enteredFirms;
+    // Nothing is sent until the advisor has agreed to the privacy notice
+    if (!consent) {
+      setFormState(prev => ({ ...prev, currentStep: 'consent' }));
+      return;
+    }
+
+    // Run the same checks submit-form applies so invalid data never leaves the browser
+    const validation = validateSubmission({
+      firms: formState.enteredFirms,
+      userEmail: formState.userEmail,
+      campaign: formState.campaign,
+      inviteToken: formState.inviteToken,
+      consent,
+      botCheck: { honeypot, fillTimeMs: Date.now() - (formState.startedAt ?? Date.now()) }
+    }, formState.maxFirms);
+
+    if (!validation.valid) {
+      console.error('Submission failed validation:', validation.errors);
+      setValidationError(validation.errors.map(error => error.message).join('. '));
+      setFormState(prev => ({ ...prev, currentStep: 'firm-input' }));
+      return;
+    }
+
+    const payload: SubmitFormPayload = validation.value;
+
+    // One key per draft, kept with it, so every attempt to submit this draft is processed once
+    const submissionKey = formState.submissionKey ?? crypto.randomUUID();
+    setFormState(prev => ({ ...prev, submissionKey }));
+
+    setValidationError('');
+    submittingRef.current = true;
+    setSubmitting(true);
 
     // Submit to Netlify function
     try {
-      const response = await fetch('/.netlify/functions/submit-form', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          firms: finalFirms,
-          userEmail: formState.userEmail
-        })
-      });
+      const result: SubmitFormResponse = await SubmissionService.submit(payload, submissionKey);
+      console.log('Form submitted successfully:', result.submissionId);
+
+      completeSubmission(payload.firms, payload.userEmail, formState.pendingSubmissionId);
+    } catch (error) {
+      console.error('Error submitting form:', error);
 
-      if (!response.ok) {
-        throw new Error('Failed to submit form');
+      // An earlier version of the answers was received under this key, so the changes
+      // need a key of their own to be sent. A 409 with Retry-After only means an earlier
+      // attempt is still being processed, so it is queued like any other retry.
+      if (error instanceof SubmissionError && error.status === 409 && error.retryAfterMs === undefined) {
+        if (formState.pendingSubmissionId) {
+          SubmissionService.remove(formState.pendingSubmissionId);
+        }
+        setValidationError(error.message);
+        setFormState(prev => ({
+          ...prev,
+          currentStep: 'firm-input',
+          pendingSubmissionId: undefined,
+          submissionKey: undefined
+        }));
+        return;
       }
 
-      const result = await response.json();
-      console.log('Form submitted successfully:', result);
+      // A rejected invite or submission will be rejected again, so retrying would not help
+      if (!SubmissionService.isRetryable(error)) {
+        // The server may know firms this page's cached list doesn't, so match the next attempt against its list
+        if (error instanceof SubmissionError && error.status === 400) {
+          FirmService.loadFirms(true);
+        }
+        if (formState.pendingSubmissionId) {
+          SubmissionService.remove(formState.pendingSubmissionId);
+        }
+        setValidationError(error instanceof Error ? error.message : String(error));
+        setFormState(prev => ({ ...prev, currentStep: 'firm-input', pendingSubmissionId: undefined }));
+        return;
+      }
 
+      // Keep the submission so it can be retried, including after a reload, no sooner than the server asked
+      const retryAfterMs = error instanceof SubmissionError ? error.retryAfterMs : undefined;
+      const queued = SubmissionService.enqueue(payload, formState.pendingSubmissionId, submissionKey, retryAfterMs);
       setFormState(prev => ({
         ...prev,
-        isFormComplete: true,
-        enteredFirms: finalFirms
+        currentStep: 'firm-input',
+        pendingSubmissionId: queued.id
       }));
+      setQueueVersion(version => version + 1);
+    } finally {
+      submittingRef.current = false;
+      setSubmitting(false);
+    }
+  }, [formState.enteredFirms, formState.userEmail, formState.campaign, formState.inviteToken, formState.consent, formState.maxFirms, formState.pendingSubmissionId, formState.submissionKey, formState.startedAt, honeypot, completeSubmission]);
 
-      if (onFormStateChange) {
-        onFormStateChange(true);
-      }
+  const handleReviewConsent = useCallback(() => {
+    if (!formState.userEmail) {
+      setEmailError('Please enter your email address');
+      return;
+    }
 
-      if (onComplete) {
-        onComplete(finalFirms, formState.userEmail);
+    if (!isValidEmail(formState.userEmail)) {
+      setEmailError('Please enter a valid email address');
+      return;
+    }
+
+    setValidationError('');
+    setFormState(prev => ({ ...prev, currentStep: 'consent' }));
+  }, [formState.userEmail]);
+
+  const handleConsentSubmit = useCallback((consent: AdvisorConsent) => {
+    setFormState(prev => ({ ...prev, consent }));
+    handleFinish(consent);
+  }, [handleFinish]);
+
+  const handleConsentBack = useCallback(() => {
+    setFormState(prev => ({ ...prev, currentStep: 'firm-input' }));
+  }, []);
+
+  // Retry queued submissions with backoff whenever one is due. Retries and "Try again" share
+  // submittingRef, so the same submission is never in flight twice.
+  useEffect(() => {
+    const delay = SubmissionService.getNextRetryDelay();
+    if (delay === null || submitting) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      if (submittingRef.current) {
+        return;
       }
-    } catch (error) {
-      console.error('Error submitting form:', error);
-      // Still show completion screen even if Slack notification fails
-      setFormState(prev => ({
-        ...prev,
-        isFormComplete: true,
-        enteredFirms: finalFirms
-      }));
 
-      if (onFormStateChange) {
-        onFormStateChange(true);
+      submittingRef.current = true;
+      setSubmitting(true);
+      try {
+        const { delivered, rejected } = await SubmissionService.retryDue();
+        setDeliveredSubmissionIds(delivered);
+        setRejectedSubmissions(rejected);
+      } finally {
+        submittingRef.current = false;
+        setSubmitting(false);
+        setQueueVersion(version => version + 1);
       }
+    }, delay);
 
-      if (onComplete) {
-        onComplete(finalFirms, formState.userEmail);
+    return () => clearTimeout(timer);
+  }, [queueVersion, submitting]);
+
+  useEffect(() => {
+    if (deliveredSubmissionIds.length === 0) {
+      return;
+    }
+
+    if (formState.pendingSubmissionId && deliveredSubmissionIds.includes(formState.pendingSubmissionId)) {
+      completeSubmission(formState.enteredFirms, formState.userEmail);
+    } else if (savedDraft?.formState.pendingSubmissionId && deliveredSubmissionIds.includes(savedDraft.formState.pendingSubmissionId)) {
+      // The draft waiting to be resumed has now been delivered, so there is nothing left to resume
+      DraftService.clear(campaignSlug(campaign));
+      setSavedDraft(null);
+      if (onToast) {
+        onToast('Thank you! Your previous submission has now been received.');
       }
     }
-  }, [formState.currentStep, formState.currentFirmName, formState.enteredFirms, formState.userEmail, onComplete]);
+
+    setDeliveredSubmissionIds([]);
+  }, [deliveredSubmissionIds, formState.pendingSubmissionId, formState.enteredFirms, formState.userEmail, savedDraft, campaign, completeSubmission, onToast]);
+
+  // A queued submission the server refused has left the queue; tell the advisor why
+  useEffect(() => {
+    if (rejectedSubmissions.length === 0) {
+      return;
+    }
+
+    const rejected = rejectedSubmissions.find(entry => entry.id === formState.pendingSubmissionId);
+    if (rejected) {
+      setValidationError(rejected.message);
+      setFormState(prev => ({
+        ...prev,
+        pendingSubmissionId: undefined,
+        // The key already belongs to other answers, so the next attempt needs a new one
+        ...(rejected.status === 409 ? { submissionKey: undefined } : {})
+      }));
+    }
+
+    setRejectedSubmissions([]);
+  }, [rejectedSubmissions, formState.pendingSubmissionId]);
 
   const handleFirmInputChange = useCallback((value: string) => {
     setCurrentFirmInput(value);
+    setFirmSuggestion(null);
+    setPreviousFirmPrompt(null);
     if (firmInputError) {
       setFirmInputError('');
     }
   }, [firmInputError]);
 
-  const validateEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  };
-
   const handleEmailChange = useCallback((email: string) => {
     setFormState(prev => ({
       ...prev,
@@ -246,25 +712,53 @@ export function AdvisorForm({ onComplete, onToast, onFirmsChange, onRemoveFirm,
   }, [emailError]);
 
   const handleEmailBlur = useCallback(() => {
-    if (formState.userEmail && !validateEmail(formState.userEmail)) {
+    if (formState.userEmail && !isValidEmail(formState.userEmail)) {
       setEmailError('Please enter a valid email address');
     }
   }, [formState.userEmail]);
 
   const handleNewSubmission = useCallback(() => {
-    setFormState(initialFormState);
+    setFormState(createInitialFormState(campaign, invite));
     setCurrentFirmInput('');
     setFirmInputError('');
     setEmailError('');
+    setFirmSuggestion(null);
+    setPreviousFirmPrompt(null);
+    setValidationError('');
+    // The submission just made is now one of the advisor's earlier ones
+    setPreviousFirmsVersion(version => version + 1);
     if (onFormStateChange) {
       onFormStateChange(false);
     }
     if (onFirmsChange) {
       onFirmsChange([]);
     }
-  }, [onFormStateChange, onFirmsChange]);
+  }, [campaign, invite, onFormStateChange, onFirmsChange]);
+
+  const handleRestoreFirm = useCallback((firm: FirmEntry, index: number): boolean => {
+    // Another firm may have taken the free place, or the same firm been entered again, since it was removed
+    if (formState.enteredFirms.length >= formState.maxFirms || isFirmAlreadyEntered(firm.firmName, firm.firmId)) {
+      return false;
+    }
+
+    setFormState(prev => {
+      const updatedFirms = [...prev.enteredFirms];
+      updatedFirms.splice(Math.min(index, updatedFirms.length), 0, firm);
+      if (onFirmsChange) {
+        onFirmsChange(updatedFirms);
+      }
+      return {
+        ...prev,
+        enteredFirms: updatedFirms
+      };
+    });
+    return true;
+  }, [formState.enteredFirms.length, formState.maxFirms, isFirmAlreadyEntered, onFirmsChange]);
 
   const handleRemoveFirm = useCallback((firmId: string) => {
+    const index = formState.enteredFirms.findIndex(firm => firm.id === firmId);
+    if (index === -1) return null;
+
     setFormState(prev => {
       const updatedFirms = prev.enteredFirms.filter(firm => firm.id !== firmId);
       if (onFirmsChange) {
@@ -273,48 +767,192 @@ export function AdvisorForm({ onComplete, onToast, onFirmsChange, onRemoveFirm,
       if (onRemoveFirm) {
         onRemoveFirm(firmId);
       }
+
+      // Removing the firm being edited abandons the edit
+      const abandonEdit = prev.editingFirmId === firmId;
       return {
         ...prev,
-        enteredFirms: updatedFirms
+        enteredFirms: updatedFirms,
+        ...(abandonEdit ? {
+          currentStep: 'firm-input',
+          currentFirmId: '',
+          currentFirmName: '',
+          currentFirmMatched: false,
+          editingFirmId: undefined
+        } : {})
       };
     });
-  }, [onFirmsChange, onRemoveFirm]);
+
+    if (formState.editingFirmId === firmId) {
+      setContactDraft(null);
+    }
+
+    return { firm: formState.enteredFirms[index], index };
+  }, [formState.enteredFirms, formState.editingFirmId, onFirmsChange, onRemoveFirm]);
+
+  const handleEditFirm = useCallback((firmId: string) => {
+    const firm = formState.enteredFirms.find(entry => entry.id === firmId);
+    if (!firm || !firm.isMatched) return;
+
+    setFirmSuggestion(null);
+    setContactDraft(toContactFormData(firm.contacts));
+    setFormState(prev => ({
+      ...prev,
+      currentFirmId: firm.firmId ?? '',
+      currentFirmName: firm.firmName,
+      currentFirmMatched: true,
+      currentStep: 'contact-details',
+      editingFirmId: firm.id
+    }));
+  }, [formState.enteredFirms]);
+
+  useImperativeHandle(ref, () => ({
+    editFirm: handleEditFirm,
+    removeFirm: handleRemoveFirm,
+    restoreFirm: handleRestoreFirm
+  }), [handleEditFirm, handleRemoveFirm, handleRestoreFirm]);
+
+  // Once automatic retries have run out, the banner stops promising them
+  const retriesExhausted = formState.pendingSubmissionId ? SubmissionService.hasGivenUp(formState.pendingSubmissionId) : false;
+
+  if (inviteRefusal) {
+    return (
+      <InlineBanner
+        variant="error"
+        title="You need an invite to use this form"
+        description={inviteRefusal}
+        className="text-left"
+      />
+    );
+  }
 
   return (
     <div className="space-y-6 relative">
+      <div aria-hidden="true" className="absolute -left-[9999px] top-0 h-px w-px overflow-hidden">
+        <label htmlFor="company_website">Company website</label>
+        <input
+          id="company_website"
+          name="company_website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={honeypot}
+          onChange={event => setHoneypot(event.target.value)}
+        />
+      </div>
       <ErrorBoundary>
-        {formState.isFormComplete && (
-          <FormCompleteStep
-            enteredFirms={formState.enteredFirms}
-            onNewSubmission={handleNewSubmission}
-          />
-        )}
-
-        {!formState.isFormComplete && formState.currentStep === 'firm-input' && (
-          <FirmInputStep
-            currentFirmInput={currentFirmInput}
-            onFirmInputChange={handleFirmInputChange}
-            onFirmSubmit={handleFirmSubmit}
-            firmInputError={firmInputError}
-            enteredFirms={formState.enteredFirms}
-            remainingFirms={remainingFirms}
-            maxFirms={formState.maxFirms}
-            onFinish={handleFinish}
-            userEmail={formState.userEmail}
-            onEmailChange={handleEmailChange}
-            onEmailBlur={handleEmailBlur}
-            emailError={emailError}
-            onRemoveFirm={handleRemoveFirm}
+        {invite && invite.status !== 'valid' && (
+          <InlineBanner
+            variant="warning"
+            title="We couldn't use your invite link"
+            description={INVITE_PROBLEMS[invite.status]}
+            className="text-left"
           />
         )}
 
-        {!formState.isFormComplete && formState.currentStep === 'contact-details' && (
-          <ContactDetailsStep
-            firmName={formState.currentFirmName}
-            onSubmit={handleContactSubmit}
-            onCancel={handleContactCancel}
-            loading={loading}
-          />
+        {savedDraft ? (
+          <InlineBanner
+            variant="informative"
+            title="Resume your previous submission?"
+            description={`You have an unfinished submission saved on ${savedDraft.savedAt.toLocaleString()}.`}
+            className="text-left"
+          >
+            <Button appearance="primary" size="small" onClick={handleResumeDraft}>
+              Resume
+            </Button>
+            <Button appearance="secondary" size="small" onClick={handleDiscardDraft}>
+              Start over
+            </Button>
+          </InlineBanner>
+        ) : (
+          <>
+            {formState.isFormComplete && (
+              <FormCompleteStep
+                enteredFirms={formState.enteredFirms}
+                onNewSubmission={handleNewSubmission}
+              />
+            )}
+
+            {!formState.isFormComplete && formState.currentStep === 'firm-input' && validationError && (
+              <InlineBanner
+                variant="error"
+                title="Please check your answers"
+                description={validationError}
+                onClose={() => setValidationError('')}
+                className="text-left"
+              />
+            )}
+
+            {!formState.isFormComplete && formState.currentStep === 'firm-input' && formState.pendingSubmissionId && (
+              <InlineBanner
+                variant="error"
+                title="We couldn't submit your form"
+                description={retriesExhausted
+                  ? "Your answers are saved on this device, but we've stopped retrying automatically. Please contact support, or try again later."
+                  : "Your answers are saved on this device and we'll keep retrying automatically. You can also try again now or contact support."}
+                className="text-left"
+              >
+                <Button appearance={retriesExhausted ? 'secondary' : 'primary'} size="small" onClick={() => handleFinish()} disabled={submitting}>
+                  {submitting ? 'Retrying...' : 'Try again'}
+                </Button>
+                <Button
+                  appearance={retriesExhausted ? 'primary' : 'secondary'}
+                  size="small"
+                  onClick={() => { window.location.href = 'mailto:support@definely.com'; }}
+                >
+                  Contact support
+                </Button>
+              </InlineBanner>
+            )}
+
+            {!formState.isFormComplete && formState.currentStep === 'firm-input' && (
+              <FirmInputStep
+                currentFirmInput={currentFirmInput}
+                onFirmInputChange={handleFirmInputChange}
+                onFirmSubmit={handleFirmSubmit}
+                firmInputError={firmInputError}
+                firmSuggestion={firmSuggestion}
+                onAcceptSuggestion={handleSuggestionAccept}
+                onRejectSuggestion={handleSuggestionReject}
+                previousFirm={previousFirmPrompt?.previous ?? null}
+                onUpdatePreviousFirm={handleUpdatePreviousFirm}
+                onAddPreviousFirmAsNew={handleAddPreviousFirmAsNew}
+                enteredFirms={formState.enteredFirms}
+                remainingFirms={remainingFirms}
+                maxFirms={formState.maxFirms}
+                onFinish={handleReviewConsent}
+                submitting={submitting}
+                userEmail={formState.userEmail}
+                onEmailChange={handleEmailChange}
+                onEmailBlur={handleEmailBlur}
+                emailError={emailError}
+                emailLocked={Boolean(formState.inviteToken)}
+                onRemoveFirm={handleRemoveFirm}
+              />
+            )}
+
+            {!formState.isFormComplete && formState.currentStep === 'contact-details' && (
+              <ContactDetailsStep
+                key={formState.editingFirmId ?? 'new-firm'}
+                firmName={formState.currentFirmName}
+                onSubmit={handleContactSubmit}
+                onCancel={handleContactCancel}
+                loading={loading}
+                initialData={contactDraft}
+                onChange={setContactDraft}
+                submitLabel={formState.editingFirmId ? 'Save Changes' : undefined}
+              />
+            )}
+
+            {!formState.isFormComplete && formState.currentStep === 'consent' && (
+              <ConsentStep
+                onSubmit={handleConsentSubmit}
+                onBack={handleConsentBack}
+                submitting={submitting}
+                initialConsent={formState.consent}
+              />
+            )}
+          </>
         )}
       </ErrorBoundary>
     </div>
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import type { AdvisorConsent } from '../types';
+import { INTRO_PREFERENCE_OPTIONS, PRIVACY_NOTICE, type IntroPreference } from '../shared/consent';
+import Checkbox from './Checkbox';
+import RadioGroup from './RadioGroup';
+import Button from './Button';
+
+interface ConsentStepProps {
+  onSubmit: (consent: AdvisorConsent) => void;
+  onBack: () => void;
+  submitting: boolean;
+  /** Consent given earlier, e.g. before a submission that failed */
+  initialConsent?: AdvisorConsent;
+}
+
+export function ConsentStep({ onSubmit, onBack, submitting, initialConsent }: ConsentStepProps) {
+  // Agreement to an older notice does not carry over
+  const [agreed, setAgreed] = useState(initialConsent?.privacyNoticeVersion === PRIVACY_NOTICE.version);
+  const [introPreference, setIntroPreference] = useState<IntroPreference | ''>(initialConsent?.introPreference ?? '');
+  const [errors, setErrors] = useState<{ agreed?: string; introPreference?: string }>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: typeof errors = {};
+    if (!agreed) {
+      newErrors.agreed = 'Please agree to the privacy notice to submit';
+    }
+    if (!introPreference) {
+      newErrors.introPreference = 'Please choose how you would like introductions to happen';
+    }
+
+    setErrors(newErrors);
+    if (newErrors.agreed || !introPreference) {
+      return;
+    }
+
+    onSubmit({ privacyNoticeVersion: PRIVACY_NOTICE.version, introPreference });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6 text-left">
+      <div className="bg-neutral-8 border border-neutral-4 rounded-md p-4 space-y-2 max-h-48 overflow-y-auto">
+        <h3 className="typography-label-lg text-neutral-0 font-semibold">{PRIVACY_NOTICE.title}</h3>
+        {PRIVACY_NOTICE.paragraphs.map(paragraph => (
+          <p key={paragraph} className="text-sm text-neutral-1">{paragraph}</p>
+        ))}
+      </div>
+
+      <RadioGroup
+        id="intro-preference"
+        name="introPreference"
+        label="How would you like introductions to happen?"
+        options={[...INTRO_PREFERENCE_OPTIONS]}
+        value={introPreference}
+        onChange={(value) => {
+          setIntroPreference(value as IntroPreference);
+          setErrors(prev => ({ ...prev, introPreference: undefined }));
+        }}
+        error={errors.introPreference}
+        required
+        disabled={submitting}
+      />
+
+      <Checkbox
+        id="privacy-consent"
+        name="privacyConsent"
+        label="I have read the privacy notice and agree to be contacted about the firms I listed"
+        checked={agreed}
+        onChange={(checked) => {
+          setAgreed(checked);
+          setErrors(prev => ({ ...prev, agreed: undefined }));
+        }}
+        error={errors.agreed}
+        required
+        disabled={submitting}
+      />
+
+      <div className="flex gap-3 pt-4">
+        <Button
+          htmlType="submit"
+          appearance="primary"
+          size="large"
+          disabled={submitting}
+          className="flex-1"
+        >
+          {submitting ? 'Submitting...' : 'Agree and submit'}
+        </Button>
+        <Button
+          htmlType="button"
+          appearance="secondary"
+          size="large"
+          onClick={onBack}
+          disabled={submitting}
+        >
+          Back
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default ConsentStep;
@@ -3,16 +3,22 @@ import type { ContactFormData } from '../types';
 
 interface ContactDetailsStepProps {
   firmName: string;
-  onSubmit: (data: ContactFormData) => void;
+  onSubmit: (data: ContactFormData[]) => void;
   onCancel: () => void;
   loading: boolean;
+  initialData?: ContactFormData[] | null;
+  onChange?: (data: ContactFormData[]) => void;
+  submitLabel?: string;
 }
 
 export function ContactDetailsStep({
   firmName,
   onSubmit,
   onCancel,
-  loading
+  loading,
+  initialData,
+  onChange,
+  submitLabel
 }: ContactDetailsStepProps) {
   return (
     <div>
@@ -21,6 +27,9 @@ export function ContactDetailsStep({
         onSubmit={onSubmit}
         onCancel={onCancel}
         loading={loading}
+        initialData={initialData}
+        onChange={onChange}
+        submitLabel={submitLabel}
       />
     </div>
   );
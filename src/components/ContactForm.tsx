@@ -1,196 +1,353 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import Input from './Input';
 import Select from './Select';
 import Button from './Button';
+import Textarea from './Textarea';
 import type { ContactFormData } from '../types';
+import { SUBMISSION_LIMITS, isValidEmail, isValidLinkedInUrl, isValidPhone } from '../shared/submissionSchema';
+import { CONTACT_FREQUENCY_OPTIONS, RELATIONSHIP_STRENGTH_OPTIONS } from '../shared/contactOptions';
 
 interface ContactFormProps {
   firmName: string;
-  onSubmit: (data: ContactFormData) => void;
+  onSubmit: (data: ContactFormData[]) => void;
   onCancel: () => void;
   loading?: boolean;
+  initialData?: ContactFormData[] | null;
+  onChange?: (data: ContactFormData[]) => void;
+  /** Label for the save button, e.g. when changing a contact already entered */
+  submitLabel?: string;
+}
+
+type ContactErrors = Partial<Record<keyof ContactFormData, string>>;
+
+const EMPTY_CONTACT: ContactFormData = {
+  name: '',
+  designation: '',
+  relationshipStrength: '',
+  contactFrequency: '',
+  email: '',
+  phone: '',
+  linkedinUrl: '',
+  practiceArea: '',
+  introNotes: ''
+};
+
+type TextField = 'name' | 'designation' | 'email' | 'phone' | 'linkedinUrl' | 'practiceArea' | 'introNotes';
+
+/**
+ * Check an optional free-text field's length, returning an error message if it is too long
+ */
+function tooLong(value: string, maxLength: number, label: string): string | undefined {
+  return value.trim().length > maxLength ? `${label} must be ${maxLength} characters or fewer` : undefined;
 }
 
 export function ContactForm({
   firmName,
   onSubmit,
   onCancel,
-  loading = false
+  loading = false,
+  initialData,
+  onChange,
+  submitLabel = 'Save Contact'
 }: ContactFormProps) {
-  const [formData, setFormData] = useState<ContactFormData>({
-    name: '',
-    designation: '',
-    relationshipStrength: '',
-    contactFrequency: ''
-  });
+  const [contacts, setContacts] = useState<ContactFormData[]>(
+    // Contacts saved before the optional fields existed are filled in with blanks
+    initialData && initialData.length > 0 ? initialData.map(contact => ({ ...EMPTY_CONTACT, ...contact })) : [EMPTY_CONTACT]
+  );
+  // Each row keeps the id it was given when added, so removing a row leaves the others' inputs in place
+  const [rowIds, setRowIds] = useState<string[]>(() => contacts.map(() => crypto.randomUUID()));
 
-  const [errors, setErrors] = useState<Partial<Record<keyof ContactFormData, string>>>({});
+  // Report every edit so the half-filled form can be saved as part of the draft
+  useEffect(() => {
+    if (onChange) {
+      onChange(contacts);
+    }
+  }, [contacts, onChange]);
 
-  const validateForm = (): boolean => {
-    const newErrors: Partial<Record<keyof ContactFormData, string>> = {};
+  const [errors, setErrors] = useState<ContactErrors[]>([]);
+
+  const validateContact = (contact: ContactFormData): ContactErrors => {
+    const newErrors: ContactErrors = {};
 
-    if (!formData.relationshipStrength) {
+    if (!contact.relationshipStrength) {
       newErrors.relationshipStrength = 'Please select relationship strength';
     }
 
-    if (!formData.contactFrequency) {
+    if (!contact.contactFrequency) {
       newErrors.contactFrequency = 'Please select contact frequency';
     }
 
-    if (!formData.name || !formData.name.trim()) {
+    if (!contact.name || !contact.name.trim()) {
       newErrors.name = 'Contact name is required';
+    } else if (contact.name.trim().length > SUBMISSION_LIMITS.contactNameLength) {
+      newErrors.name = `Contact name must be ${SUBMISSION_LIMITS.contactNameLength} characters or fewer`;
     }
 
-    if (!formData.designation || !formData.designation.trim()) {
+    if (!contact.designation || !contact.designation.trim()) {
       newErrors.designation = 'Designation is required';
+    } else if (contact.designation.trim().length > SUBMISSION_LIMITS.contactDesignationLength) {
+      newErrors.designation = `Designation must be ${SUBMISSION_LIMITS.contactDesignationLength} characters or fewer`;
+    }
+
+    const email = contact.email.trim();
+    if (email && !isValidEmail(email)) {
+      newErrors.email = 'Please enter a valid email address';
+    } else {
+      newErrors.email = tooLong(email, SUBMISSION_LIMITS.contactEmailLength, 'Email');
     }
 
+    const phone = contact.phone.trim();
+    if (phone && !isValidPhone(phone)) {
+      newErrors.phone = 'Please enter a valid phone number, e.g. +44 20 7946 0000';
+    } else {
+      newErrors.phone = tooLong(phone, SUBMISSION_LIMITS.contactPhoneLength, 'Phone');
+    }
+
+    const linkedinUrl = contact.linkedinUrl.trim();
+    if (linkedinUrl && !isValidLinkedInUrl(linkedinUrl)) {
+      newErrors.linkedinUrl = 'Please enter a LinkedIn profile URL, e.g. https://www.linkedin.com/in/name';
+    } else {
+      newErrors.linkedinUrl = tooLong(linkedinUrl, SUBMISSION_LIMITS.linkedinUrlLength, 'LinkedIn URL');
+    }
+
+    newErrors.practiceArea = tooLong(contact.practiceArea, SUBMISSION_LIMITS.practiceAreaLength, 'Practice area');
+    newErrors.introNotes = tooLong(contact.introNotes, SUBMISSION_LIMITS.introNotesLength, 'Notes');
+
+    // Only keep the fields that have a problem
+    return Object.fromEntries(
+      Object.entries(newErrors).filter(([, message]) => message !== undefined)
+    ) as ContactErrors;
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors = contacts.map(validateContact);
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return newErrors.every(contactErrors => Object.keys(contactErrors).length === 0);
   };
 
-  const handleInputChange = (field: keyof ContactFormData) => (
-    e: React.ChangeEvent<HTMLInputElement>
-  ) => {
-    setFormData(prev => ({
-      ...prev,
-      [field]: e.target.value
-    }));
-
-    // Clear error when user starts typing
-    if (errors[field]) {
-      setErrors(prev => ({
-        ...prev,
-        [field]: undefined
-      }));
+  const updateContact = (index: number, field: keyof ContactFormData, value: string) => {
+    setContacts(prev => prev.map((contact, contactIndex) =>
+      contactIndex === index ? { ...contact, [field]: value } : contact
+    ));
+
+    // Clear the field's error when the user changes it
+    if (errors[index]?.[field]) {
+      setErrors(prev => prev.map((contactErrors, contactIndex) =>
+        contactIndex === index ? { ...contactErrors, [field]: undefined } : contactErrors
+      ));
     }
   };
 
-  const handleRelationshipChange = (value: string | string[]) => {
-    setFormData(prev => ({
-      ...prev,
-      relationshipStrength: value as ContactFormData['relationshipStrength']
-    }));
-
-    // Clear error when user selects
-    if (errors.relationshipStrength) {
-      setErrors(prev => ({
-        ...prev,
-        relationshipStrength: undefined
-      }));
-    }
+  const handleInputChange = (index: number, field: TextField) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    updateContact(index, field, e.target.value);
   };
 
-  const handleFrequencyChange = (value: string | string[]) => {
-    setFormData(prev => ({
-      ...prev,
-      contactFrequency: value as ContactFormData['contactFrequency']
-    }));
-
-    // Clear error when user selects
-    if (errors.contactFrequency) {
-      setErrors(prev => ({
-        ...prev,
-        contactFrequency: undefined
-      }));
-    }
+  const handleAddContact = () => {
+    setContacts(prev => [...prev, EMPTY_CONTACT]);
+    setRowIds(prev => [...prev, crypto.randomUUID()]);
+  };
+
+  const handleRemoveContact = (index: number) => {
+    setContacts(prev => prev.filter((_, contactIndex) => contactIndex !== index));
+    setRowIds(prev => prev.filter((_, contactIndex) => contactIndex !== index));
+    setErrors(prev => prev.filter((_, contactIndex) => contactIndex !== index));
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    console.log('Contact form submitted with data:', formData);
+    console.log(`Contact form submitted with ${contacts.length} contacts`);
 
     if (validateForm()) {
       console.log('Validation passed, calling onSubmit');
-      onSubmit(formData);
+      onSubmit(contacts);
     } else {
-      console.log('Validation failed with errors:', errors);
+      console.log('Validation failed');
     }
   };
 
   const handleCancel = () => {
-    setFormData({ name: '', designation: '', relationshipStrength: '', contactFrequency: '' });
-    setErrors({});
+    setContacts([EMPTY_CONTACT]);
+    setRowIds([crypto.randomUUID()]);
+    setErrors([]);
     onCancel();
   };
 
+  const canAddContact = contacts.length < SUBMISSION_LIMITS.maxContactsPerFirm;
+
   return (
     <div className="space-y-6">
       <form onSubmit={handleSubmit} className="space-y-6">
-        <div>
-          <label className="block mb-1 text-left typography-label-lg text-neutral-0">
-            How strong is your relationship with <span className="font-semibold">{firmName}</span>?
-            <span className="text-red-0 ml-1">*</span>
-          </label>
-          <Select
-            id="relationship-strength"
-            name="relationshipStrength"
-            value={formData.relationshipStrength}
-            onChange={handleRelationshipChange}
-            options={[
-              { value: 'very-strong', label: 'Very strong' },
-              { value: 'strong', label: 'Strong' },
-              { value: 'moderate', label: 'Moderate' },
-              { value: 'weak', label: 'Weak' }
-            ]}
-            error={errors.relationshipStrength}
-            required
-            disabled={loading}
-            size="large"
-            placeholder="Select relationship strength..."
-          />
-        </div>
+        {contacts.map((contact, index) => (
+          <fieldset
+            key={rowIds[index]}
+            aria-label={`Contact ${index + 1}`}
+            className={`space-y-6 ${index > 0 ? 'pt-6 border-t border-neutral-4' : ''}`}
+          >
+            {contacts.length > 1 && (
+              <div className="flex items-center justify-between">
+                <p className="typography-label-lg text-neutral-0 font-semibold">
+                  Contact {index + 1}
+                </p>
+                <Button
+                  htmlType="button"
+                  appearance="secondary"
+                  size="small"
+                  onClick={() => handleRemoveContact(index)}
+                  disabled={loading}
+                  aria-label={`Remove contact ${index + 1}`}
+                >
+                  Remove
+                </Button>
+              </div>
+            )}
 
-        <div>
-          <Select
-            id="contact-frequency"
-            name="contactFrequency"
-            label="How often are you in touch with your contact?"
-            value={formData.contactFrequency}
-            onChange={handleFrequencyChange}
-            options={[
-              { value: 'quarterly', label: 'Quarterly' },
-              { value: 'annually', label: 'Annually' },
-              { value: 'occasionally', label: 'Occasionally' },
-              { value: 'recently', label: 'Recently' }
-            ]}
-            error={errors.contactFrequency}
-            required
-            disabled={loading}
-            size="large"
-            placeholder="Select contact frequency..."
-          />
-        </div>
+            <div>
+              <label className="block mb-1 text-left typography-label-lg text-neutral-0">
+                How strong is your relationship with {contacts.length > 1 ? 'this contact at ' : ''}<span className="font-semibold">{firmName}</span>?
+                <span className="text-red-0 ml-1">*</span>
+              </label>
+              <Select
+                id={`relationship-strength-${index}`}
+                name="relationshipStrength"
+                value={contact.relationshipStrength}
+                onChange={(value) => updateContact(index, 'relationshipStrength', value as string)}
+                options={[...RELATIONSHIP_STRENGTH_OPTIONS]}
+                error={errors[index]?.relationshipStrength}
+                required
+                disabled={loading}
+                size="large"
+                placeholder="Select relationship strength..."
+              />
+            </div>
 
-        <div>
-          <Input
-            id="contact-name"
-            name="contactName"
-            label="Contact Name"
-            value={formData.name}
-            onChange={handleInputChange('name')}
-            placeholder="Enter contact name"
-            error={errors.name}
-            required
-            disabled={loading}
-            size="large"
-          />
-        </div>
+            <div>
+              <Select
+                id={`contact-frequency-${index}`}
+                name="contactFrequency"
+                label="How often are you in touch with your contact?"
+                value={contact.contactFrequency}
+                onChange={(value) => updateContact(index, 'contactFrequency', value as string)}
+                options={[...CONTACT_FREQUENCY_OPTIONS]}
+                error={errors[index]?.contactFrequency}
+                required
+                disabled={loading}
+                size="large"
+                placeholder="Select contact frequency..."
+              />
+            </div>
+
+            <div>
+              <Input
+                id={`contact-name-${index}`}
+                name="contactName"
+                label="Contact Name"
+                value={contact.name}
+                onChange={handleInputChange(index, 'name')}
+                placeholder="Enter contact name"
+                error={errors[index]?.name}
+                required
+                disabled={loading}
+                size="large"
+              />
+            </div>
 
-        <div>
-          <Input
-            id="contact-designation"
-            name="contactDesignation"
-            label="Designation"
-            value={formData.designation}
-            onChange={handleInputChange('designation')}
-            placeholder="Enter designation (e.g., Partner, Associate, etc.)"
-            error={errors.designation}
-            required
+            <div>
+              <Input
+                id={`contact-designation-${index}`}
+                name="contactDesignation"
+                label="Designation"
+                value={contact.designation}
+                onChange={handleInputChange(index, 'designation')}
+                placeholder="Enter designation (e.g., Partner, Associate, etc.)"
+                error={errors[index]?.designation}
+                required
+                disabled={loading}
+                size="large"
+              />
+            </div>
+
+            <div className="space-y-4">
+              <p className="text-left typography-body-text text-night-sky-blue-1">
+                Optional, but it saves us asking you later:
+              </p>
+              <div className="grid gap-4 md:grid-cols-2">
+                <Input
+                  id={`contact-email-${index}`}
+                  name="contactEmail"
+                  type="email"
+                  label="Email"
+                  value={contact.email}
+                  onChange={handleInputChange(index, 'email')}
+                  placeholder="name@firm.com"
+                  error={errors[index]?.email}
+                  maxLength={SUBMISSION_LIMITS.contactEmailLength}
+                  disabled={loading}
+                />
+                <Input
+                  id={`contact-phone-${index}`}
+                  name="contactPhone"
+                  type="tel"
+                  label="Phone"
+                  value={contact.phone}
+                  onChange={handleInputChange(index, 'phone')}
+                  placeholder="+44 20 7946 0000"
+                  error={errors[index]?.phone}
+                  maxLength={SUBMISSION_LIMITS.contactPhoneLength}
+                  disabled={loading}
+                />
+                <Input
+                  id={`contact-linkedin-${index}`}
+                  name="contactLinkedinUrl"
+                  type="url"
+                  label="LinkedIn profile"
+                  value={contact.linkedinUrl}
+                  onChange={handleInputChange(index, 'linkedinUrl')}
+                  placeholder="https://www.linkedin.com/in/..."
+                  error={errors[index]?.linkedinUrl}
+                  maxLength={SUBMISSION_LIMITS.linkedinUrlLength}
+                  disabled={loading}
+                />
+                <Input
+                  id={`contact-practice-area-${index}`}
+                  name="contactPracticeArea"
+                  label="Practice area"
+                  value={contact.practiceArea}
+                  onChange={handleInputChange(index, 'practiceArea')}
+                  placeholder="e.g., Corporate M&A"
+                  error={errors[index]?.practiceArea}
+                  maxLength={SUBMISSION_LIMITS.practiceAreaLength}
+                  disabled={loading}
+                />
+              </div>
+              <Textarea
+                id={`contact-intro-notes-${index}`}
+                name="contactIntroNotes"
+                label="How do you know them?"
+                helperText="Anything that would help with the introduction"
+                value={contact.introNotes}
+                onChange={handleInputChange(index, 'introNotes')}
+                error={errors[index]?.introNotes}
+                maxLength={SUBMISSION_LIMITS.introNotesLength}
+                showCharacterCount
+                disabled={loading}
+              />
+            </div>
+          </fieldset>
+        ))}
+
+        {canAddContact && (
+          <Button
+            htmlType="button"
+            appearance="secondary"
+            size="small"
+            onClick={handleAddContact}
             disabled={loading}
-            size="large"
-          />
-        </div>
+          >
+            Add another contact at {firmName}
+          </Button>
+        )}
 
         <div className="flex gap-3 pt-4">
           <Button
@@ -200,7 +357,7 @@ export function ContactForm({
             disabled={loading}
             className="flex-1"
           >
-            {loading ? 'Saving...' : 'Save Contact'}
+            {loading ? 'Saving...' : submitLabel}
           </Button>
           <Button
             htmlType="button"
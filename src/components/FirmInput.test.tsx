@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import FirmInput from './FirmInput';
+import { FirmService } from '../services/FirmService';
+
+function ControlledFirmInput({ onSubmit }: { onSubmit: (firmName: string) => void }) {
+  const [value, setValue] = useState('');
+  return <FirmInput value={value} onChange={setValue} onSubmit={onSubmit} />;
+}
+
+function renderFirmInput() {
+  const onSubmit = vi.fn();
+  const user = userEvent.setup();
+  render(<ControlledFirmInput onSubmit={onSubmit} />);
+  return { user, onSubmit, input: screen.getByPlaceholderText('Enter law firm name...') };
+}
+
+function suggestion(name: string) {
+  return screen.getByRole('button', { name });
+}
+
+describe('FirmInput', () => {
+  beforeAll(() => {
+    FirmService.setFirms([
+      { id: 'hogan-lovells', name: 'Hogan Lovells', aliases: [], formerNames: [] },
+      { id: 'hogan-partners', name: 'Hogan & Partners', aliases: [], formerNames: [] },
+      { id: 'hoganson', name: 'Hoganson LLP', aliases: [], formerNames: [] }
+    ]);
+  });
+
+  afterAll(() => {
+    FirmService.setFirms(null);
+  });
+
+  it('shows suggestions once three characters are typed', async () => {
+    const { user, input } = renderFirmInput();
+
+    await user.type(input, 'ho');
+    expect(screen.queryByRole('button', { name: 'Hogan Lovells' })).not.toBeInTheDocument();
+
+    await user.type(input, 'g');
+    expect(suggestion('Hogan Lovells')).toBeInTheDocument();
+    expect(suggestion('Hogan & Partners')).toBeInTheDocument();
+    expect(suggestion('Hoganson LLP')).toBeInTheDocument();
+  });
+
+  it('moves through suggestions with ArrowDown and ArrowUp and picks one with Enter', async () => {
+    const { user, input, onSubmit } = renderFirmInput();
+
+    await user.type(input, 'hog');
+    await user.keyboard('{ArrowDown}{ArrowDown}{ArrowDown}{ArrowDown}');
+    expect(suggestion('Hoganson LLP')).toHaveClass('bg-night-sky-blue-7');
+
+    await user.keyboard('{ArrowUp}');
+    expect(suggestion('Hogan & Partners')).toHaveClass('bg-night-sky-blue-7');
+    expect(suggestion('Hoganson LLP')).not.toHaveClass('bg-night-sky-blue-7');
+
+    await user.keyboard('{Enter}');
+    expect(input).toHaveValue('Hogan & Partners');
+    expect(screen.queryByRole('button', { name: 'Hoganson LLP' })).not.toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    // With the suggestions closed, Enter submits the chosen firm
+    await user.keyboard('{Enter}');
+    expect(onSubmit).toHaveBeenCalledWith('Hogan & Partners');
+  });
+
+  it('clears the highlight when ArrowUp moves above the first suggestion', async () => {
+    const { user, input, onSubmit } = renderFirmInput();
+
+    await user.type(input, 'hog');
+    await user.keyboard('{ArrowDown}{ArrowUp}{ArrowUp}');
+    expect(suggestion('Hogan Lovells')).not.toHaveClass('bg-night-sky-blue-7');
+
+    // Enter with nothing highlighted submits what was typed
+    await user.keyboard('{Enter}');
+    expect(onSubmit).toHaveBeenCalledWith('hog');
+  });
+
+  it('closes the suggestions on Escape', async () => {
+    const { user, input } = renderFirmInput();
+
+    await user.type(input, 'hog');
+    await user.keyboard('{ArrowDown}{Escape}');
+
+    expect(screen.queryByRole('button', { name: 'Hogan Lovells' })).not.toBeInTheDocument();
+    expect(input).toHaveValue('hog');
+  });
+
+  it('closes the suggestions on Tab', async () => {
+    const { user, input } = renderFirmInput();
+
+    await user.type(input, 'hog');
+    await user.keyboard('{Tab}');
+
+    expect(screen.queryByRole('button', { name: 'Hogan Lovells' })).not.toBeInTheDocument();
+  });
+
+  it('submits the trimmed input from the Add Firm button', async () => {
+    const { user, input, onSubmit } = renderFirmInput();
+
+    expect(screen.getByRole('button', { name: 'Add Firm' })).toBeDisabled();
+
+    await user.type(input, '  Unlisted Firm  ');
+    await user.keyboard('{Escape}');
+    await user.click(screen.getByRole('button', { name: 'Add Firm' }));
+
+    expect(onSubmit).toHaveBeenCalledWith('Unlisted Firm');
+  });
+});
@@ -29,6 +29,10 @@ export function FirmInput({
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
+  const blurTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Don't let a pending blur check run after the input has gone
+  useEffect(() => () => clearTimeout(blurTimerRef.current), []);
 
   useEffect(() => {
     if (value.length >= 3) {
@@ -102,7 +106,8 @@ export function FirmInput({
 
   const handleInputBlur = () => {
     // Delay hiding suggestions to allow for clicks
-    setTimeout(() => {
+    clearTimeout(blurTimerRef.current);
+    blurTimerRef.current = setTimeout(() => {
       if (
         !suggestionsRef.current?.contains(document.activeElement) &&
         document.activeElement !== inputRef.current
@@ -1,21 +1,33 @@
 import FirmInput from './FirmInput';
 import Button from './Button';
 import Input from './Input';
-import type { FirmEntry } from '../types';
+import InlineBanner from './InlineBanner';
+import type { FirmEntry, FirmSuggestion, PreviousFirmEntry } from '../types';
 
 interface FirmInputStepProps {
   currentFirmInput: string;
   onFirmInputChange: (value: string) => void;
   onFirmSubmit: (firmName: string) => void;
   firmInputError: string;
+  firmSuggestion?: FirmSuggestion | null;
+  onAcceptSuggestion?: () => void;
+  onRejectSuggestion?: () => void;
+  /** The advisor's earlier entry for the firm they just entered again */
+  previousFirm?: PreviousFirmEntry | null;
+  onUpdatePreviousFirm?: () => void;
+  onAddPreviousFirmAsNew?: () => void;
   enteredFirms: FirmEntry[];
   remainingFirms: number;
   maxFirms: number;
   onFinish: () => void;
+  /** A submission is in flight, e.g. after "Try again" */
+  submitting?: boolean;
   userEmail: string;
   onEmailChange: (email: string) => void;
   onEmailBlur?: () => void;
   emailError: string;
+  /** The email came from a signed invite and cannot be changed */
+  emailLocked?: boolean;
   onRemoveFirm?: (firmId: string) => void;
 }
 
@@ -24,14 +36,22 @@ export function FirmInputStep({
   onFirmInputChange,
   onFirmSubmit,
   firmInputError,
+  firmSuggestion,
+  onAcceptSuggestion,
+  onRejectSuggestion,
+  previousFirm,
+  onUpdatePreviousFirm,
+  onAddPreviousFirmAsNew,
   enteredFirms,
   remainingFirms,
   maxFirms,
   onFinish,
+  submitting = false,
   userEmail,
   onEmailChange,
   onEmailBlur,
   emailError,
+  emailLocked = false,
 }: FirmInputStepProps) {
   return (
     <div className="space-y-4">
@@ -46,12 +66,62 @@ export function FirmInputStep({
             onChange={(e) => onEmailChange(e.target.value)}
             onBlur={onEmailBlur}
             error={emailError}
+            helperText={emailLocked ? 'This is the address your invite was sent to.' : undefined}
+            readOnly={emailLocked}
             required
             size="large"
           />
         </div>
       )}
 
+      {firmSuggestion && (
+        <InlineBanner
+          variant="informative"
+          title={`Did you mean ${firmSuggestion.match.firmName}?`}
+          description={`We couldn't find "${firmSuggestion.enteredName}" on our list, but it looks similar to ${firmSuggestion.match.firmName}.`}
+          className="text-left"
+        >
+          <Button
+            appearance="primary"
+            size="small"
+            onClick={onAcceptSuggestion}
+          >
+            Yes, use {firmSuggestion.match.firmName}
+          </Button>
+          <Button
+            appearance="secondary"
+            size="small"
+            onClick={onRejectSuggestion}
+          >
+            No, keep "{firmSuggestion.enteredName}"
+          </Button>
+        </InlineBanner>
+      )}
+
+      {previousFirm && (
+        <InlineBanner
+          variant="informative"
+          title={`You already ${previousFirm.isMatched ? 'shared a contact at' : 'told us about'} ${previousFirm.firmName} on ${new Date(previousFirm.submittedAt).toLocaleDateString()} — update it instead?`}
+          description="Updating replaces your earlier entry, so we don't count the same firm twice."
+          className="text-left"
+        >
+          <Button
+            appearance="primary"
+            size="small"
+            onClick={onUpdatePreviousFirm}
+          >
+            Update earlier entry
+          </Button>
+          <Button
+            appearance="secondary"
+            size="small"
+            onClick={onAddPreviousFirmAsNew}
+          >
+            Add as a new entry
+          </Button>
+        </InlineBanner>
+      )}
+
       {enteredFirms.length < maxFirms ? (
         <div>
           <div className="space-y-1">
@@ -91,9 +161,12 @@ export function FirmInputStep({
             appearance="primary"
             size="large"
             onClick={onFinish}
+            disabled={submitting}
             className="w-full"
           >
-            {enteredFirms.length === maxFirms
+            {submitting
+              ? "Submitting..."
+              : enteredFirms.length === maxFirms
               ? "Submit"
               : `Submit (${enteredFirms.length} firm${enteredFirms.length !== 1 ? 's' : ''} entered)`
             }
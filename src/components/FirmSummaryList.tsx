@@ -3,37 +3,64 @@ import Icon from './Icon';
 
 interface FirmSummaryListProps {
   firms: FirmEntry[];
+  maxFirms: number;
   onRemoveFirm?: (firmId: string) => void;
+  /** Reopen a matched firm's contact details */
+  onEditFirm?: (firmId: string) => void;
 }
 
-function FirmSummaryCard({ firm, onRemove }: { firm: FirmEntry; onRemove?: (firmId: string) => void }) {
+interface FirmSummaryCardProps {
+  firm: FirmEntry;
+  onRemove?: (firmId: string) => void;
+  onEdit?: (firmId: string) => void;
+}
+
+function FirmSummaryCard({ firm, onRemove, onEdit }: FirmSummaryCardProps) {
   return (
     <div className="bg-white rounded-lg p-4 relative" style={{ border: '1px solid #eeeeee' }}>
-      {onRemove && (
-        <button
-          onClick={() => onRemove(firm.id)}
-          className="absolute top-2 right-2 p-1 rounded hover:bg-neutral-8 transition-colors duration-150 cursor-pointer text-neutral-1 hover:text-neutral-0"
-          aria-label="Remove firm"
-        >
-          <Icon type="close" size="small" />
-        </button>
-      )}
+      <div className="absolute top-2 right-2 flex gap-1">
+        {onEdit && firm.isMatched && (
+          <button
+            onClick={() => onEdit(firm.id)}
+            className="p-1 rounded hover:bg-neutral-8 transition-colors duration-150 cursor-pointer text-neutral-1 hover:text-neutral-0"
+            aria-label="Edit firm"
+          >
+            <Icon type="edit" size="small" />
+          </button>
+        )}
+        {onRemove && (
+          <button
+            onClick={() => onRemove(firm.id)}
+            className="p-1 rounded hover:bg-neutral-8 transition-colors duration-150 cursor-pointer text-neutral-1 hover:text-neutral-0"
+            aria-label="Remove firm"
+          >
+            <Icon type="close" size="small" />
+          </button>
+        )}
+      </div>
       <div className="pl-4 py-3">
         <p className="typography-label-lg text-neutral-0 font-semibold">
           {firm.firmName}
         </p>
-        <p className="text-neutral-1 mt-1" style={{ fontSize: '14px' }}>
-          {firm.isMatched
-            ? `${firm.contactName} • ${firm.contactDesignation}`
-            : "Thank you. We'll be in touch with you about this firm."
-          }
-        </p>
+        {firm.isMatched ? (
+          <ul className="mt-1">
+            {(firm.contacts ?? []).map((contact, index) => (
+              <li key={index} className="text-neutral-1" style={{ fontSize: '14px' }}>
+                {contact.name} • {contact.designation}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-neutral-1 mt-1" style={{ fontSize: '14px' }}>
+            Thank you. We'll be in touch with you about this firm.
+          </p>
+        )}
       </div>
     </div>
   );
 }
 
-export function FirmSummaryList({ firms, onRemoveFirm }: FirmSummaryListProps) {
+export function FirmSummaryList({ firms, maxFirms, onRemoveFirm, onEditFirm }: FirmSummaryListProps) {
   if (firms.length === 0) {
     return null;
   }
@@ -45,11 +72,11 @@ export function FirmSummaryList({ firms, onRemoveFirm }: FirmSummaryListProps) {
           Firms Added
         </h3>
         <p className="text-base text-night-sky-blue-1 mb-4">
-          {firms.length} of 5 firms entered
+          {firms.length} of {maxFirms} firms entered
         </p>
         <div className="space-y-3">
           {firms.map((firm) => (
-            <FirmSummaryCard key={firm.id} firm={firm} onRemove={onRemoveFirm} />
+            <FirmSummaryCard key={firm.id} firm={firm} onRemove={onRemoveFirm} onEdit={onEditFirm} />
           ))}
         </div>
       </div>
@@ -1,5 +1,6 @@
 import type { FirmEntry } from '../types';
 import { Button } from './Button';
+import { MY_SUBMISSIONS_PATH } from '../shared/signIn';
 
 interface FormCompleteStepProps {
   enteredFirms: FirmEntry[];
@@ -33,6 +34,9 @@ export function FormCompleteStep({ enteredFirms, onNewSubmission }: FormComplete
           Thank you! You've submitted {enteredFirms.length} firm{enteredFirms.length !== 1 ? 's' : ''}.
           We'll be in touch soon.
         </p>
+        <p className="typography-body-text text-neutral-1 mt-2">
+          Need to change something later? <a href={MY_SUBMISSIONS_PATH} className="text-dark-blue-0 hover:underline">See your submissions</a>
+        </p>
       </div>
 
       {onNewSubmission && (
@@ -15,7 +15,7 @@ export type InputIntent = 'neutral' | 'informative' | 'positive' | 'warning' | '
 /**
  * Input type variants
  */
-export type InputType = 'text' | 'email' | 'password' | 'number' | 'url' | 'tel' | 'search';
+export type InputType = 'text' | 'email' | 'password' | 'number' | 'url' | 'tel' | 'search' | 'date';
 
 /**
  * Comprehensive Input component props interface
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import type { CreateInviteRequest } from '../types';
+import { SUBMISSION_LIMITS, isValidEmail } from '../shared/submissionSchema';
+import { getCampaigns } from '../shared/campaigns';
+import Input from './Input';
+import Select from './Select';
+import Button from './Button';
+import InlineBanner from './InlineBanner';
+
+interface InviteAdvisorFormProps {
+  onInvite: (invite: CreateInviteRequest) => Promise<boolean>;
+  /** Messages from the server when the last invite was rejected */
+  errors?: string[];
+}
+
+const CAMPAIGN_OPTIONS = getCampaigns().map(campaign => ({ value: campaign.slug, label: campaign.name }));
+
+const EXPIRY_OPTIONS = [
+  { value: '7', label: '7 days' },
+  { value: '14', label: '14 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' }
+];
+
+export function InviteAdvisorForm({ onInvite, errors = [] }: InviteAdvisorFormProps) {
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [campaign, setCampaign] = useState(CAMPAIGN_OPTIONS[0].value);
+  const [expiresInDays, setExpiresInDays] = useState('14');
+  const [emailError, setEmailError] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const trimmedEmail = email.trim();
+    if (!isValidEmail(trimmedEmail)) {
+      setEmailError('Please enter a valid email address');
+      return;
+    }
+
+    setSending(true);
+    try {
+      const created = await onInvite({
+        email: trimmedEmail,
+        name: name.trim() || undefined,
+        campaign,
+        expiresInDays: Number(expiresInDays)
+      });
+      if (created) {
+        setEmail('');
+        setName('');
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg p-6 space-y-4" style={{ border: '1px solid #eeeeee' }}>
+      {errors.length > 0 && (
+        <InlineBanner variant="error" title="The invite could not be created" description={errors.join(' ')} />
+      )}
+      <div className="grid gap-4 md:grid-cols-2">
+        <Input
+          id="invite-email"
+          type="email"
+          label="Advisor email"
+          helperText="The form will only accept submissions from this address"
+          value={email}
+          onChange={(event) => {
+            setEmail(event.target.value);
+            setEmailError('');
+          }}
+          error={emailError}
+          maxLength={SUBMISSION_LIMITS.userEmailLength}
+          required
+        />
+        <Input
+          id="invite-name"
+          label="Advisor name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={SUBMISSION_LIMITS.contactNameLength}
+        />
+        <Select
+          id="invite-campaign"
+          label="Campaign"
+          value={campaign}
+          onChange={(value) => setCampaign(value as string)}
+          options={CAMPAIGN_OPTIONS}
+        />
+        <Select
+          id="invite-expiry"
+          label="Link expires after"
+          value={expiresInDays}
+          onChange={(value) => setExpiresInDays(value as string)}
+          options={EXPIRY_OPTIONS}
+        />
+      </div>
+      <Button appearance="primary" size="small" htmlType="submit" disabled={sending || !email.trim()}>
+        {sending ? 'Creating...' : 'Create invite link'}
+      </Button>
+    </form>
+  );
+}
+
+export default InviteAdvisorForm;
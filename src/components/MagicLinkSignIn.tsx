@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { isValidEmail } from '../shared/submissionSchema';
+import Input from './Input';
+import Button from './Button';
+
+interface MagicLinkSignInProps {
+  onRequestLink: (email: string) => void;
+  /** A link is being requested */
+  sending?: boolean;
+}
+
+export function MagicLinkSignIn({ onRequestLink, sending = false }: MagicLinkSignInProps) {
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const trimmedEmail = email.trim();
+    if (!isValidEmail(trimmedEmail)) {
+      setEmailError('Please enter a valid email address');
+      return;
+    }
+
+    onRequestLink(trimmedEmail);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-left">
+      <Input
+        id="sign-in-email"
+        type="email"
+        label="Email Address"
+        helperText="The address you used on the form. We'll email you a link to sign in."
+        value={email}
+        onChange={(event) => {
+          setEmail(event.target.value);
+          setEmailError('');
+        }}
+        error={emailError}
+        autoComplete="email"
+        required
+      />
+      <Button appearance="primary" size="medium" htmlType="submit" disabled={sending || !email.trim()}>
+        {sending ? 'Sending...' : 'Email me a sign-in link'}
+      </Button>
+    </form>
+  );
+}
+
+export default MagicLinkSignIn;
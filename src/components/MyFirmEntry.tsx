@@ -0,0 +1,111 @@
+import type { EntryRevision, FirmContact, FirmEntry } from '../types';
+import { formatContactFrequency, formatRelationshipStrength } from '../shared/contactOptions';
+import { Badge } from './Badge';
+import Button from './Button';
+import Disclosure from './Disclosure';
+
+interface MyFirmEntryProps {
+  firm: FirmEntry;
+  onEditContacts: () => void;
+  onWithdraw: () => void;
+  onContactLeft: (contactIndex: number) => void;
+  /** A change to this entry is being saved */
+  saving?: boolean;
+}
+
+function formatDateTime(value: string | Date): string {
+  return new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function contactNames(contacts: FirmContact[] = []): string {
+  return contacts.length > 0 ? contacts.map(contact => contact.name).join(', ') : 'no contacts';
+}
+
+/**
+ * A sentence describing what a revision changed
+ */
+function describeRevision(revision: EntryRevision): string {
+  switch (revision.action) {
+    case 'update-contacts':
+      return `Contacts changed from ${contactNames(revision.before.contacts)} to ${contactNames(revision.after.contacts)}`;
+    case 'withdraw':
+      return 'Relationship withdrawn';
+    case 'mark-contact-left': {
+      const left = revision.after.contacts?.find((contact, index) => contact.leftFirmAt && !revision.before.contacts?.[index]?.leftFirmAt);
+      return `${left?.name ?? 'A contact'} marked as having left the firm`;
+    }
+  }
+}
+
+export function MyFirmEntry({ firm, onEditContacts, onWithdraw, onContactLeft, saving = false }: MyFirmEntryProps) {
+  const contacts = firm.contacts ?? [];
+  const revisions = firm.revisions ?? [];
+  const editable = !firm.withdrawnAt && !firm.supersededBy;
+
+  return (
+    <li className="py-4 space-y-3 text-left">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="typography-label-lg text-neutral-0 font-semibold">{firm.firmName}</span>
+        {firm.withdrawnAt && <Badge label={`Withdrawn ${formatDateTime(firm.withdrawnAt)}`} intent="warning" />}
+        {firm.supersededBy && <Badge label="Replaced by a later entry" />}
+      </div>
+
+      {firm.isMatched && contacts.length > 0 && (
+        <ul className="space-y-2">
+          {contacts.map((contact, index) => (
+            <li key={index} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <p className={contact.leftFirmAt ? 'text-neutral-1 line-through' : 'text-neutral-0'}>
+                  {contact.name}{contact.designation ? `, ${contact.designation}` : ''}
+                </p>
+                <p className="text-neutral-1">
+                  {formatRelationshipStrength(contact.relationshipStrength)} relationship · In touch {formatContactFrequency(contact.contactFrequency).toLowerCase()}
+                </p>
+              </div>
+              {contact.leftFirmAt ? (
+                <Badge label="Left the firm" intent="warning" />
+              ) : editable && (
+                <Button appearance="secondary" size="small" onClick={() => onContactLeft(index)} disabled={saving}>
+                  Left the firm
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!firm.isMatched && (
+        <p className="text-sm text-neutral-1">This firm isn't on our list yet, so there are no contacts to share.</p>
+      )}
+
+      {editable && (
+        <div className="flex flex-wrap gap-2">
+          {firm.isMatched && (
+            <Button appearance="secondary" size="small" onClick={onEditContacts} disabled={saving}>
+              Edit contacts
+            </Button>
+          )}
+          <Button appearance="secondary" size="small" onClick={onWithdraw} disabled={saving}>
+            Withdraw
+          </Button>
+        </div>
+      )}
+
+      {revisions.length > 0 && (
+        <Disclosure trigger={`Change history (${revisions.length})`} size="small">
+          <ol className="space-y-1 text-sm text-neutral-1">
+            {[...revisions].reverse().map(revision => (
+              <li key={revision.id}>
+                <span className="text-neutral-2">{formatDateTime(revision.at)}</span> · {describeRevision(revision)}
+              </li>
+            ))}
+          </ol>
+        </Disclosure>
+      )}
+
+      <p className="text-xs text-neutral-2">Added {formatDateTime(firm.timestamp)}</p>
+    </li>
+  );
+}
+
+export default MyFirmEntry;
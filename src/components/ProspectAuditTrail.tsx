@@ -0,0 +1,59 @@
+import type { FirmRecord, ProspectAuditEntry } from '../types';
+import { Badge, type BadgeIntent } from './Badge';
+import Disclosure from './Disclosure';
+
+interface ProspectAuditTrailProps {
+  entries: ProspectAuditEntry[];
+}
+
+const ACTION_LABELS: Record<ProspectAuditEntry['action'], { label: string; intent: BadgeIntent }> = {
+  create: { label: 'Added', intent: 'positive' },
+  update: { label: 'Edited', intent: 'informative' },
+  archive: { label: 'Archived', intent: 'warning' },
+  restore: { label: 'Restored', intent: 'positive' },
+  import: { label: 'Imported', intent: 'informative' }
+};
+
+function describeNames(firm: FirmRecord | null): string {
+  if (!firm) {
+    return '—';
+  }
+  const others = [...firm.aliases, ...firm.formerNames];
+  return others.length > 0 ? `${firm.name} (${others.join(', ')})` : firm.name;
+}
+
+export function ProspectAuditTrail({ entries }: ProspectAuditTrailProps) {
+  return (
+    <Disclosure trigger={`Change history (${entries.length})`}>
+      {entries.length === 0 ? (
+        <p className="text-sm text-neutral-1">No changes have been made to the prospect list yet.</p>
+      ) : (
+        <ul className="divide-y divide-neutral-4 text-left">
+          {entries.map(entry => {
+            const action = ACTION_LABELS[entry.action];
+            const renamed = entry.before && entry.after && describeNames(entry.before) !== describeNames(entry.after);
+
+            return (
+              <li key={entry.id} className="py-3 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge label={action.label} intent={action.intent} />
+                  <span className="font-semibold text-neutral-0">{(entry.after ?? entry.before)?.name ?? entry.firmId}</span>
+                </div>
+                {renamed && (
+                  <p className="text-sm text-neutral-1">
+                    {describeNames(entry.before)} → {describeNames(entry.after)}
+                  </p>
+                )}
+                <p className="text-xs text-neutral-2">
+                  {entry.actor} · {new Date(entry.at).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Disclosure>
+  );
+}
+
+export default ProspectAuditTrail;
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import type { ProspectFirm, ProspectFirmInput } from '../types';
+import { SUBMISSION_LIMITS } from '../shared/submissionSchema';
+import Dialog from './Dialog';
+import Input from './Input';
+import Button from './Button';
+import InlineBanner from './InlineBanner';
+import { TagInput, type TagData } from './Tag';
+
+interface ProspectFirmDialogProps {
+  open: boolean;
+  /** The firm to edit, or null to add a new firm */
+  firm: ProspectFirm | null;
+  onClose: () => void;
+  onSave: (firm: ProspectFirmInput) => Promise<void>;
+  /** Messages from the server when the last save was rejected */
+  errors?: string[];
+}
+
+function toTags(names: string[]): TagData[] {
+  return names.map((name, index) => ({ id: `${index}-${name}`, label: name }));
+}
+
+export function ProspectFirmDialog({ open, firm, onClose, onSave, errors = [] }: ProspectFirmDialogProps) {
+  const [name, setName] = useState('');
+  const [aliases, setAliases] = useState<TagData[]>([]);
+  const [formerNames, setFormerNames] = useState<TagData[]>([]);
+  const [nameError, setNameError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(firm?.name ?? '');
+      setAliases(toTags(firm?.aliases ?? []));
+      setFormerNames(toTags(firm?.formerNames ?? []));
+      setNameError('');
+    }
+  }, [open, firm]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setNameError('Firm name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        id: firm?.id,
+        name: name.trim(),
+        aliases: aliases.map(tag => tag.label),
+        formerNames: formerNames.map(tag => tag.label)
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      title={firm ? `Edit ${firm.name}` : 'Add prospect firm'}
+      description="Advisors are matched against the name, aliases and former names."
+      size="large"
+      footer={
+        <>
+          <Button appearance="secondary" size="small" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button appearance="primary" size="small" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save firm'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        {errors.length > 0 && (
+          <InlineBanner variant="error" title="This firm could not be saved" description={errors.join(' ')} />
+        )}
+        <Input
+          id="prospect-name"
+          label="Firm name"
+          value={name}
+          onChange={(event) => {
+            setName(event.target.value);
+            setNameError('');
+          }}
+          error={nameError}
+          maxLength={SUBMISSION_LIMITS.firmNameLength}
+          required
+        />
+        <TagInput
+          label="Aliases"
+          helperText="Short names and common spellings, e.g. Weil for Weil, Gotshal & Manges"
+          placeholder="Type an alias and press Enter"
+          tags={aliases}
+          onTagsChange={setAliases}
+        />
+        <TagInput
+          label="Former names"
+          helperText="Names the firm used before a merger or rebrand"
+          placeholder="Type a former name and press Enter"
+          tags={formerNames}
+          onTagsChange={setFormerNames}
+        />
+      </div>
+    </Dialog>
+  );
+}
+
+export default ProspectFirmDialog;
@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import type { ChangeEvent } from 'react';
+import type { FirmRecord, ProspectFirm, ProspectFirmInput, ProspectImportChange, ProspectImportIssue, ProspectImportPlan } from '../types';
+import { parseProspectCsv, planProspectImport } from '../shared/prospectList';
+import Dialog from './Dialog';
+import Textarea from './Textarea';
+import Switch from './Switch';
+import Button from './Button';
+import InlineBanner from './InlineBanner';
+import { Badge, type BadgeIntent } from './Badge';
+
+interface ProspectImportDialogProps {
+  open: boolean;
+  /** The full prospect list, including archived firms, to preview the import against */
+  currentFirms: ProspectFirm[];
+  onClose: () => void;
+  onImport: (firms: ProspectFirmInput[], archiveMissing: boolean) => Promise<void>;
+  /** Messages from the server when the last import was rejected */
+  errors?: string[];
+}
+
+interface Preview {
+  firms: ProspectFirmInput[];
+  plan: ProspectImportPlan;
+}
+
+const CHANGE_GROUPS: { type: ProspectImportChange['type']; label: string; intent: BadgeIntent }[] = [
+  { type: 'added', label: 'Added', intent: 'positive' },
+  { type: 'renamed', label: 'Renamed', intent: 'informative' },
+  { type: 'updated', label: 'New aliases', intent: 'informative' },
+  { type: 'restored', label: 'Restored', intent: 'positive' },
+  { type: 'removed', label: 'Archived', intent: 'warning' }
+];
+
+const EXAMPLE_CSV = 'name,aliases,former names\nWeil Gotshal & Manges,Weil;Weil Gotshal,';
+
+function describeChange(change: ProspectImportChange): string {
+  const otherNames = (firm: FirmRecord) => [...firm.aliases, ...firm.formerNames];
+
+  if (change.type === 'renamed' && change.before) {
+    return `${change.before.name} → ${change.after.name}`;
+  }
+  if (change.type === 'updated' && change.before) {
+    const before = new Set(otherNames(change.before));
+    const added = otherNames(change.after).filter(name => !before.has(name));
+    return `${change.after.name}: ${added.join(', ')}`;
+  }
+  const others = otherNames(change.after);
+  return others.length > 0 ? `${change.after.name} (${others.join(', ')})` : change.after.name;
+}
+
+function IssueBanners({ issues }: { issues: ProspectImportIssue[] }) {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  return (
+    <>
+      {errors.length > 0 && (
+        <InlineBanner
+          variant="error"
+          title={`Fix ${errors.length === 1 ? 'this problem' : `these ${errors.length} problems`} before importing`}
+        >
+          <ul className="list-disc pl-5 text-sm">
+            {errors.map((issue, index) => <li key={index}>{issue.message}</li>)}
+          </ul>
+        </InlineBanner>
+      )}
+      {warnings.length > 0 && (
+        <InlineBanner variant="warning" title="Check these before importing">
+          <ul className="list-disc pl-5 text-sm">
+            {warnings.map((issue, index) => <li key={index}>{issue.message}</li>)}
+          </ul>
+        </InlineBanner>
+      )}
+    </>
+  );
+}
+
+export function ProspectImportDialog({ open, currentFirms, onClose, onImport, errors = [] }: ProspectImportDialogProps) {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [archiveMissing, setArchiveMissing] = useState(false);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  // Start from a blank form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setText('');
+      setFileName(null);
+      setArchiveMissing(false);
+      setPreview(null);
+    }
+  }, [open]);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setFileName(file.name);
+    setText(await file.text());
+    setPreview(null);
+  };
+
+  const handlePreview = () => {
+    const parsed = parseProspectCsv(text);
+    const plan = parsed.firms.length > 0
+      ? planProspectImport(currentFirms, parsed.firms, archiveMissing)
+      : { changes: [], issues: [], unchanged: currentFirms.length };
+
+    setPreview({
+      firms: parsed.firms,
+      plan: { ...plan, issues: [...parsed.issues, ...plan.issues] }
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview) {
+      return;
+    }
+    setImporting(true);
+    try {
+      await onImport(preview.firms, archiveMissing);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const hasErrors = preview?.plan.issues.some(issue => issue.severity === 'error') ?? false;
+  const changeCount = preview?.plan.changes.length ?? 0;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      title="Import prospect firms from CSV"
+      description="Firms are matched by name, alias or former name. Review the changes before they are applied."
+      size="large"
+      footer={preview ? (
+        <>
+          <Button appearance="secondary" size="small" onClick={() => setPreview(null)} disabled={importing}>
+            Back
+          </Button>
+          <Button
+            appearance="primary"
+            size="small"
+            onClick={handleImport}
+            disabled={importing || hasErrors || changeCount === 0}
+          >
+            {importing ? 'Importing...' : `Apply ${changeCount} ${changeCount === 1 ? 'change' : 'changes'}`}
+          </Button>
+        </>
+      ) : (
+        <>
+          <Button appearance="secondary" size="small" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button appearance="primary" size="small" onClick={handlePreview} disabled={text.trim() === ''}>
+            Preview changes
+          </Button>
+        </>
+      )}
+    >
+      <div className="space-y-4">
+        {errors.length > 0 && (
+          <InlineBanner variant="error" title="The import could not be applied" description={errors.join(' ')} />
+        )}
+
+        {preview ? (
+          <>
+            <IssueBanners issues={preview.plan.issues} />
+            {changeCount === 0 && !hasErrors && (
+              <p className="text-sm text-neutral-1">This file matches the current list. There is nothing to import.</p>
+            )}
+            {CHANGE_GROUPS.map(group => {
+              const changes = preview.plan.changes.filter(change => change.type === group.type);
+              if (changes.length === 0) {
+                return null;
+              }
+              return (
+                <section key={group.type} className="space-y-2 text-left">
+                  <div className="flex items-center gap-2">
+                    <Badge label={group.label} intent={group.intent} />
+                    <span className="text-sm text-neutral-1">{changes.length}</span>
+                  </div>
+                  <ul className="text-sm text-neutral-0 space-y-1 pl-1">
+                    {changes.map(change => <li key={change.after.id}>{describeChange(change)}</li>)}
+                  </ul>
+                </section>
+              );
+            })}
+            <p className="text-sm text-neutral-1">
+              {preview.plan.unchanged} {preview.plan.unchanged === 1 ? 'firm is' : 'firms are'} unchanged.
+            </p>
+          </>
+        ) : (
+          <>
+            <div className="space-y-1 text-left">
+              <label htmlFor="prospect-import-file" className="typography-label-lg text-neutral-0">
+                CSV file
+              </label>
+              <input
+                id="prospect-import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                className="block text-sm text-neutral-1"
+              />
+              {fileName && <p className="text-xs text-neutral-2">Loaded {fileName}</p>}
+            </div>
+            <Textarea
+              id="prospect-import"
+              label="Or paste CSV"
+              helperText={`A header row with a "name" column, plus optional "aliases", "former names" and "id" columns. Separate multiple names with semicolons, e.g. ${EXAMPLE_CSV.split('\n')[1]}`}
+              placeholder={EXAMPLE_CSV}
+              rows={10}
+              value={text}
+              onChange={(event) => {
+                setText(event.target.value);
+                setFileName(null);
+              }}
+            />
+            <Switch
+              label="Archive firms not in this file"
+              helperText="Use this when the file is the complete list. Archived firms can be restored later."
+              checked={archiveMissing}
+              onChange={setArchiveMissing}
+            />
+          </>
+        )}
+      </div>
+    </Dialog>
+  );
+}
+
+export default ProspectImportDialog;
@@ -119,6 +119,30 @@ function Sidebar({ isCollapsed = false, onClose }: SidebarProps) {
 
       {/* Navigation */}
       <div className="flex-1 p-4 overflow-y-auto">
+        <NavSection title="Admin" isCollapsed={isCollapsed}>
+          <NavLink 
+            to="/admin" 
+            icon="📥"
+            isCollapsed={isCollapsed}
+          >
+            Submissions
+          </NavLink>
+          <NavLink 
+            to="/admin/prospects" 
+            icon="🏛️"
+            isCollapsed={isCollapsed}
+          >
+            Prospect Firms
+          </NavLink>
+          <NavLink 
+            to="/admin/invites" 
+            icon="✉️"
+            isCollapsed={isCollapsed}
+          >
+            Invites
+          </NavLink>
+        </NavSection>
+
         <NavSection title="Foundation" isCollapsed={isCollapsed}>
           <NavLink 
             to="/typography" 
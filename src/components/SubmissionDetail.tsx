@@ -0,0 +1,160 @@
+import type { DeliveryStatus, FirmContact, FirmEntry, SubmissionRecord } from '../types';
+import { formatContactFrequency, formatRelationshipStrength } from '../shared/contactOptions';
+import { getCampaign } from '../shared/campaigns';
+import { formatIntroPreference } from '../shared/consent';
+import { Badge, type BadgeIntent } from './Badge';
+import Disclosure from './Disclosure';
+
+interface SubmissionDetailProps {
+  submission: SubmissionRecord;
+  groupPosition?: 'standalone' | 'first' | 'middle' | 'last';
+}
+
+const DELIVERY_INTENTS: Record<DeliveryStatus['status'], BadgeIntent> = {
+  delivered: 'positive',
+  pending: 'warning',
+  failed: 'negative'
+};
+
+const STRENGTH_INTENTS: Record<string, BadgeIntent> = {
+  'very-strong': 'positive',
+  strong: 'positive',
+  moderate: 'informative',
+  weak: 'neutral'
+};
+
+function formatDateTime(value: string | Date): string {
+  return new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function SubmittedContact({ contact }: { contact: FirmContact }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        {contact.relationshipStrength && (
+          <Badge
+            label={formatRelationshipStrength(contact.relationshipStrength)}
+            intent={STRENGTH_INTENTS[contact.relationshipStrength]}
+          />
+        )}
+        {contact.leftFirmAt && <Badge label={`Left the firm ${formatDateTime(contact.leftFirmAt)}`} intent="warning" />}
+      </div>
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm text-neutral-1">
+        <dt>Contact</dt>
+        <dd className="text-neutral-0">{contact.name}</dd>
+        <dt>Designation</dt>
+        <dd className="text-neutral-0">{contact.designation || 'Not provided'}</dd>
+        <dt>In touch</dt>
+        <dd className="text-neutral-0">{formatContactFrequency(contact.contactFrequency)}</dd>
+        {contact.email && (
+          <>
+            <dt>Email</dt>
+            <dd className="text-neutral-0 break-all">
+              <a href={`mailto:${contact.email}`} className="text-dark-blue-0 hover:underline">{contact.email}</a>
+            </dd>
+          </>
+        )}
+        {contact.phone && (
+          <>
+            <dt>Phone</dt>
+            <dd className="text-neutral-0">{contact.phone}</dd>
+          </>
+        )}
+        {contact.linkedinUrl && (
+          <>
+            <dt>LinkedIn</dt>
+            <dd className="text-neutral-0 break-all">
+              <a href={contact.linkedinUrl} target="_blank" rel="noopener noreferrer" className="text-dark-blue-0 hover:underline">
+                {contact.linkedinUrl}
+              </a>
+            </dd>
+          </>
+        )}
+        {contact.practiceArea && (
+          <>
+            <dt>Practice area</dt>
+            <dd className="text-neutral-0">{contact.practiceArea}</dd>
+          </>
+        )}
+        {contact.introNotes && (
+          <>
+            <dt>How they know them</dt>
+            <dd className="text-neutral-0 whitespace-pre-line">{contact.introNotes}</dd>
+          </>
+        )}
+      </dl>
+    </div>
+  );
+}
+
+function SubmittedFirm({ firm }: { firm: FirmEntry }) {
+  const contacts = firm.contacts ?? [];
+
+  return (
+    <li className="py-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="typography-label-lg text-neutral-0 font-semibold">{firm.firmName}</span>
+        <Badge label={firm.isMatched ? 'Matched' : 'Unmatched'} intent={firm.isMatched ? 'informative' : 'neutral'} />
+        {contacts.length > 1 && <Badge label={`${contacts.length} contacts`} />}
+        {firm.amends && <Badge label="Updates an earlier entry" />}
+        {firm.supersededBy && <Badge label="Replaced by a later entry" intent="warning" />}
+        {firm.withdrawnAt && <Badge label="Withdrawn by the advisor" intent="warning" />}
+        {firm.revisions?.length ? (
+          <Badge label={`Changed by the advisor ${firm.revisions.length === 1 ? 'once' : `${firm.revisions.length} times`}`} />
+        ) : null}
+      </div>
+      {firm.isMatched && (contacts.length > 0 ? (
+        contacts.map((contact, index) => <SubmittedContact key={index} contact={contact} />)
+      ) : (
+        <p className="text-sm text-neutral-1">No contact provided</p>
+      ))}
+      <p className="text-xs text-neutral-2">Added {formatDateTime(firm.timestamp)}</p>
+    </li>
+  );
+}
+
+export function SubmissionDetail({ submission, groupPosition = 'standalone' }: SubmissionDetailProps) {
+  const { firms, userEmail, campaign } = submission.payload;
+  const campaignName = campaign ? getCampaign(campaign)?.name ?? campaign : null;
+  const matchedCount = firms.filter(firm => firm.isMatched).length;
+
+  return (
+    <Disclosure
+      trigger={`${userEmail} · ${formatDateTime(submission.receivedAt)} · ${firms.length} ${firms.length === 1 ? 'firm' : 'firms'}`}
+      groupPosition={groupPosition}
+    >
+      <div className="space-y-4 text-left">
+        <div className="flex flex-wrap items-center gap-2">
+          {campaignName && <Badge label={`Campaign: ${campaignName}`} />}
+          {submission.advisorId && <Badge label="Verified by invite" intent="positive" />}
+          {submission.consent && <Badge label={`Intro: ${formatIntroPreference(submission.consent.introPreference)}`} />}
+          <Badge label={`${matchedCount} matched`} intent="informative" />
+          <Badge label={`${firms.length - matchedCount} unmatched`} />
+          {Object.entries(submission.deliveries).map(([channel, delivery]) => (
+            <Badge
+              key={channel}
+              label={`${channel}: ${delivery.status}`}
+              intent={DELIVERY_INTENTS[delivery.status]}
+              aria-label={delivery.error ? `${channel} ${delivery.status}: ${delivery.error}` : undefined}
+            />
+          ))}
+        </div>
+
+        <ul className="divide-y divide-neutral-4">
+          {firms.map(firm => (
+            <SubmittedFirm key={firm.id} firm={firm} />
+          ))}
+        </ul>
+
+        <p className="text-xs text-neutral-2">
+          {submission.consent
+            ? `Agreed to privacy notice ${submission.consent.privacyNoticeVersion} on ${formatDateTime(submission.consent.consentedAt)} · `
+            : 'No consent recorded · '}
+          Submission ID {submission.id}
+        </p>
+      </div>
+    </Disclosure>
+  );
+}
+
+export default SubmissionDetail;
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import type { SubmissionExportFormat, SubmissionExportView } from '../types';
+import Select from './Select';
+import Button from './Button';
+import Icon from './Icon';
+
+interface SubmissionExportActionsProps {
+  onExport: (view: SubmissionExportView, format: SubmissionExportFormat) => Promise<void>;
+  disabled?: boolean;
+}
+
+const VIEW_OPTIONS = [
+  { value: 'entries', label: 'One row per firm', description: 'Advisor, firm, contact, strength, frequency and timestamp' },
+  { value: 'matrix', label: 'Firm × advisor matrix', description: 'Relationship strength pivoted by firm and advisor' }
+];
+
+export function SubmissionExportActions({ onExport, disabled = false }: SubmissionExportActionsProps) {
+  const [view, setView] = useState<SubmissionExportView>('entries');
+  const [exporting, setExporting] = useState<SubmissionExportFormat | null>(null);
+
+  const handleExport = async (format: SubmissionExportFormat) => {
+    setExporting(format);
+    try {
+      await onExport(view, format);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const isDisabled = disabled || exporting !== null;
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div className="w-64">
+        <Select
+          id="export-view"
+          label="Export"
+          size="small"
+          value={view}
+          onChange={(value) => setView(value as SubmissionExportView)}
+          options={VIEW_OPTIONS}
+          disabled={isDisabled}
+        />
+      </div>
+      <Button
+        appearance="secondary"
+        size="small"
+        beforeIcon={<Icon type="export" size="small" />}
+        onClick={() => handleExport('csv')}
+        disabled={isDisabled}
+      >
+        {exporting === 'csv' ? 'Exporting...' : 'CSV'}
+      </Button>
+      <Button
+        appearance="secondary"
+        size="small"
+        beforeIcon={<Icon type="file-excel" size="small" />}
+        onClick={() => handleExport('xlsx')}
+        disabled={isDisabled}
+      >
+        {exporting === 'xlsx' ? 'Exporting...' : 'Excel'}
+      </Button>
+    </div>
+  );
+}
+
+export default SubmissionExportActions;
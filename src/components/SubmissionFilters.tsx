@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import type { SubmissionListFilters } from '../types';
+import { RELATIONSHIP_STRENGTH_OPTIONS, type RelationshipStrength } from '../shared/contactOptions';
+import Input from './Input';
+import Select from './Select';
+import Button from './Button';
+
+interface SubmissionFiltersProps {
+  filters: SubmissionListFilters;
+  onApply: (filters: SubmissionListFilters) => void;
+  disabled?: boolean;
+}
+
+const STATUS_OPTIONS = [
+  { value: '', label: 'All firms' },
+  { value: 'matched', label: 'Matched' },
+  { value: 'unmatched', label: 'Unmatched' }
+];
+
+const STRENGTH_OPTIONS = [
+  { value: '', label: 'Any strength' },
+  ...RELATIONSHIP_STRENGTH_OPTIONS
+];
+
+function emptyToUndefined<T extends string>(value: string): T | undefined {
+  return value === '' ? undefined : value as T;
+}
+
+export function SubmissionFilters({ filters, onApply, disabled = false }: SubmissionFiltersProps) {
+  const [draft, setDraft] = useState<SubmissionListFilters>(filters);
+
+  const handleTextChange = (field: 'from' | 'to' | 'userEmail' | 'firm') =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setDraft(prev => ({ ...prev, [field]: emptyToUndefined(event.target.value) }));
+    };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onApply(draft);
+  };
+
+  const handleReset = () => {
+    setDraft({});
+    onApply({});
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg p-6 space-y-4" style={{ border: '1px solid #eeeeee' }}>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        <Input
+          id="filter-from"
+          type="date"
+          label="Received from"
+          value={draft.from ?? ''}
+          onChange={handleTextChange('from')}
+          disabled={disabled}
+        />
+        <Input
+          id="filter-to"
+          type="date"
+          label="Received to"
+          value={draft.to ?? ''}
+          onChange={handleTextChange('to')}
+          disabled={disabled}
+        />
+        <Input
+          id="filter-email"
+          type="search"
+          label="Advisor email"
+          placeholder="name@example.com"
+          value={draft.userEmail ?? ''}
+          onChange={handleTextChange('userEmail')}
+          disabled={disabled}
+        />
+        <Input
+          id="filter-firm"
+          type="search"
+          label="Firm"
+          placeholder="e.g. Latham"
+          value={draft.firm ?? ''}
+          onChange={handleTextChange('firm')}
+          disabled={disabled}
+        />
+        <Select
+          id="filter-status"
+          label="Match status"
+          value={draft.status ?? ''}
+          onChange={(value) => setDraft(prev => ({
+            ...prev,
+            status: emptyToUndefined<'matched' | 'unmatched'>(value as string)
+          }))}
+          options={STATUS_OPTIONS}
+          disabled={disabled}
+        />
+        <Select
+          id="filter-strength"
+          label="Relationship strength"
+          value={draft.relationshipStrength ?? ''}
+          onChange={(value) => setDraft(prev => ({
+            ...prev,
+            relationshipStrength: emptyToUndefined<RelationshipStrength>(value as string)
+          }))}
+          options={STRENGTH_OPTIONS}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <Button appearance="secondary" size="small" onClick={handleReset} disabled={disabled}>
+          Reset
+        </Button>
+        <Button appearance="primary" size="small" htmlType="submit" disabled={disabled}>
+          Apply filters
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default SubmissionFilters;
@@ -0,0 +1,197 @@
+import { useState, useEffect, useCallback } from 'react'
+import Layout from '../components/Layout'
+import AdminSignIn from '../components/AdminSignIn'
+import InviteAdvisorForm from '../components/InviteAdvisorForm'
+import InlineBanner from '../components/InlineBanner'
+import Button from '../components/Button'
+import Loader from '../components/Loader'
+import Toast from '../components/Toast'
+import { Badge } from '../components/Badge'
+import { AdminApiError, AdminService } from '../services/AdminService'
+import type { Advisor, CreateInviteRequest, CreateInviteResponse } from '../types'
+
+function errorMessages(error: unknown): string[] {
+  if (error instanceof AdminApiError && error.details?.length) {
+    return error.details.map(detail => detail.message);
+  }
+  return [error instanceof Error ? error.message : 'Something went wrong'];
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { dateStyle: 'medium' });
+}
+
+export default function AdminInvitesPage() {
+  const [token, setToken] = useState<string | null>(() => AdminService.getToken());
+  const [advisors, setAdvisors] = useState<Advisor[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteErrors, setInviteErrors] = useState<string[]>([]);
+  const [latestInvite, setLatestInvite] = useState<CreateInviteResponse | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  const handleAuthError = useCallback((requestError: unknown): boolean => {
+    if (requestError instanceof AdminApiError && requestError.status === 401) {
+      AdminService.signOut();
+      setToken(null);
+      setError('That access token was not accepted. Please sign in again.');
+      return true;
+    }
+    return false;
+  }, []);
+
+  const loadAdvisors = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setAdvisors((await AdminService.listAdvisors()).advisors);
+    } catch (loadError) {
+      if (!handleAuthError(loadError)) {
+        console.error('Error loading advisors:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load advisors');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [handleAuthError]);
+
+  useEffect(() => {
+    if (token) {
+      loadAdvisors();
+    }
+  }, [token, loadAdvisors]);
+
+  // Auto-dismiss toast after 3 seconds
+  useEffect(() => {
+    if (toastMessage) {
+      const timer = setTimeout(() => setToastMessage(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [toastMessage]);
+
+  const handleSignIn = (nextToken: string) => {
+    AdminService.signIn(nextToken);
+    setError(null);
+    setToken(nextToken);
+  };
+
+  const handleSignOut = () => {
+    AdminService.signOut();
+    setToken(null);
+    setAdvisors(null);
+    setLatestInvite(null);
+  };
+
+  const handleInvite = async (invite: CreateInviteRequest): Promise<boolean> => {
+    setInviteErrors([]);
+
+    try {
+      const created = await AdminService.createInvite(invite);
+      setLatestInvite(created);
+      setAdvisors(prev => [created.advisor, ...(prev ?? []).filter(advisor => advisor.id !== created.advisor.id)]);
+      return true;
+    } catch (inviteError) {
+      if (!handleAuthError(inviteError)) {
+        console.error('Error creating invite:', inviteError);
+        setInviteErrors(errorMessages(inviteError));
+      }
+      return false;
+    }
+  };
+
+  const inviteUrl = latestInvite ? `${window.location.origin}${latestInvite.path}` : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      setToastMessage('Invite link copied');
+    } catch (copyError) {
+      console.error('Error copying invite link:', copyError);
+      setError('The link could not be copied. Select it and copy it manually.');
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto px-4 py-8 pl-20 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="typography-h2 text-night-sky-blue-dark-1">Invites</h1>
+            <p className="text-neutral-1">Personal links that fill in and lock the advisor's email address.</p>
+          </div>
+          {token && (
+            <Button appearance="secondary" size="small" onClick={handleSignOut}>
+              Sign out
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <InlineBanner variant="error" title={error} onClose={() => setError(null)} />
+        )}
+
+        {!token ? (
+          <AdminSignIn onSignIn={handleSignIn} />
+        ) : (
+          <>
+            <InviteAdvisorForm onInvite={handleInvite} errors={inviteErrors} />
+
+            {latestInvite && (
+              <InlineBanner
+                variant="success"
+                title={`Invite link for ${latestInvite.advisor.email}`}
+                description={`Expires on ${formatDate(latestInvite.expiresAt)}. Anyone with this link can submit as this advisor, so send it only to them.`}
+                onClose={() => setLatestInvite(null)}
+                className="text-left"
+              >
+                <code className="block w-full break-all text-xs bg-white rounded p-2" style={{ border: '1px solid #eeeeee' }}>
+                  {inviteUrl}
+                </code>
+                <Button appearance="primary" size="small" onClick={handleCopy}>
+                  Copy link
+                </Button>
+              </InlineBanner>
+            )}
+
+            {loading && !advisors ? (
+              <div className="flex justify-center py-12">
+                <Loader aria-label="Loading advisors" />
+              </div>
+            ) : advisors && (
+              <ul className="bg-white rounded-lg divide-y divide-neutral-4" style={{ border: '1px solid #eeeeee' }}>
+                {advisors.length === 0 && (
+                  <li className="p-4 text-sm text-neutral-1">No advisors have been invited yet.</li>
+                )}
+                {advisors.map(advisor => {
+                  const expired = new Date(advisor.inviteExpiresAt).getTime() <= Date.now();
+                  return (
+                    <li key={advisor.id} className="p-4 flex flex-wrap items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="typography-label-lg text-neutral-0 font-semibold">{advisor.name || advisor.email}</p>
+                        {advisor.name && <p className="text-sm text-neutral-1">{advisor.email}</p>}
+                        <p className="text-xs text-neutral-2">
+                          Invited by {advisor.invitedBy} on {formatDate(advisor.invitedAt)}
+                        </p>
+                      </div>
+                      <Badge
+                        label={expired ? 'Invite expired' : `Expires ${formatDate(advisor.inviteExpiresAt)}`}
+                        intent={expired ? 'warning' : 'positive'}
+                      />
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </>
+        )}
+
+        {toastMessage && (
+          <div className="flex justify-center">
+            <Toast label={toastMessage} intent="success" onClose={() => setToastMessage(null)} />
+          </div>
+        )}
+      </div>
+    </Layout>
+  )
+}
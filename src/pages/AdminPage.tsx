@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback } from 'react'
+import Layout from '../components/Layout'
+import SubmissionFilters from '../components/SubmissionFilters'
+import SubmissionDetail from '../components/SubmissionDetail'
+import SubmissionExportActions from '../components/SubmissionExportActions'
+import InlineBanner from '../components/InlineBanner'
+import AdminSignIn from '../components/AdminSignIn'
+import Button from '../components/Button'
+import Loader from '../components/Loader'
+import { AdminApiError, AdminService } from '../services/AdminService'
+import type {
+  RejectionReason,
+  SubmissionExportFormat,
+  SubmissionExportView,
+  SubmissionListFilters,
+  SubmissionListResponse
+} from '../types'
+
+const PAGE_SIZE = 20;
+
+const REJECTION_LABELS: Record<RejectionReason, string> = {
+  'honeypot': 'filled in the hidden field',
+  'too-fast': 'submitted too quickly',
+  'proof-of-work': 'failed the proof of work',
+  'ip-rate-limit': 'too many from one IP address',
+  'email-rate-limit': 'too many for one email address'
+};
+
+function rejectionSummary(rejections: SubmissionListResponse['rejections']): string | null {
+  const counted = Object.entries(rejections ?? {}).filter(([, count]) => count > 0) as Array<[RejectionReason, number]>;
+  if (counted.length === 0) {
+    return null;
+  }
+
+  const total = counted.reduce((sum, [, count]) => sum + count, 0);
+  const breakdown = counted.map(([reason, count]) => `${count} ${REJECTION_LABELS[reason]}`).join(', ');
+  return `${total} submission ${total === 1 ? 'attempt was' : 'attempts were'} turned away in the last 7 days: ${breakdown}.`;
+}
+
+function groupPositionFor(index: number, count: number): 'standalone' | 'first' | 'middle' | 'last' {
+  if (count === 1) {
+    return 'standalone';
+  }
+  if (index === 0) {
+    return 'first';
+  }
+  return index === count - 1 ? 'last' : 'middle';
+}
+
+export default function AdminPage() {
+  const [token, setToken] = useState<string | null>(() => AdminService.getToken());
+  const [filters, setFilters] = useState<SubmissionListFilters>({});
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<SubmissionListResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAuthError = useCallback((requestError: unknown): boolean => {
+    if (requestError instanceof AdminApiError && requestError.status === 401) {
+      AdminService.signOut();
+      setToken(null);
+      setError('That access token was not accepted. Please sign in again.');
+      return true;
+    }
+    return false;
+  }, []);
+
+  const loadSubmissions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setResult(await AdminService.listSubmissions(filters, page, PAGE_SIZE));
+    } catch (loadError) {
+      if (!handleAuthError(loadError)) {
+        console.error('Error loading submissions:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load submissions');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page, handleAuthError]);
+
+  useEffect(() => {
+    if (token) {
+      loadSubmissions();
+    }
+  }, [token, loadSubmissions]);
+
+  const handleSignIn = (nextToken: string) => {
+    AdminService.signIn(nextToken);
+    setError(null);
+    setToken(nextToken);
+  };
+
+  const handleSignOut = () => {
+    AdminService.signOut();
+    setToken(null);
+    setResult(null);
+  };
+
+  const handleExport = async (view: SubmissionExportView, format: SubmissionExportFormat) => {
+    setError(null);
+    try {
+      await AdminService.downloadExport(filters, view, format);
+    } catch (exportError) {
+      if (!handleAuthError(exportError)) {
+        console.error('Error exporting submissions:', exportError);
+        setError(exportError instanceof Error ? exportError.message : 'Failed to export submissions');
+      }
+    }
+  };
+
+  const handleApplyFilters = (nextFilters: SubmissionListFilters) => {
+    setFilters(nextFilters);
+    setPage(1);
+  };
+
+  const submissions = result?.submissions ?? [];
+  const firstShown = result && result.total > 0 ? (result.page - 1) * result.pageSize + 1 : 0;
+  const lastShown = firstShown + Math.max(submissions.length - 1, 0);
+  const rejected = rejectionSummary(result?.rejections);
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto px-4 py-8 pl-20 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="typography-h2 text-night-sky-blue-dark-1">Submissions</h1>
+            <p className="text-neutral-1">Relationships shared by advisors through the Network Assist Portal.</p>
+          </div>
+          {token && (
+            <Button appearance="secondary" size="small" onClick={handleSignOut}>
+              Sign out
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <InlineBanner variant="error" title={error} onClose={() => setError(null)} />
+        )}
+
+        {!token ? (
+          <AdminSignIn onSignIn={handleSignIn} />
+        ) : (
+          <>
+            <SubmissionFilters filters={filters} onApply={handleApplyFilters} disabled={loading} />
+
+            <div className="flex justify-end">
+              <SubmissionExportActions onExport={handleExport} disabled={loading || result?.total === 0} />
+            </div>
+
+            {loading && !result ? (
+              <div className="flex justify-center py-12">
+                <Loader aria-label="Loading submissions" />
+              </div>
+            ) : result && (
+              <div className="space-y-4" aria-busy={loading}>
+                <p className="text-sm text-neutral-1" aria-live="polite">
+                  {result.total === 0
+                    ? 'No submissions match these filters.'
+                    : `Showing ${firstShown}–${lastShown} of ${result.total} submissions`}
+                </p>
+                {rejected && (
+                  <p className="text-sm text-neutral-1">{rejected}</p>
+                )}
+
+                <div>
+                  {submissions.map((submission, index) => (
+                    <SubmissionDetail
+                      key={submission.id}
+                      submission={submission}
+                      groupPosition={groupPositionFor(index, submissions.length)}
+                    />
+                  ))}
+                </div>
+
+                {result.totalPages > 1 && (
+                  <nav className="flex items-center justify-between" aria-label="Pagination">
+                    <Button
+                      appearance="secondary"
+                      size="small"
+                      onClick={() => setPage(result.page - 1)}
+                      disabled={loading || result.page <= 1}
+                    >
+                      Previous
+                    </Button>
+                    <span className="text-sm text-neutral-1">
+                      Page {result.page} of {result.totalPages}
+                    </span>
+                    <Button
+                      appearance="secondary"
+                      size="small"
+                      onClick={() => setPage(result.page + 1)}
+                      disabled={loading || result.page >= result.totalPages}
+                    >
+                      Next
+                    </Button>
+                  </nav>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  )
+}
@@ -0,0 +1,285 @@
+import { useState, useEffect, useCallback } from 'react'
+import Layout from '../components/Layout'
+import AdminSignIn from '../components/AdminSignIn'
+import ProspectFirmDialog from '../components/ProspectFirmDialog'
+import ProspectImportDialog from '../components/ProspectImportDialog'
+import ProspectAuditTrail from '../components/ProspectAuditTrail'
+import InlineBanner from '../components/InlineBanner'
+import Input from '../components/Input'
+import Switch from '../components/Switch'
+import Button from '../components/Button'
+import Loader from '../components/Loader'
+import Toast from '../components/Toast'
+import { Badge } from '../components/Badge'
+import { Tag } from '../components/Tag'
+import { AdminApiError, AdminService } from '../services/AdminService'
+import { FirmService } from '../services/FirmService'
+import type { ManageProspectsResponse, ProspectChange, ProspectFirm, ProspectFirmInput } from '../types'
+
+type OpenDialog = { type: 'firm'; firm: ProspectFirm | null } | { type: 'import' } | null;
+
+function errorMessages(error: unknown): string[] {
+  if (error instanceof AdminApiError && error.details?.length) {
+    return error.details.map(detail => detail.message);
+  }
+  return [error instanceof Error ? error.message : 'Something went wrong'];
+}
+
+export default function AdminProspectsPage() {
+  const [token, setToken] = useState<string | null>(() => AdminService.getToken());
+  const [data, setData] = useState<ManageProspectsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [openDialog, setOpenDialog] = useState<OpenDialog>(null);
+  const [dialogErrors, setDialogErrors] = useState<string[]>([]);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  const handleAuthError = useCallback((requestError: unknown): boolean => {
+    if (requestError instanceof AdminApiError && requestError.status === 401) {
+      AdminService.signOut();
+      setToken(null);
+      setError('That access token was not accepted. Please sign in again.');
+      return true;
+    }
+    return false;
+  }, []);
+
+  const loadProspects = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setData(await AdminService.getProspects());
+    } catch (loadError) {
+      if (!handleAuthError(loadError)) {
+        console.error('Error loading prospect list:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load the prospect list');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [handleAuthError]);
+
+  useEffect(() => {
+    if (token) {
+      loadProspects();
+    }
+  }, [token, loadProspects]);
+
+  // Auto-dismiss toast after 3 seconds
+  useEffect(() => {
+    if (toastMessage) {
+      const timer = setTimeout(() => setToastMessage(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [toastMessage]);
+
+  const handleSignIn = (nextToken: string) => {
+    AdminService.signIn(nextToken);
+    setError(null);
+    setToken(nextToken);
+  };
+
+  const handleSignOut = () => {
+    AdminService.signOut();
+    setToken(null);
+    setData(null);
+  };
+
+  /**
+   * Apply a change and refresh the list. Returns whether it succeeded so dialogs know whether to close.
+   */
+  const applyChange = async (change: ProspectChange, successMessage: string): Promise<boolean> => {
+    if (!data) {
+      return false;
+    }
+
+    setDialogErrors([]);
+    setError(null);
+
+    try {
+      setData(await AdminService.changeProspects(change, data.version));
+      // Make this browser's matching pick up the change straight away
+      FirmService.loadFirms(true);
+      setToastMessage(successMessage);
+      return true;
+    } catch (changeError) {
+      if (!handleAuthError(changeError)) {
+        console.error('Error updating prospect list:', changeError);
+        // Someone else saved first; show their changes so the admin can make this one again
+        if (changeError instanceof AdminApiError && changeError.status === 412) {
+          setData(await AdminService.getProspects().catch(() => data));
+        }
+        if (openDialog) {
+          setDialogErrors(errorMessages(changeError));
+        } else {
+          setError(errorMessages(changeError).join(' '));
+        }
+      }
+      return false;
+    }
+  };
+
+  const handleSaveFirm = async (firm: ProspectFirmInput) => {
+    const change: ProspectChange = firm.id
+      ? { action: 'update', firm: { ...firm, id: firm.id } }
+      : { action: 'create', firm };
+    if (await applyChange(change, firm.id ? `${firm.name} updated` : `${firm.name} added`)) {
+      setOpenDialog(null);
+    }
+  };
+
+  const handleImport = async (firms: ProspectFirmInput[], archiveMissing: boolean) => {
+    if (await applyChange({ action: 'import', firms, archiveMissing }, 'Import applied')) {
+      setOpenDialog(null);
+    }
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(null);
+    setDialogErrors([]);
+  };
+
+  const query = FirmService.normalizeFirmName(search);
+  const firms = (data?.firms ?? [])
+    .filter(firm => showArchived || firm.status === 'active')
+    .filter(firm => !query || [firm.name, ...firm.aliases, ...firm.formerNames]
+      .some(name => FirmService.normalizeFirmName(name).includes(query)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const activeCount = data?.firms.filter(firm => firm.status === 'active').length ?? 0;
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto px-4 py-8 pl-20 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="typography-h2 text-night-sky-blue-dark-1">Prospect firms</h1>
+            <p className="text-neutral-1">Firms advisors are matched against. Changes apply without a rebuild.</p>
+          </div>
+          {token && (
+            <Button appearance="secondary" size="small" onClick={handleSignOut}>
+              Sign out
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <InlineBanner variant="error" title={error} onClose={() => setError(null)} />
+        )}
+
+        {!token ? (
+          <AdminSignIn onSignIn={handleSignIn} />
+        ) : loading && !data ? (
+          <div className="flex justify-center py-12">
+            <Loader aria-label="Loading prospect list" />
+          </div>
+        ) : data && (
+          <>
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="w-72">
+                  <Input
+                    id="prospect-search"
+                    type="search"
+                    label="Search"
+                    placeholder="Name, alias or former name"
+                    value={search}
+                    onChange={(event) => setSearch(event.target.value)}
+                  />
+                </div>
+                <Switch label="Show archived" checked={showArchived} onChange={setShowArchived} />
+              </div>
+              <div className="flex gap-3">
+                <Button appearance="secondary" size="small" onClick={() => setOpenDialog({ type: 'import' })}>
+                  Import CSV
+                </Button>
+                <Button appearance="primary" size="small" onClick={() => setOpenDialog({ type: 'firm', firm: null })}>
+                  Add firm
+                </Button>
+              </div>
+            </div>
+
+            <p className="text-sm text-neutral-1" aria-live="polite">
+              {activeCount} active {activeCount === 1 ? 'firm' : 'firms'}
+              {data.firms.length > activeCount && `, ${data.firms.length - activeCount} archived`}
+            </p>
+
+            <ul className="bg-white rounded-lg divide-y divide-neutral-4" style={{ border: '1px solid #eeeeee' }}>
+              {firms.length === 0 && (
+                <li className="p-4 text-sm text-neutral-1">No firms match your search.</li>
+              )}
+              {firms.map(firm => (
+                <li key={firm.id} className="p-4 flex flex-wrap items-start justify-between gap-4">
+                  <div className="space-y-2 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="typography-label-lg text-neutral-0 font-semibold">{firm.name}</span>
+                      {firm.status === 'archived' && <Badge label="Archived" intent="warning" />}
+                    </div>
+                    {(firm.aliases.length > 0 || firm.formerNames.length > 0) && (
+                      <div className="flex flex-wrap gap-1">
+                        {firm.aliases.map(alias => <Tag key={`alias-${alias}`} label={alias} />)}
+                        {firm.formerNames.map(name => <Tag key={`former-${name}`} label={`Formerly ${name}`} />)}
+                      </div>
+                    )}
+                    {firm.updatedAt && (
+                      <p className="text-xs text-neutral-2">
+                        Updated by {firm.updatedBy} on {new Date(firm.updatedAt).toLocaleDateString('en-GB', { dateStyle: 'medium' })}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button appearance="secondary" size="small" onClick={() => setOpenDialog({ type: 'firm', firm })}>
+                      Edit
+                    </Button>
+                    {firm.status === 'active' ? (
+                      <Button
+                        appearance="secondary"
+                        size="small"
+                        onClick={() => applyChange({ action: 'archive', firmId: firm.id }, `${firm.name} archived`)}
+                      >
+                        Archive
+                      </Button>
+                    ) : (
+                      <Button
+                        appearance="secondary"
+                        size="small"
+                        onClick={() => applyChange({ action: 'restore', firmId: firm.id }, `${firm.name} restored`)}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <ProspectAuditTrail entries={data.audit} />
+          </>
+        )}
+
+        {toastMessage && (
+          <div className="flex justify-center">
+            <Toast label={toastMessage} intent="success" onClose={() => setToastMessage(null)} />
+          </div>
+        )}
+      </div>
+
+      <ProspectFirmDialog
+        open={openDialog?.type === 'firm'}
+        firm={openDialog?.type === 'firm' ? openDialog.firm : null}
+        onClose={handleCloseDialog}
+        onSave={handleSaveFirm}
+        errors={dialogErrors}
+      />
+      <ProspectImportDialog
+        open={openDialog?.type === 'import'}
+        currentFirms={data?.firms ?? []}
+        onClose={handleCloseDialog}
+        onImport={handleImport}
+        errors={dialogErrors}
+      />
+    </Layout>
+  )
+}
@@ -1,23 +1,31 @@
-import { useState, useEffect } from 'react'
-import AdvisorForm from '../components/AdvisorForm'
+import { useState, useEffect, useRef } from 'react'
+import { useParams, useSearchParams } from 'react-router-dom'
+import AdvisorForm, { type AdvisorFormHandle } from '../components/AdvisorForm'
 import FirmSummaryList from '../components/FirmSummaryList'
-import Toast from '../components/Toast'
+import Toast, { type ToastAction } from '../components/Toast'
 import type { FirmEntry } from '../types'
+import { getCampaign } from '../shared/campaigns'
+import { INVITE_PARAM } from '../shared/inviteToken'
 import DefinitelyLogo from '../assets/definely-logo.svg?react'
 
 export default function HomePage() {
+  const { campaignSlug } = useParams<{ campaignSlug: string }>();
+  const campaign = getCampaign(campaignSlug);
+  const [searchParams] = useSearchParams();
   const [toastMessage, setToastMessage] = useState<string>('');
+  const [toastActions, setToastActions] = useState<ToastAction[]>([]);
   const [showToast, setShowToast] = useState(false);
+  const formRef = useRef<AdvisorFormHandle>(null);
   const [enteredFirms, setEnteredFirms] = useState<FirmEntry[]>([]);
   const [isFormComplete, setIsFormComplete] = useState(false);
 
-  const handleFormComplete = (firms: FirmEntry[], userEmail: string) => {
-    console.log('Form completed with firms:', firms);
-    console.log('User email:', userEmail);
+  const handleFormComplete = (firms: FirmEntry[]) => {
+    console.log(`Form completed with ${firms.length} firms`);
   };
 
-  const handleToast = (message: string) => {
+  const handleToast = (message: string, actions: ToastAction[] = []) => {
     setToastMessage(message);
+    setToastActions(actions);
     setShowToast(true);
   };
 
@@ -25,8 +33,24 @@ export default function HomePage() {
     setEnteredFirms(firms);
   };
 
+  // The form owns the entered firms, so the cards ask it to make changes
   const handleRemoveFirm = (firmId: string) => {
-    setEnteredFirms(prev => prev.filter(firm => firm.id !== firmId));
+    const removed = formRef.current?.removeFirm(firmId);
+    if (!removed) return;
+
+    handleToast(`${removed.firm.firmName} has been removed.`, [{
+      label: 'Undo',
+      onClick: () => {
+        setShowToast(false);
+        if (!formRef.current?.restoreFirm(removed.firm, removed.index)) {
+          handleToast(`${removed.firm.firmName} couldn't be restored because your list has changed.`);
+        }
+      }
+    }]);
+  };
+
+  const handleEditFirm = (firmId: string) => {
+    formRef.current?.editFirm(firmId);
   };
 
   const handleFormStateChange = (isComplete: boolean) => {
@@ -36,16 +60,16 @@ export default function HomePage() {
     }
   };
 
-  // Auto-dismiss toast after 3 seconds
+  // Auto-dismiss toast after 3 seconds, or 6 when it offers an undo
   useEffect(() => {
     if (showToast) {
       const timer = setTimeout(() => {
         setShowToast(false);
-      }, 3000);
+      }, toastActions.length > 0 ? 6000 : 3000);
 
       return () => clearTimeout(timer);
     }
-  }, [showToast]);
+  }, [showToast, toastMessage, toastActions]);
 
   return (
     <div className="min-h-screen flex items-center justify-center py-8">
@@ -64,31 +88,39 @@ export default function HomePage() {
                 {/* Main Heading */}
                 <div className="space-y-3 mb-8">
                   <h1 className="text-5xl font-bold text-night-sky-blue-dark-1 leading-tight" style={{ fontFamily: 'Poppins, sans-serif' }}>
-                    Network Assist Portal
+                    {campaign ? campaign.intro.title : 'Network Assist Portal'}
                   </h1>
                   <div className="text-neutral-1 max-w-xl mx-auto text-lg space-y-4" style={{ fontFamily: 'Poppins, sans-serif' }}>
-                    <p>Please indicate the firms where you have strong relationships and would be willing to make an introduction.</p>
-                    <p>For each firm that matches our prospect list, we'll ask you to share contact details.</p>
+                    {campaign ? (
+                      campaign.intro.paragraphs.map(paragraph => <p key={paragraph}>{paragraph}</p>)
+                    ) : (
+                      <p>This link doesn't match a current campaign. Please check the link you were sent, or get in touch below.</p>
+                    )}
                   </div>
                 </div>
 
                 {/* Form */}
-                <div>
-                  <AdvisorForm
-                    onComplete={handleFormComplete}
-                    onToast={handleToast}
-                    onFirmsChange={handleFirmsChange}
-                    onRemoveFirm={handleRemoveFirm}
-                    onFormStateChange={handleFormStateChange}
-                  />
-                </div>
+                {campaign && (
+                  <div>
+                    <AdvisorForm
+                      key={campaign.slug}
+                      ref={formRef}
+                      campaign={campaign}
+                      inviteToken={searchParams.get(INVITE_PARAM) ?? undefined}
+                      onComplete={handleFormComplete}
+                      onToast={handleToast}
+                      onFirmsChange={handleFirmsChange}
+                      onFormStateChange={handleFormStateChange}
+                    />
+                  </div>
+                )}
               </div>
 
               {/* Right side - Firm cards with divider */}
-              {enteredFirms.length > 0 && !isFormComplete && (
+              {campaign && enteredFirms.length > 0 && !isFormComplete && (
                 <div className="border-t lg:border-t-0 lg:border-l border-neutral-4 pt-8 lg:pt-0 lg:pl-8 flex items-center w-full">
                   <div className="w-full">
-                    <FirmSummaryList firms={enteredFirms} onRemoveFirm={handleRemoveFirm} />
+                    <FirmSummaryList firms={enteredFirms} maxFirms={campaign.maxFirms} onRemoveFirm={handleRemoveFirm} onEditFirm={handleEditFirm} />
                   </div>
                 </div>
               )}
@@ -101,6 +133,7 @@ export default function HomePage() {
               <Toast
                 label={toastMessage}
                 intent="success"
+                actions={toastActions}
                 onClose={() => setShowToast(false)}
               />
             </div>
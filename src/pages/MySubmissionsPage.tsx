@@ -0,0 +1,325 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import MagicLinkSignIn from '../components/MagicLinkSignIn'
+import MyFirmEntry from '../components/MyFirmEntry'
+import ContactForm from '../components/ContactForm'
+import InlineBanner from '../components/InlineBanner'
+import Button from '../components/Button'
+import Dialog from '../components/Dialog'
+import Loader from '../components/Loader'
+import Toast from '../components/Toast'
+import { AdvisorPortalError, AdvisorPortalService } from '../services/AdvisorPortalService'
+import { getCampaign } from '../shared/campaigns'
+import { toContactFormData } from '../shared/contactOptions'
+import { SIGN_IN_PARAM } from '../shared/signIn'
+import type { AdvisorSessionResponse, AdvisorSubmission, ContactFormData, EntryChange, FirmEntry } from '../types'
+import DefinitelyLogo from '../assets/definely-logo.svg?react'
+
+/**
+ * An entry on the page, identified by its submission and its id within it
+ */
+interface SelectedEntry {
+  submissionId: string;
+  firm: FirmEntry;
+}
+
+function errorMessages(error: unknown): string[] {
+  if (error instanceof AdvisorPortalError && error.details?.length) {
+    return error.details.map(detail => detail.message);
+  }
+  return [error instanceof Error ? error.message : 'Something went wrong'];
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { dateStyle: 'medium' });
+}
+
+export default function MySubmissionsPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // undefined until we know whether the advisor is signed in
+  const [session, setSession] = useState<AdvisorSessionResponse | null | undefined>(undefined);
+  const [submissions, setSubmissions] = useState<AdvisorSubmission[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [linkMessage, setLinkMessage] = useState<string | null>(null);
+  const [sendingLink, setSendingLink] = useState(false);
+  const [editing, setEditing] = useState<SelectedEntry | null>(null);
+  const [withdrawing, setWithdrawing] = useState<SelectedEntry | null>(null);
+  const [savingEntryId, setSavingEntryId] = useState<string | null>(null);
+  const [changeErrors, setChangeErrors] = useState<string[]>([]);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  const handleAuthError = useCallback((requestError: unknown): boolean => {
+    if (requestError instanceof AdvisorPortalError && requestError.status === 401) {
+      setSession(null);
+      setSubmissions(null);
+      setError(requestError.message);
+      return true;
+    }
+    return false;
+  }, []);
+
+  // Sign in with the token from an emailed link, or pick up an existing session
+  useEffect(() => {
+    let cancelled = false;
+    const token = searchParams.get(SIGN_IN_PARAM);
+
+    (token ? AdvisorPortalService.signIn(token) : AdvisorPortalService.getSession())
+      .then(result => {
+        if (cancelled) return;
+        setSession(result);
+      })
+      .catch(signInError => {
+        if (cancelled) return;
+        console.error('Error signing in:', signInError);
+        setSession(null);
+        setError(signInError instanceof Error ? signInError.message : 'Failed to sign in');
+      })
+      .finally(() => {
+        if (!cancelled && token) {
+          // Keep the used-up token out of the address bar and browser history
+          setSearchParams({}, { replace: true });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchParams, setSearchParams]);
+
+  const loadSubmissions = useCallback(async () => {
+    try {
+      setSubmissions(await AdvisorPortalService.listSubmissions());
+    } catch (loadError) {
+      if (!handleAuthError(loadError)) {
+        console.error('Error loading submissions:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load your submissions');
+      }
+    }
+  }, [handleAuthError]);
+
+  useEffect(() => {
+    if (session) {
+      loadSubmissions();
+    }
+  }, [session, loadSubmissions]);
+
+  // Auto-dismiss toast after 3 seconds
+  useEffect(() => {
+    if (toastMessage) {
+      const timer = setTimeout(() => setToastMessage(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [toastMessage]);
+
+  const handleRequestLink = async (email: string) => {
+    setSendingLink(true);
+    setError(null);
+
+    try {
+      setLinkMessage(await AdvisorPortalService.requestSignInLink(email));
+    } catch (requestError) {
+      console.error('Error requesting sign-in link:', requestError);
+      setError(errorMessages(requestError).join(' '));
+    } finally {
+      setSendingLink(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await AdvisorPortalService.signOut();
+    } catch (signOutError) {
+      console.error('Error signing out:', signOutError);
+    }
+    setSession(null);
+    setSubmissions(null);
+    setLinkMessage(null);
+  };
+
+  const applyChange = async (change: EntryChange, successMessage: string): Promise<boolean> => {
+    setSavingEntryId(change.entryId);
+    setChangeErrors([]);
+
+    try {
+      const updated = await AdvisorPortalService.changeEntry(change);
+      setSubmissions(prev => (prev ?? []).map(submission => submission.id === updated.id ? updated : submission));
+      setToastMessage(successMessage);
+      return true;
+    } catch (changeError) {
+      if (!handleAuthError(changeError)) {
+        console.error('Error changing entry:', changeError);
+        setChangeErrors(errorMessages(changeError));
+      }
+      return false;
+    } finally {
+      setSavingEntryId(null);
+    }
+  };
+
+  const handleSaveContacts = async (contacts: ContactFormData[]) => {
+    if (!editing) return;
+
+    const saved = await applyChange(
+      { action: 'update-contacts', submissionId: editing.submissionId, entryId: editing.firm.id, contacts },
+      `Your contacts at ${editing.firm.firmName} have been updated.`
+    );
+    if (saved) {
+      setEditing(null);
+    }
+  };
+
+  const handleConfirmWithdraw = async () => {
+    if (!withdrawing) return;
+
+    await applyChange(
+      { action: 'withdraw', submissionId: withdrawing.submissionId, entryId: withdrawing.firm.id },
+      `Your relationship with ${withdrawing.firm.firmName} has been withdrawn.`
+    );
+    setWithdrawing(null);
+  };
+
+  const handleContactLeft = (submissionId: string, firm: FirmEntry, contactIndex: number) => {
+    applyChange(
+      { action: 'mark-contact-left', submissionId, entryId: firm.id, contactIndex },
+      `Thanks for letting us know ${firm.contacts?.[contactIndex]?.name ?? 'your contact'} has left ${firm.firmName}.`
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-8">
+      <div className="w-full max-w-3xl px-4">
+        <div className="space-y-6 text-center">
+          <div className="flex items-center justify-center">
+            <DefinitelyLogo className="h-20 w-auto" />
+          </div>
+
+          <div className="bg-white rounded-2xl p-10 space-y-6" style={{ border: '1px solid #eeeeee', boxShadow: 'rgba(0, 0, 0, 0.06) 0px 0.15rem 0.25rem 0px' }}>
+            <div className="space-y-3">
+              <h1 className="text-4xl font-bold text-night-sky-blue-dark-1 leading-tight" style={{ fontFamily: 'Poppins, sans-serif' }}>
+                Your submissions
+              </h1>
+              <p className="text-neutral-1">
+                {session
+                  ? `Signed in as ${session.email}. Keep your contacts up to date, or withdraw a relationship you no longer want to share.`
+                  : 'See and update the firms and contacts you have shared with us.'}
+              </p>
+            </div>
+
+            {error && (
+              <InlineBanner variant="error" title={error} onClose={() => setError(null)} className="text-left" />
+            )}
+
+            {session === undefined ? (
+              <div className="flex justify-center py-12">
+                <Loader aria-label="Signing in" />
+              </div>
+            ) : session === null ? (
+              linkMessage ? (
+                <InlineBanner variant="success" title="Check your inbox" description={linkMessage} className="text-left">
+                  <Button appearance="secondary" size="small" onClick={() => setLinkMessage(null)}>
+                    Use a different address
+                  </Button>
+                </InlineBanner>
+              ) : (
+                <MagicLinkSignIn onRequestLink={handleRequestLink} sending={sendingLink} />
+              )
+            ) : submissions === null ? (
+              <div className="flex justify-center py-12">
+                <Loader aria-label="Loading your submissions" />
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {changeErrors.length > 0 && (
+                  <InlineBanner
+                    variant="error"
+                    title="Your change could not be saved"
+                    description={changeErrors.join(' ')}
+                    onClose={() => setChangeErrors([])}
+                    className="text-left"
+                  />
+                )}
+
+                {submissions.length === 0 && (
+                  <p className="text-neutral-1">We don't have any submissions from this address.</p>
+                )}
+
+                {submissions.map(submission => {
+                  const campaignName = submission.campaign ? getCampaign(submission.campaign)?.name ?? submission.campaign : null;
+                  return (
+                    <section key={submission.id} className="text-left">
+                      <h2 className="typography-label-lg text-night-sky-blue-dark-1">
+                        Submitted {formatDate(submission.receivedAt)}{campaignName ? ` · ${campaignName}` : ''}
+                      </h2>
+                      <ul className="divide-y divide-neutral-4">
+                        {submission.firms.map(firm => editing?.submissionId === submission.id && editing.firm.id === firm.id ? (
+                          <li key={firm.id} className="py-4">
+                            <ContactForm
+                              firmName={firm.firmName}
+                              initialData={toContactFormData(firm.contacts)}
+                              onSubmit={handleSaveContacts}
+                              onCancel={() => setEditing(null)}
+                              loading={savingEntryId === firm.id}
+                              submitLabel="Save changes"
+                            />
+                          </li>
+                        ) : (
+                          <MyFirmEntry
+                            key={firm.id}
+                            firm={firm}
+                            saving={savingEntryId === firm.id}
+                            onEditContacts={() => {
+                              setChangeErrors([]);
+                              setEditing({ submissionId: submission.id, firm });
+                            }}
+                            onWithdraw={() => setWithdrawing({ submissionId: submission.id, firm })}
+                            onContactLeft={(contactIndex) => handleContactLeft(submission.id, firm, contactIndex)}
+                          />
+                        ))}
+                      </ul>
+                    </section>
+                  );
+                })}
+
+                <div className="flex justify-center">
+                  <Button appearance="secondary" size="small" onClick={handleSignOut}>
+                    Sign out
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {toastMessage && (
+            <div className="flex justify-center">
+              <Toast label={toastMessage} intent="success" onClose={() => setToastMessage(null)} />
+            </div>
+          )}
+
+          <p className="text-neutral-1">
+            Need assistance? <a href="mailto:support@definely.com" className="text-dark-blue-0 hover:underline">Get in touch!</a>
+          </p>
+        </div>
+      </div>
+
+      <Dialog
+        open={withdrawing !== null}
+        onClose={() => setWithdrawing(null)}
+        title={withdrawing ? `Withdraw ${withdrawing.firm.firmName}?` : undefined}
+        description="We'll stop counting this relationship and won't ask you for introductions there. The entry stays in your change history."
+        size="small"
+        footer={
+          <>
+            <Button appearance="secondary" size="small" onClick={() => setWithdrawing(null)} disabled={savingEntryId !== null}>
+              Cancel
+            </Button>
+            <Button appearance="primary" size="small" onClick={handleConfirmWithdraw} disabled={savingEntryId !== null}>
+              Withdraw
+            </Button>
+          </>
+        }
+      >
+        <p className="text-sm text-neutral-1">You can share this firm again from the form at any time.</p>
+      </Dialog>
+    </div>
+  )
+}
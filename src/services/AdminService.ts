@@ -0,0 +1,219 @@
+import type {
+  AdvisorListResponse,
+  ApiErrorResponse,
+  CreateInviteRequest,
+  CreateInviteResponse,
+  ManageProspectsResponse,
+  ProspectChange,
+  SubmissionExportFormat,
+  SubmissionExportView,
+  SubmissionListFilters,
+  SubmissionListResponse,
+  ValidationErrorDetail
+} from '../types';
+import { CsrfService } from './CsrfService';
+
+const LIST_SUBMISSIONS_ENDPOINT = '/.netlify/functions/list-submissions';
+const EXPORT_SUBMISSIONS_ENDPOINT = '/.netlify/functions/export-submissions';
+const MANAGE_PROSPECTS_ENDPOINT = '/.netlify/functions/manage-prospects';
+const INVITES_ENDPOINT = '/.netlify/functions/invites';
+const TOKEN_STORAGE_KEY = 'admin:api-token';
+
+/**
+ * Error thrown when an admin endpoint rejects a request
+ */
+export class AdminApiError extends Error {
+  status?: number;
+  details?: ValidationErrorDetail[];
+
+  constructor(message: string, status?: number, details?: ValidationErrorDetail[]) {
+    super(message);
+    this.name = 'AdminApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Build a query string from submission filters, skipping empty values
+ * @param filters - The filters to encode
+ * @param extra - Additional parameters such as page and pageSize
+ */
+export function toSubmissionQuery(
+  filters: SubmissionListFilters,
+  extra: Record<string, string | number> = {}
+): string {
+  const params = new URLSearchParams();
+
+  Object.entries({ ...filters, ...extra }).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+export class AdminService {
+  /**
+   * Get the admin API token for this browser session
+   * @returns The token or null if the admin has not signed in
+   */
+  static getToken(): string | null {
+    try {
+      return sessionStorage.getItem(TOKEN_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error reading admin token:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remember the admin API token until the browser tab is closed
+   * @param token - The admin API token
+   */
+  static signIn(token: string): void {
+    try {
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+    } catch (error) {
+      console.error('Error saving admin session:', error);
+    }
+  }
+
+  /**
+   * Forget the admin API token
+   */
+  static signOut(): void {
+    try {
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing admin session:', error);
+    }
+  }
+
+  /**
+   * Fetch one page of stored submissions
+   * @param filters - Filters to apply on the server
+   * @param page - 1-based page number
+   * @param pageSize - Submissions per page
+   * @returns The requested page and the total number of matching submissions
+   * @throws AdminApiError if the request fails; status 401 means the token was rejected
+   */
+  static async listSubmissions(
+    filters: SubmissionListFilters,
+    page: number,
+    pageSize?: number
+  ): Promise<SubmissionListResponse> {
+    const query = toSubmissionQuery(filters, pageSize ? { page, pageSize } : { page });
+    const response = await this.request(`${LIST_SUBMISSIONS_ENDPOINT}${query}`);
+    return response.json() as Promise<SubmissionListResponse>;
+  }
+
+  /**
+   * Download an export of the submissions matching the filters
+   * @param filters - Filters to apply on the server
+   * @param view - One row per firm entry, or the firm × advisor strength matrix
+   * @param format - CSV or XLSX
+   * @throws AdminApiError if the request fails; status 401 means the token was rejected
+   */
+  static async downloadExport(
+    filters: SubmissionListFilters,
+    view: SubmissionExportView,
+    format: SubmissionExportFormat
+  ): Promise<void> {
+    const query = toSubmissionQuery(filters, { view, format });
+    const response = await this.request(`${EXPORT_SUBMISSIONS_ENDPOINT}${query}`);
+
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `submissions-${view}.${format}`;
+
+    // The endpoint needs an Authorization header, so download through a blob URL rather than a plain link
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Fetch the whole prospect list, including archived firms, with recent audit entries
+   * @returns The prospect list and its audit trail, newest first
+   * @throws AdminApiError if the request fails; status 401 means the token was rejected
+   */
+  static async getProspects(): Promise<ManageProspectsResponse> {
+    const response = await this.request(MANAGE_PROSPECTS_ENDPOINT);
+    return response.json() as Promise<ManageProspectsResponse>;
+  }
+
+  /**
+   * Add, edit, archive, restore or bulk-import prospect firms
+   * @param change - The change to apply
+   * @param version - Version of the list the change was made against
+   * @returns The updated prospect list and audit trail
+   * @throws AdminApiError with validation details if the change is rejected; status 412 means the list changed since it was loaded
+   */
+  static async changeProspects(change: ProspectChange, version: string): Promise<ManageProspectsResponse> {
+    const response = await this.request(MANAGE_PROSPECTS_ENDPOINT, {
+      method: 'POST',
+      headers: { 'If-Match': version },
+      body: JSON.stringify(change)
+    });
+    return response.json() as Promise<ManageProspectsResponse>;
+  }
+
+  /**
+   * Fetch every advisor who has been sent an invite
+   * @returns Advisors, most recently invited first
+   * @throws AdminApiError if the request fails; status 401 means the token was rejected
+   */
+  static async listAdvisors(): Promise<AdvisorListResponse> {
+    const response = await this.request(INVITES_ENDPOINT);
+    return response.json() as Promise<AdvisorListResponse>;
+  }
+
+  /**
+   * Create a signed invite link for an advisor
+   * @param invite - Who to invite, for which campaign and for how long
+   * @returns The advisor record and the invite link
+   * @throws AdminApiError with validation details if the invite is rejected
+   */
+  static async createInvite(invite: CreateInviteRequest): Promise<CreateInviteResponse> {
+    const response = await this.request(INVITES_ENDPOINT, {
+      method: 'POST',
+      body: JSON.stringify(invite)
+    });
+    return response.json() as Promise<CreateInviteResponse>;
+  }
+
+  private static async request(url: string, init: RequestInit = {}): Promise<Response> {
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.getToken() ?? ''}`,
+          ...(init.method && init.method !== 'GET' ? await CsrfService.headers() : {}),
+          ...init.headers as Record<string, string> | undefined
+        }
+      });
+    } catch (error) {
+      throw new AdminApiError(error instanceof Error ? error.message : 'Network error');
+    }
+
+    if (!response.ok) {
+      if (response.status === 403) {
+        CsrfService.reset();
+      }
+      const body = await response.json().catch(() => null) as ApiErrorResponse | null;
+      throw new AdminApiError(body?.message || body?.error || `Request failed: ${response.status}`, response.status, body?.details);
+    }
+
+    return response;
+  }
+}
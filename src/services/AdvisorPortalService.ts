@@ -0,0 +1,142 @@
+import type {
+  AdvisorSessionResponse,
+  AdvisorSubmission,
+  ApiErrorResponse,
+  EntryChange,
+  MySubmissionsResponse,
+  SignInLinkResponse,
+  ValidationErrorDetail
+} from '../types';
+import { CsrfService } from './CsrfService';
+
+const SIGN_IN_ENDPOINT = '/.netlify/functions/advisor-sign-in';
+const SESSION_ENDPOINT = '/.netlify/functions/advisor-session';
+const MY_SUBMISSIONS_ENDPOINT = '/.netlify/functions/my-submissions';
+
+// A sign-in link works once, so repeated attempts with the same token share the first request
+const pendingSignIns = new Map<string, Promise<AdvisorSessionResponse>>();
+
+/**
+ * Error thrown when a /me request is rejected
+ */
+export class AdvisorPortalError extends Error {
+  status?: number;
+  details?: ValidationErrorDetail[];
+
+  constructor(message: string, status?: number, details?: ValidationErrorDetail[]) {
+    super(message);
+    this.name = 'AdvisorPortalError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export class AdvisorPortalService {
+  /**
+   * Email a sign-in link to an advisor. The answer is the same whether or not the
+   * address has submitted anything.
+   * @param email - The advisor's email address
+   * @returns The message to show the advisor
+   * @throws AdvisorPortalError with validation details if the address is invalid
+   */
+  static async requestSignInLink(email: string): Promise<string> {
+    const response = await this.request(SIGN_IN_ENDPOINT, {
+      method: 'POST',
+      body: JSON.stringify({ email })
+    });
+    return ((await response.json()) as SignInLinkResponse).message;
+  }
+
+  /**
+   * Exchange the token from an emailed link for a session cookie
+   * @param token - The token from the link
+   * @returns Who is now signed in
+   * @throws AdvisorPortalError with status 401 if the link has expired or was already used
+   */
+  static signIn(token: string): Promise<AdvisorSessionResponse> {
+    let pending = pendingSignIns.get(token);
+    if (!pending) {
+      pending = this.request(SESSION_ENDPOINT, {
+        method: 'POST',
+        body: JSON.stringify({ token })
+      }).then(response => response.json() as Promise<AdvisorSessionResponse>);
+      pendingSignIns.set(token, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Find out who is signed in
+   * @returns The session, or null if the advisor is not signed in
+   * @throws AdvisorPortalError if the request fails for another reason
+   */
+  static async getSession(): Promise<AdvisorSessionResponse | null> {
+    try {
+      const response = await this.request(SESSION_ENDPOINT);
+      return await response.json() as AdvisorSessionResponse;
+    } catch (error) {
+      if (error instanceof AdvisorPortalError && error.status === 401) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * End the session and clear its cookie
+   */
+  static async signOut(): Promise<void> {
+    await this.request(SESSION_ENDPOINT, { method: 'DELETE' });
+  }
+
+  /**
+   * Fetch the signed-in advisor's submissions
+   * @returns Their submissions, newest first
+   * @throws AdvisorPortalError if the request fails; status 401 means the session has expired
+   */
+  static async listSubmissions(): Promise<AdvisorSubmission[]> {
+    const response = await this.request(MY_SUBMISSIONS_ENDPOINT);
+    return ((await response.json()) as MySubmissionsResponse).submissions;
+  }
+
+  /**
+   * Edit contacts, withdraw a relationship or mark a contact as having left the firm
+   * @param change - The change to make
+   * @returns The submission the changed entry belongs to
+   * @throws AdvisorPortalError with validation details if the change is rejected
+   */
+  static async changeEntry(change: EntryChange): Promise<AdvisorSubmission> {
+    const response = await this.request(MY_SUBMISSIONS_ENDPOINT, {
+      method: 'POST',
+      body: JSON.stringify(change)
+    });
+    return response.json() as Promise<AdvisorSubmission>;
+  }
+
+  private static async request(url: string, init: RequestInit = {}): Promise<Response> {
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        ...init,
+        credentials: 'same-origin',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(init.method && init.method !== 'GET' ? await CsrfService.headers() : {})
+        }
+      });
+    } catch (error) {
+      throw new AdvisorPortalError(error instanceof Error ? error.message : 'Network error');
+    }
+
+    if (!response.ok) {
+      if (response.status === 403) {
+        CsrfService.reset();
+      }
+      const body = await response.json().catch(() => null) as ApiErrorResponse | null;
+      throw new AdvisorPortalError(body?.message || body?.error || `Request failed: ${response.status}`, response.status, body?.details);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,37 @@
+import type { CsrfTokenResponse } from '../types';
+import { CSRF_HEADER } from '../shared/csrf';
+
+const CSRF_TOKEN_ENDPOINT = '/.netlify/functions/csrf-token';
+
+let pendingToken: Promise<string> | null = null;
+
+async function fetchToken(): Promise<string> {
+  const response = await fetch(CSRF_TOKEN_ENDPOINT, { credentials: 'same-origin' });
+  if (!response.ok) {
+    throw new Error(`Failed to get a CSRF token: ${response.status}`);
+  }
+  return ((await response.json()) as CsrfTokenResponse).token;
+}
+
+export class CsrfService {
+  /**
+   * Headers that let a state-changing request through the functions' CSRF check.
+   * The token is fetched once, which also sets the cookie it is checked against.
+   * @returns The CSRF header
+   * @throws Error if no token could be fetched
+   */
+  static async headers(): Promise<Record<string, string>> {
+    pendingToken ??= fetchToken().catch(error => {
+      pendingToken = null;
+      throw error;
+    });
+    return { [CSRF_HEADER]: await pendingToken };
+  }
+
+  /**
+   * Forget the token, e.g. after a function rejected it, so the next request fetches a new one
+   */
+  static reset(): void {
+    pendingToken = null;
+  }
+}
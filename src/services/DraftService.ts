@@ -0,0 +1,142 @@
+import type { AdvisorFormDraft, AdvisorFormState, FirmEntry } from '../types';
+
+const STORAGE_KEY = 'advisor-form:draft';
+
+/**
+ * Each campaign keeps its own draft so opening one campaign's link never replaces another's
+ */
+function storageKey(campaign?: string): string {
+  return campaign ? `${STORAGE_KEY}:${campaign}` : STORAGE_KEY;
+}
+
+/**
+ * Version of the draft schema written by this build
+ */
+export const DRAFT_VERSION = 2;
+
+type StoredDraft = Record<string, unknown> & { version: number };
+
+/**
+ * Upgrades keyed by the version they migrate from. Each step returns a draft
+ * one version newer, so older drafts are walked forward until they are current.
+ */
+const migrations: Record<number, (draft: StoredDraft) => StoredDraft> = {
+  // v1 held one contact per firm, on the firm entry and in the contact form
+  1: (draft) => {
+    const formState = draft.formState as Record<string, unknown> & { enteredFirms: Record<string, unknown>[] };
+    const enteredFirms = formState.enteredFirms.map(firm => {
+      const { contactName, contactDesignation, relationshipStrength, contactFrequency, ...rest } = firm;
+      return contactName
+        ? { ...rest, contacts: [{ name: contactName, designation: contactDesignation, relationshipStrength, contactFrequency }] }
+        : rest;
+    });
+
+    return {
+      ...draft,
+      version: 2,
+      formState: { ...formState, enteredFirms },
+      contactForm: draft.contactForm ? [draft.contactForm] : null
+    };
+  }
+};
+
+function migrate(draft: StoredDraft): StoredDraft | null {
+  let current = draft;
+
+  while (current.version < DRAFT_VERSION) {
+    const upgrade = migrations[current.version];
+    if (!upgrade) {
+      return null;
+    }
+    current = upgrade(current);
+  }
+
+  // Drafts written by a newer build cannot be trusted
+  return current.version === DRAFT_VERSION ? current : null;
+}
+
+function rehydrateFormState(formState: AdvisorFormState): AdvisorFormState {
+  return {
+    ...formState,
+    enteredFirms: formState.enteredFirms.map((firm: FirmEntry) => ({
+      ...firm,
+      timestamp: new Date(firm.timestamp)
+    }))
+  };
+}
+
+export class DraftService {
+  /**
+   * Check whether a form state holds anything worth restoring
+   * @param formState - The form state to inspect
+   * @returns boolean indicating if the advisor has entered any data
+   */
+  static hasContent(formState: AdvisorFormState): boolean {
+    return (
+      formState.enteredFirms.length > 0 ||
+      formState.userEmail.trim() !== '' ||
+      formState.currentStep === 'contact-details'
+    );
+  }
+
+  /**
+   * Load the saved draft, migrating it to the current schema if needed
+   * @param campaign - Slug of the campaign the form belongs to, or undefined for the default form
+   * @returns The draft or null if none is saved or it cannot be read
+   */
+  static load(campaign?: string): AdvisorFormDraft | null {
+    try {
+      const raw = localStorage.getItem(storageKey(campaign));
+      if (!raw) {
+        return null;
+      }
+
+      const stored = JSON.parse(raw) as StoredDraft;
+      const draft = typeof stored?.version === 'number' ? migrate(stored) : null;
+
+      if (!draft) {
+        this.clear(campaign);
+        return null;
+      }
+
+      return {
+        formState: rehydrateFormState(draft.formState as AdvisorFormState),
+        contactForm: (draft.contactForm as AdvisorFormDraft['contactForm']) ?? null,
+        savedAt: new Date(draft.savedAt as string)
+      };
+    } catch (error) {
+      console.error('Error loading form draft:', error);
+      this.clear(campaign);
+      return null;
+    }
+  }
+
+  /**
+   * Save the in-progress form under the campaign it belongs to
+   * @param draft - The form state and half-filled contact form to persist
+   */
+  static save(draft: Omit<AdvisorFormDraft, 'savedAt'>): void {
+    try {
+      localStorage.setItem(storageKey(draft.formState.campaign), JSON.stringify({
+        version: DRAFT_VERSION,
+        savedAt: new Date().toISOString(),
+        formState: draft.formState,
+        contactForm: draft.contactForm
+      }));
+    } catch (error) {
+      console.error('Error saving form draft:', error);
+    }
+  }
+
+  /**
+   * Remove the saved draft
+   * @param campaign - Slug of the campaign the form belongs to, or undefined for the default form
+   */
+  static clear(campaign?: string): void {
+    try {
+      localStorage.removeItem(storageKey(campaign));
+    } catch (error) {
+      console.error('Error clearing form draft:', error);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FirmService } from './FirmService';
+import type { FirmRecord } from '../types';
+
+const FIRMS: FirmRecord[] = [
+  { id: 'freshfields', name: 'Freshfields Bruckhaus Deringer', aliases: ['Freshfields'], formerNames: [] },
+  { id: 'orrick', name: 'Orrick, Herrington & Sutcliffe LLP', aliases: ['Orrick'], formerNames: [] },
+  { id: 'ashurst', name: 'Ashurst', aliases: [], formerNames: ['Blake Dawson'] },
+  { id: 'hogan-lovells', name: 'Hogan Lovells', aliases: [], formerNames: ['Lovells'] }
+];
+
+describe('FirmService', () => {
+  beforeEach(() => {
+    FirmService.setFirms(FIRMS);
+  });
+
+  afterEach(() => {
+    FirmService.setFirmScope(null);
+    FirmService.setFirms(null);
+  });
+
+  describe('normalizeFirmName', () => {
+    it('ignores case, punctuation, "&" and legal suffixes', () => {
+      expect(FirmService.normalizeFirmName('Orrick, Herrington & Sutcliffe L.L.P.'))
+        .toBe('orrick herrington and sutcliffe');
+    });
+
+    it('keeps a suffix that is the whole name', () => {
+      expect(FirmService.normalizeFirmName('LLP')).toBe('llp');
+    });
+  });
+
+  describe('resolveFirm', () => {
+    it('resolves canonical names, aliases and former names to the firm', () => {
+      expect(FirmService.resolveFirm('ashurst')?.id).toBe('ashurst');
+      expect(FirmService.resolveFirm('Freshfields')?.id).toBe('freshfields');
+      expect(FirmService.resolveFirm('Blake Dawson')?.id).toBe('ashurst');
+      expect(FirmService.resolveFirm('Orrick LLP')?.id).toBe('orrick');
+    });
+
+    it('returns null for unknown or empty names', () => {
+      expect(FirmService.resolveFirm('Nonexistent & Partners')).toBeNull();
+      expect(FirmService.resolveFirm('   ')).toBeNull();
+    });
+
+    it('only resolves firms in the current scope', () => {
+      FirmService.setFirmScope(['ashurst']);
+      expect(FirmService.resolveFirm('Freshfields')).toBeNull();
+      expect(FirmService.resolveFirm('Ashurst')?.id).toBe('ashurst');
+    });
+  });
+
+  describe('getFirmSuggestions', () => {
+    it('lists names starting with the input before names containing it', () => {
+      FirmService.setFirms([
+        ...FIRMS,
+        { id: 'lovell-white', name: 'Lovell White', aliases: [], formerNames: [] }
+      ]);
+
+      expect(FirmService.getFirmSuggestions('lovell')).toEqual(['Hogan Lovells', 'Lovell White']);
+      expect(FirmService.getFirmSuggestions('ovell')).toEqual(['Hogan Lovells', 'Lovell White']);
+      expect(FirmService.getFirmSuggestions('Lovell W')).toEqual(['Lovell White']);
+    });
+
+    it('returns canonical names when an alias or former name matches', () => {
+      expect(FirmService.getFirmSuggestions('blake')).toEqual(['Ashurst']);
+    });
+
+    it('limits the number of suggestions', () => {
+      expect(FirmService.getFirmSuggestions('r', 2)).toHaveLength(2);
+    });
+
+    it('returns nothing for blank input', () => {
+      expect(FirmService.getFirmSuggestions('  ')).toEqual([]);
+    });
+  });
+
+  describe('scoreFirmMatch', () => {
+    it('scores equivalent names as an exact match', () => {
+      expect(FirmService.scoreFirmMatch('hogan lovells llp', 'Hogan Lovells')).toBe(1);
+    });
+
+    it('never scores a fuzzy match as certain', () => {
+      expect(FirmService.scoreFirmMatch('Hogan Lovels', 'Hogan Lovells')).toBeLessThan(1);
+      expect(FirmService.scoreFirmMatch('Hogan Lovels', 'Hogan Lovells')).toBeGreaterThan(0.9);
+    });
+
+    it('scores unrelated names low', () => {
+      expect(FirmService.scoreFirmMatch('Ashurst', 'Hogan Lovells')).toBeLessThan(0.6);
+    });
+  });
+
+  describe('findMatches', () => {
+    it('finds firms despite typos', () => {
+      const [best] = FirmService.findMatches('Freshfeilds Bruckhaus');
+      expect(best).toMatchObject({ firmId: 'freshfields', firmName: 'Freshfields Bruckhaus Deringer' });
+    });
+
+    it('orders candidates by confidence', () => {
+      const matches = FirmService.findMatches('Hogan Lovels', 3, 0);
+      expect(matches[0].firmId).toBe('hogan-lovells');
+      for (let i = 1; i < matches.length; i++) {
+        expect(matches[i - 1].confidence).toBeGreaterThanOrEqual(matches[i].confidence);
+      }
+    });
+
+    it('discards candidates below the minimum confidence', () => {
+      expect(FirmService.findMatches('Baker McKenzie')).toEqual([]);
+    });
+  });
+
+  describe('loadFirms', () => {
+    afterEach(() => {
+      localStorage.clear();
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('matches nothing once every firm has been archived, rather than the bundled list', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ firms: [], updatedAt: null }))));
+
+      await FirmService.loadFirms(true);
+      expect(FirmService.resolveFirm('Hogan Lovells')).toBeNull();
+
+      // The empty list is cached like any other
+      FirmService.setFirms(FIRMS);
+      await FirmService.loadFirms();
+      expect(FirmService.resolveFirm('Hogan Lovells')).toBeNull();
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the bundled list when the prospect list cannot be loaded', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 500 })));
+      FirmService.setFirms(null);
+
+      await FirmService.loadFirms(true);
+      expect(FirmService.resolveFirm('Hogan Lovells')?.id).toBe('hogan-lovells');
+    });
+  });
+});
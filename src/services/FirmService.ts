@@ -1,7 +1,219 @@
 import firmsData from '../../firms.json';
+import type { FirmMatch, FirmRecord, ProspectListResponse } from '../types';
+
+/**
+ * Legal entity suffixes that carry no meaning when comparing firm names
+ */
+const LEGAL_SUFFIXES = new Set([
+  'llp', 'llc', 'lp', 'pllc', 'plc', 'pc', 'pa', 'ltd', 'limited', 'inc', 'sc', 'us', 'uk', 'international'
+]);
+
+/**
+ * Connective words ignored when comparing name tokens
+ */
+const STOP_WORDS = new Set(['and', 'the', 'of']);
+
+/**
+ * Minimum confidence for a candidate to be offered as a "Did you mean" suggestion
+ */
+const SUGGESTION_THRESHOLD = 0.6;
+
+/**
+ * Runtime prospect list: fetched from the prospects function and cached in
+ * localStorage, with the bundled firms.json as the fallback
+ */
+const PROSPECTS_ENDPOINT = '/.netlify/functions/prospects';
+const CACHE_STORAGE_KEY = 'firm-service:prospects';
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+const bundledFirms = firmsData as FirmRecord[];
+
+interface CachedProspects {
+  fetchedAt: number;
+  firms: FirmRecord[];
+}
+
+function readCache(): CachedProspects | null {
+  try {
+    const raw = localStorage.getItem(CACHE_STORAGE_KEY);
+    const cached = raw ? (JSON.parse(raw) as CachedProspects) : null;
+    return cached && Array.isArray(cached.firms) ? cached : null;
+  } catch (error) {
+    console.error('Error reading cached prospect list:', error);
+    return null;
+  }
+}
+
+function writeCache(firms: FirmRecord[]): void {
+  try {
+    localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify({ fetchedAt: Date.now(), firms }));
+  } catch (error) {
+    console.error('Error caching prospect list:', error);
+  }
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity between two strings in the range 0..1 based on edit distance
+ */
+function stringSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * Tokens are considered equal when they are identical or differ by a small typo
+ */
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 4) return false;
+  return stringSimilarity(a, b) >= 0.8;
+}
+
+/**
+ * Overlap between two token lists, weighted towards the shorter list so that
+ * "Freshfields" scores well against "Freshfields Bruckhaus Deringer"
+ */
+function tokenOverlap(inputTokens: string[], firmTokens: string[]): number {
+  if (inputTokens.length === 0 || firmTokens.length === 0) return 0;
+
+  const matched = inputTokens.filter(token =>
+    firmTokens.some(firmToken => tokensMatch(token, firmToken))
+  ).length;
+
+  const shorter = Math.min(inputTokens.length, firmTokens.length);
+  const longer = Math.max(inputTokens.length, firmTokens.length);
+
+  // Containment of the shorter name dominates; the length ratio breaks ties
+  return (Math.min(matched, shorter) / shorter) * 0.85 + (shorter / longer) * 0.15;
+}
+
+/**
+ * Every name a firm is known by, canonical name first
+ */
+function namesOf(firm: FirmRecord): string[] {
+  return [firm.name, ...firm.aliases, ...firm.formerNames];
+}
 
 export class FirmService {
-  private static firms: string[] = firmsData;
+  private static prospects: FirmRecord[] = bundledFirms;
+  private static firmIds: Set<string> | null = null;
+  private static firms: FirmRecord[] = bundledFirms;
+  private static loading: Promise<void> | null = null;
+
+  /**
+   * Replace the firms used for matching, e.g. with the list loaded by the Netlify functions
+   * @param firms - The active prospect firms, or null to go back to the bundled list.
+   * An empty list means every firm has been archived, so nothing matches.
+   */
+  static setFirms(firms: FirmRecord[] | null): void {
+    this.prospects = firms ?? bundledFirms;
+    this.applyScope();
+  }
+
+  /**
+   * Limit matching to part of the prospect list, e.g. the firms a campaign targets
+   * @param firmIds - Ids of the firms to match against, or null for the whole list
+   */
+  static setFirmScope(firmIds: string[] | null): void {
+    this.firmIds = firmIds ? new Set(firmIds) : null;
+    this.applyScope();
+  }
+
+  private static applyScope(): void {
+    const firmIds = this.firmIds;
+    this.firms = firmIds ? this.prospects.filter(firm => firmIds.has(firm.id)) : this.prospects;
+  }
+
+  /**
+   * Load the current prospect list at runtime. Uses the cached copy while it is
+   * fresh, and keeps a stale copy or the bundled list if the request fails.
+   * @param force - Skip the cache and always fetch
+   */
+  static loadFirms(force: boolean = false): Promise<void> {
+    if (this.loading) {
+      return this.loading;
+    }
+
+    const cached = readCache();
+    if (cached) {
+      this.setFirms(cached.firms);
+      if (!force && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+        return Promise.resolve();
+      }
+    }
+
+    this.loading = (async () => {
+      try {
+        // A forced reload also bypasses the browser's HTTP cache of the list
+        const response = await fetch(PROSPECTS_ENDPOINT, force ? { cache: 'no-cache' } : undefined);
+        if (!response.ok) {
+          throw new Error(`Failed to load prospect list: ${response.status}`);
+        }
+
+        const { firms } = await response.json() as ProspectListResponse;
+        if (Array.isArray(firms)) {
+          this.setFirms(firms);
+          writeCache(firms);
+        }
+      } catch (error) {
+        console.error('Error loading prospect list, using the saved list instead:', error);
+      } finally {
+        this.loading = null;
+      }
+    })();
+
+    return this.loading;
+  }
+
+  /**
+   * Normalise a firm name for comparison: lowercases, unifies "&" / "+" with "and",
+   * strips punctuation and drops legal suffixes such as LLP, P.C. and P.A.
+   * @param firmName - The firm name to normalise
+   * @returns The normalised firm name
+   */
+  static normalizeFirmName(firmName: string): string {
+    const tokens = firmName
+      .toLowerCase()
+      .replace(/[&+]/g, ' and ')
+      .replace(/[.'’]/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim()
+      .split(' ')
+      .filter(Boolean);
+
+    while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) {
+      tokens.pop();
+    }
+
+    return tokens.join(' ');
+  }
 
   /**
    * Check if a firm name matches any firm in our database
@@ -9,29 +221,63 @@ export class FirmService {
    * @returns boolean indicating if the firm is found
    */
   static isValidFirm(firmName: string): boolean {
-    if (!firmName || firmName.trim() === '') {
-      return false;
-    }
-
-    const normalizedInput = firmName.trim().toLowerCase();
-    return this.firms.some(firm =>
-      firm.toLowerCase() === normalizedInput
-    );
+    return this.resolveFirm(firmName) !== null;
   }
 
   /**
    * Get all firms for autocomplete/suggestions
-   * @returns Array of all firm names
+   * @returns Array of all canonical firm names
    */
   static getAllFirms(): string[] {
-    return [...this.firms];
+    return this.firms.map(firm => firm.name);
+  }
+
+  /**
+   * Get all firm records including aliases and former names
+   * @returns Array of firm records
+   */
+  static getAllFirmRecords(): FirmRecord[] {
+    return this.firms.map(firm => ({
+      ...firm,
+      aliases: [...firm.aliases],
+      formerNames: [...firm.formerNames]
+    }));
+  }
+
+  /**
+   * Look up a firm by its stable id
+   * @param firmId - The firm id
+   * @returns The firm record or null if not found
+   */
+  static getFirmById(firmId: string): FirmRecord | null {
+    return this.firms.find(firm => firm.id === firmId) || null;
   }
 
   /**
-   * Get firm suggestions based on partial input
+   * Resolve a canonical name, alias or former name to its firm record.
+   * Names are compared after normalisation, so "Orrick LLP" resolves to Orrick.
+   * @param firmName - The firm name to resolve
+   * @returns The firm record or null if no name matches exactly
+   */
+  static resolveFirm(firmName: string): FirmRecord | null {
+    if (!firmName || firmName.trim() === '') {
+      return null;
+    }
+
+    const normalizedInput = this.normalizeFirmName(firmName);
+    const found = this.firms.find(firm =>
+      namesOf(firm).some(name => this.normalizeFirmName(name) === normalizedInput)
+    );
+
+    return found || null;
+  }
+
+  /**
+   * Get firm suggestions based on partial input.
+   * Aliases and former names are searched too, but only canonical names are returned.
    * @param input - Partial firm name
    * @param maxSuggestions - Maximum number of suggestions to return
-   * @returns Array of matching firm names
+   * @returns Array of matching canonical firm names
    */
   static getFirmSuggestions(input: string, maxSuggestions: number = 10): string[] {
     if (!input || input.trim() === '') {
@@ -42,35 +288,80 @@ export class FirmService {
 
     // First, find exact matches at the beginning
     const startsWithMatches = this.firms.filter(firm =>
-      firm.toLowerCase().startsWith(normalizedInput)
+      namesOf(firm).some(name => name.toLowerCase().startsWith(normalizedInput))
     );
 
     // Then, find contains matches
-    const containsMatches = this.firms.filter(firm => {
-      const firmLower = firm.toLowerCase();
-      return firmLower.includes(normalizedInput) && !firmLower.startsWith(normalizedInput);
-    });
+    const containsMatches = this.firms.filter(firm =>
+      !startsWithMatches.includes(firm) &&
+      namesOf(firm).some(name => name.toLowerCase().includes(normalizedInput))
+    );
 
     // Combine and limit results
     const allMatches = [...startsWithMatches, ...containsMatches];
-    return allMatches.slice(0, maxSuggestions);
+    return allMatches.slice(0, maxSuggestions).map(firm => firm.name);
   }
 
   /**
-   * Find the exact firm name match for display purposes
-   * @param firmName - The firm name to find
-   * @returns The exact firm name from the database or null if not found
+   * Find the canonical firm name for display purposes
+   * @param firmName - The firm name, alias or former name to find
+   * @returns The canonical firm name from the database or null if not found
    */
   static getExactFirmName(firmName: string): string | null {
-    if (!firmName || firmName.trim() === '') {
-      return null;
-    }
+    return this.resolveFirm(firmName)?.name || null;
+  }
 
-    const normalizedInput = firmName.trim().toLowerCase();
-    const found = this.firms.find(firm =>
-      firm.toLowerCase() === normalizedInput
+  /**
+   * Score how closely an input resembles a firm name
+   * @param input - The name typed by the advisor
+   * @param firmName - A firm name from the database
+   * @returns Confidence between 0 (no resemblance) and 1 (exact match)
+   */
+  static scoreFirmMatch(input: string, firmName: string): number {
+    const normalizedInput = this.normalizeFirmName(input);
+    const normalizedFirm = this.normalizeFirmName(firmName);
+
+    if (!normalizedInput || !normalizedFirm) return 0;
+    if (normalizedInput === normalizedFirm) return 1;
+
+    const editScore = stringSimilarity(
+      normalizedInput.replace(/ /g, ''),
+      normalizedFirm.replace(/ /g, '')
+    );
+    const overlapScore = tokenOverlap(
+      normalizedInput.split(' ').filter(token => !STOP_WORDS.has(token)),
+      normalizedFirm.split(' ').filter(token => !STOP_WORDS.has(token))
     );
 
-    return found || null;
+    // Never report a fuzzy match as certain
+    return Math.min(Math.max(editScore, overlapScore), 0.99);
+  }
+
+  /**
+   * Rank firms in the database by how closely they match the input.
+   * Each firm is scored by its best-matching canonical name, alias or former name.
+   * @param input - The name typed by the advisor
+   * @param maxResults - Maximum number of candidates to return
+   * @param minConfidence - Candidates scoring below this are discarded
+   * @returns Candidates ordered by descending confidence
+   */
+  static findMatches(
+    input: string,
+    maxResults: number = 3,
+    minConfidence: number = SUGGESTION_THRESHOLD
+  ): FirmMatch[] {
+    if (!input || input.trim() === '') {
+      return [];
+    }
+
+    return this.firms
+      .map(firm => ({
+        firmId: firm.id,
+        firmName: firm.name,
+        confidence: Math.max(...namesOf(firm).map(name => this.scoreFirmMatch(input, name)))
+      }))
+      .filter(match => match.confidence >= minConfidence)
+      .sort((a, b) => b.confidence - a.confidence || a.firmName.localeCompare(b.firmName))
+      .slice(0, maxResults);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,268 @@
+import type { ApiErrorResponse, InviteStatusResponse, PreviousFirmEntry, PreviousFirmsResponse, QueuedSubmission, RetryResult, SubmitFormPayload, SubmitFormResponse } from '../types';
+import { IDEMPOTENCY_KEY_HEADER } from '../shared/submissionSchema';
+import { PROOF_OF_WORK_HEADER, solveProofOfWork } from '../shared/botCheck';
+import { CsrfService } from './CsrfService';
+
+const SUBMIT_ENDPOINT = '/.netlify/functions/submit-form';
+const PREVIOUS_FIRMS_ENDPOINT = '/.netlify/functions/previous-firms';
+const INVITE_STATUS_ENDPOINT = '/.netlify/functions/invite-status';
+const QUEUE_STORAGE_KEY = 'advisor-form:submission-queue';
+
+/**
+ * Retry schedule: 2s, 4s, 8s ... capped at 5 minutes, giving up after MAX_ATTEMPTS
+ */
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+/**
+ * Error thrown when the submit-form function does not acknowledge a submission
+ */
+export class SubmissionError extends Error {
+  status?: number;
+  /** How long the server asked us to wait before trying again, from its Retry-After header */
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'SubmissionError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Read a Retry-After header, given either in seconds or as a date
+ */
+function retryAfterOf(response: Response): number | undefined {
+  const header = response.headers.get('Retry-After')?.trim();
+  if (!header) {
+    return undefined;
+  }
+
+  const delayMs = /^\d+$/.test(header) ? Number(header) * 1000 : Date.parse(header) - Date.now();
+  return Number.isNaN(delayMs) ? undefined : Math.max(delayMs, 0);
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+function readQueue(): QueuedSubmission[] {
+  try {
+    const raw = localStorage.getItem(QUEUE_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as QueuedSubmission[]) : [];
+  } catch (error) {
+    console.error('Error reading submission queue:', error);
+    return [];
+  }
+}
+
+function writeQueue(queue: QueuedSubmission[]): void {
+  try {
+    if (queue.length === 0) {
+      localStorage.removeItem(QUEUE_STORAGE_KEY);
+    } else {
+      localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    }
+  } catch (error) {
+    console.error('Error writing submission queue:', error);
+  }
+}
+
+export class SubmissionService {
+  /**
+   * Post a submission to the submit-form function. Each attempt solves a fresh proof of work,
+   * so queued retries are not turned away for having an old one.
+   * @param payload - The firms and advisor email to submit
+   * @param idempotencyKey - Key identifying the draft; a repeat with the same key gets the original result
+   * @returns The server's acknowledgement, including the stored submission id
+   * @throws SubmissionError if the request fails or the server rejects it
+   */
+  static async submit(payload: SubmitFormPayload, idempotencyKey?: string): Promise<SubmitFormResponse> {
+    const proofOfWork = await solveProofOfWork(payload.userEmail);
+    let response: Response;
+
+    try {
+      response = await fetch(SUBMIT_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...await CsrfService.headers(),
+          [PROOF_OF_WORK_HEADER]: proofOfWork,
+          ...(idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : {})
+        },
+        body: JSON.stringify(payload)
+      });
+    } catch (error) {
+      throw new SubmissionError(error instanceof Error ? error.message : 'Network error');
+    }
+
+    if (!response.ok) {
+      // A rejected CSRF token is replaced before the next attempt, so the submission stays retryable
+      if (response.status === 403) {
+        CsrfService.reset();
+      }
+      const body = await response.json().catch(() => null) as ApiErrorResponse | null;
+      const details = body?.details?.map(detail => detail.message).join('. ');
+      throw new SubmissionError(body?.message || details || body?.error || `Failed to submit form: ${response.status}`, response.status, retryAfterOf(response));
+    }
+
+    return response.json() as Promise<SubmitFormResponse>;
+  }
+
+  /**
+   * Fetch the firms the invited advisor has submitted before
+   * @param inviteToken - The signed invite token, which identifies the advisor
+   * @returns The latest entry for each firm, most recently submitted first
+   * @throws SubmissionError if the request fails or the invite is rejected
+   */
+  static async getPreviousFirms(inviteToken: string): Promise<PreviousFirmEntry[]> {
+    let response: Response;
+
+    try {
+      response = await fetch(PREVIOUS_FIRMS_ENDPOINT, {
+        headers: { Authorization: `Bearer ${inviteToken}` }
+      });
+    } catch (error) {
+      throw new SubmissionError(error instanceof Error ? error.message : 'Network error');
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as ApiErrorResponse | null;
+      throw new SubmissionError(body?.message || body?.error || `Failed to load earlier submissions: ${response.status}`, response.status);
+    }
+
+    return ((await response.json()) as PreviousFirmsResponse).firms;
+  }
+
+  /**
+   * Check the invite the form was opened with, and whether submissions need one
+   * @param inviteToken - The invite token from the link, if there was one
+   * @throws SubmissionError with status 401 if the server would refuse the invite
+   */
+  static async checkInvite(inviteToken?: string): Promise<InviteStatusResponse> {
+    let response: Response;
+
+    try {
+      response = await fetch(INVITE_STATUS_ENDPOINT, {
+        headers: inviteToken ? { Authorization: `Bearer ${inviteToken}` } : {}
+      });
+    } catch (error) {
+      throw new SubmissionError(error instanceof Error ? error.message : 'Network error');
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as ApiErrorResponse | null;
+      throw new SubmissionError(body?.message || body?.error || `Failed to check your invite: ${response.status}`, response.status);
+    }
+
+    return (await response.json()) as InviteStatusResponse;
+  }
+
+  /**
+   * Whether a failed submission is worth sending again. Network errors, server errors and
+   * rate limits pass; a submission the server refused as invalid, unauthorised or a
+   * conflicting repeat is refused the same way every time. A rejected CSRF token is
+   * replaced before the next attempt, and any response with Retry-After asks for a retry.
+   * @param error - The error thrown by submit
+   */
+  static isRetryable(error: unknown): boolean {
+    if (!(error instanceof SubmissionError) || error.status === undefined || error.retryAfterMs !== undefined) {
+      return true;
+    }
+    return error.status >= 500 || error.status === 403 || error.status === 408 || error.status === 429;
+  }
+
+  /**
+   * Add a failed submission to the retry queue, or refresh it if already queued
+   * @param payload - The submission that could not be delivered
+   * @param submissionId - Id of an existing queue entry to replace
+   * @param idempotencyKey - The draft's idempotency key, resent with every retry
+   * @param retryAfterMs - How long the server asked us to wait, if longer than the backoff
+   * @returns The queued submission
+   */
+  static enqueue(payload: SubmitFormPayload, submissionId?: string, idempotencyKey?: string, retryAfterMs?: number): QueuedSubmission {
+    const queue = readQueue();
+    const existing = submissionId ? queue.find(entry => entry.id === submissionId) : undefined;
+    const attempts = (existing?.attempts ?? 0) + 1;
+
+    const queued: QueuedSubmission = {
+      id: existing?.id ?? crypto.randomUUID(),
+      payload,
+      ...(idempotencyKey ? { idempotencyKey } : {}),
+      attempts,
+      nextAttemptAt: Date.now() + Math.max(retryDelay(attempts), retryAfterMs ?? 0)
+    };
+
+    writeQueue([...queue.filter(entry => entry.id !== queued.id), queued]);
+    return queued;
+  }
+
+  /**
+   * Remove a submission from the retry queue
+   * @param submissionId - The queued submission id
+   */
+  static remove(submissionId: string): void {
+    writeQueue(readQueue().filter(entry => entry.id !== submissionId));
+  }
+
+  /**
+   * Get all queued submissions
+   * @returns Array of submissions waiting to be retried
+   */
+  static getQueue(): QueuedSubmission[] {
+    return readQueue();
+  }
+
+  /**
+   * Whether automatic retries of a queued submission have stopped after MAX_ATTEMPTS
+   * @param submissionId - The queued submission id
+   */
+  static hasGivenUp(submissionId: string): boolean {
+    return readQueue().some(entry => entry.id === submissionId && entry.attempts >= MAX_ATTEMPTS);
+  }
+
+  /**
+   * Time until the next automatic retry is due
+   * @returns Delay in milliseconds, or null if nothing is waiting to be retried
+   */
+  static getNextRetryDelay(): number | null {
+    const retryable = readQueue().filter(entry => entry.attempts < MAX_ATTEMPTS);
+    if (retryable.length === 0) {
+      return null;
+    }
+
+    const nextAttemptAt = Math.min(...retryable.map(entry => entry.nextAttemptAt));
+    return Math.max(nextAttemptAt - Date.now(), 0);
+  }
+
+  /**
+   * Retry every queued submission that is due, rescheduling those that fail again and
+   * dropping those the server refuses
+   * @returns Ids of the submissions that were delivered, and those that were refused
+   */
+  static async retryDue(): Promise<RetryResult> {
+    const now = Date.now();
+    const due = readQueue().filter(entry => entry.attempts < MAX_ATTEMPTS && entry.nextAttemptAt <= now);
+    const result: RetryResult = { delivered: [], rejected: [] };
+
+    for (const entry of due) {
+      try {
+        await this.submit(entry.payload, entry.idempotencyKey);
+        this.remove(entry.id);
+        result.delivered.push(entry.id);
+      } catch (error) {
+        console.error(`Retry ${entry.attempts} of queued submission ${entry.id} failed:`, error);
+        if (error instanceof SubmissionError && !this.isRetryable(error)) {
+          this.remove(entry.id);
+          result.rejected.push({ id: entry.id, message: error.message, status: error.status ?? 0 });
+        } else {
+          this.enqueue(entry.payload, entry.id, entry.idempotencyKey, error instanceof SubmissionError ? error.retryAfterMs : undefined);
+        }
+      }
+    }
+
+    return result;
+  }
+}
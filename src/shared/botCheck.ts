@@ -0,0 +1,72 @@
+/**
+ * Checks that make automated submissions costly: a minimum time to fill in the form,
+ * and a proof of work the browser solves for every attempt to submit. The form produces
+ * them; submit-form verifies them and turns away anything that fails.
+ */
+export const BOT_CHECK = {
+  /** Nobody fills in an email address, a firm and the consent step faster than this */
+  minFillTimeMs: 5000,
+  /** Leading zero bits the proof-of-work hash needs; each extra bit doubles the work */
+  difficulty: 14,
+  /**
+   * How far a proof of work's time may be from the server's, either way. The time comes
+   * from the advisor's clock, which can be off; reuse within the window is left to rate limits.
+   */
+  maxProofAgeMs: 60 * 60 * 1000
+} as const;
+
+export const PROOF_OF_WORK_HEADER = 'X-Proof-Of-Work';
+
+function challengeFor(issuedAt: number, email: string, nonce: number): string {
+  return `${issuedAt}:${email.trim().toLowerCase()}:${nonce}`;
+}
+
+async function leadingZeroBits(value: string): Promise<number> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+
+  let bits = 0;
+  for (const byte of digest) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/**
+ * Find a proof of work for submitting as an email address
+ * @param email - The advisor's email address the proof is bound to
+ * @param issuedAt - When the proof is made, in milliseconds since the epoch
+ * @returns A token of the form "<issuedAt>.<nonce>"
+ */
+export async function solveProofOfWork(email: string, issuedAt: number = Date.now()): Promise<string> {
+  let nonce = 0;
+  while (await leadingZeroBits(challengeFor(issuedAt, email, nonce)) < BOT_CHECK.difficulty) {
+    nonce++;
+  }
+  return `${issuedAt}.${nonce}`;
+}
+
+/**
+ * Check a proof of work sent with a submission
+ * @param token - The token from the X-Proof-Of-Work header
+ * @param email - The email address the submission is for
+ * @param now - The current time, in milliseconds since the epoch
+ * @returns boolean indicating if the proof is recent, bound to the email and solved
+ */
+export async function verifyProofOfWork(token: string | undefined, email: string, now: number = Date.now()): Promise<boolean> {
+  const match = /^(\d{1,15})\.(\d{1,15})$/.exec(token?.trim() ?? '');
+  if (!match) {
+    return false;
+  }
+
+  const issuedAt = Number(match[1]);
+  const nonce = Number(match[2]);
+  if (Math.abs(now - issuedAt) > BOT_CHECK.maxProofAgeMs) {
+    return false;
+  }
+
+  return await leadingZeroBits(challengeFor(issuedAt, email, nonce)) >= BOT_CHECK.difficulty;
+}
@@ -0,0 +1,40 @@
+import campaignsData from '../../campaigns.json';
+import type { Campaign } from '../types';
+import { SUBMISSION_LIMITS } from './submissionSchema';
+
+/**
+ * The form at "/": the whole prospect list, the standard firm limit and the original copy
+ */
+export const DEFAULT_CAMPAIGN: Campaign = {
+  slug: 'default',
+  name: 'Network Assist',
+  maxFirms: SUBMISSION_LIMITS.maxFirms,
+  intro: {
+    title: 'Network Assist Portal',
+    paragraphs: [
+      'Please indicate the firms where you have strong relationships and would be willing to make an introduction.',
+      "For each firm that matches our prospect list, we'll ask you to share contact details."
+    ]
+  }
+};
+
+const campaigns = campaignsData as Campaign[];
+
+/**
+ * Look up a campaign by the slug in its URL
+ * @param slug - The campaign slug, or undefined for the default form
+ * @returns The campaign, or null if no campaign uses that slug
+ */
+export function getCampaign(slug?: string): Campaign | null {
+  if (slug === undefined || slug === DEFAULT_CAMPAIGN.slug) {
+    return DEFAULT_CAMPAIGN;
+  }
+  return campaigns.find(campaign => campaign.slug === slug) ?? null;
+}
+
+/**
+ * Every configured campaign, default first
+ */
+export function getCampaigns(): Campaign[] {
+  return [DEFAULT_CAMPAIGN, ...campaigns];
+}
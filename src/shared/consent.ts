@@ -0,0 +1,46 @@
+/**
+ * The privacy notice advisors agree to before submitting, and the intro
+ * preferences they can choose from. Shared by the consent step and submit-form,
+ * which only accepts consent to the current version.
+ */
+export const PRIVACY_NOTICE = {
+  version: '2026-10',
+  title: 'Privacy notice',
+  paragraphs: [
+    'We use the details you share to contact you about the firms you listed and, with your agreement, to arrange introductions to the people you named.',
+    'Your answers are stored securely and shared only with the Definely partnerships team. We keep them for as long as we are working on introductions and delete them on request.',
+    'You can ask us to correct or remove what you shared at any time by emailing support@definely.com.'
+  ]
+} as const;
+
+export const INTRO_PREFERENCE_OPTIONS = [
+  {
+    value: 'warm-email',
+    label: 'Warm email intro',
+    description: 'You introduce us to your contact by email.'
+  },
+  {
+    value: 'joint-call',
+    label: 'Joint call',
+    description: 'We set up a call with you and your contact together.'
+  },
+  {
+    value: 'name-only',
+    label: 'Share my name only',
+    description: 'We reach out ourselves and mention that you suggested it.'
+  }
+] as const;
+
+export type IntroPreference = typeof INTRO_PREFERENCE_OPTIONS[number]['value'];
+
+export const INTRO_PREFERENCES: readonly IntroPreference[] =
+  INTRO_PREFERENCE_OPTIONS.map(option => option.value);
+
+/**
+ * Get the display label for an intro preference
+ * @param value - The stored intro preference
+ * @returns The label, or "Not specified" for empty or unknown values
+ */
+export function formatIntroPreference(value: string | undefined): string {
+  return INTRO_PREFERENCE_OPTIONS.find(option => option.value === value)?.label ?? 'Not specified';
+}
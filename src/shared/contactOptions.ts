@@ -0,0 +1,65 @@
+import type { ContactFormData, FirmContact } from '../types';
+
+/**
+ * Contact enum values and their display labels, shared by ContactForm's Select
+ * options and the notification formatters in the Netlify functions
+ */
+export const RELATIONSHIP_STRENGTH_OPTIONS = [
+  { value: 'very-strong', label: 'Very strong' },
+  { value: 'strong', label: 'Strong' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'weak', label: 'Weak' }
+] as const;
+
+export const CONTACT_FREQUENCY_OPTIONS = [
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annually', label: 'Annually' },
+  { value: 'occasionally', label: 'Occasionally' },
+  { value: 'recently', label: 'Recently' }
+] as const;
+
+export type RelationshipStrength = typeof RELATIONSHIP_STRENGTH_OPTIONS[number]['value'];
+export type ContactFrequency = typeof CONTACT_FREQUENCY_OPTIONS[number]['value'];
+
+export const RELATIONSHIP_STRENGTHS: readonly RelationshipStrength[] =
+  RELATIONSHIP_STRENGTH_OPTIONS.map(option => option.value);
+export const CONTACT_FREQUENCIES: readonly ContactFrequency[] =
+  CONTACT_FREQUENCY_OPTIONS.map(option => option.value);
+
+const NOT_SPECIFIED = 'Not specified';
+
+/**
+ * Get the display label for a relationship strength
+ * @param value - The stored relationship strength
+ * @returns The label, or "Not specified" for empty or unknown values
+ */
+export function formatRelationshipStrength(value: string | undefined): string {
+  return RELATIONSHIP_STRENGTH_OPTIONS.find(option => option.value === value)?.label ?? NOT_SPECIFIED;
+}
+
+/**
+ * Get the display label for a contact frequency
+ * @param value - The stored contact frequency
+ * @returns The label, or "Not specified" for empty or unknown values
+ */
+export function formatContactFrequency(value: string | undefined): string {
+  return CONTACT_FREQUENCY_OPTIONS.find(option => option.value === value)?.label ?? NOT_SPECIFIED;
+}
+
+/**
+ * Turn stored contacts into ContactForm rows, with blanks for the fields they leave out
+ * @param contacts - The contacts of a firm entry
+ */
+export function toContactFormData(contacts: FirmContact[] = []): ContactFormData[] {
+  return contacts.map(contact => ({
+    name: contact.name,
+    designation: contact.designation ?? '',
+    relationshipStrength: contact.relationshipStrength ?? '',
+    contactFrequency: contact.contactFrequency ?? '',
+    email: contact.email ?? '',
+    phone: contact.phone ?? '',
+    linkedinUrl: contact.linkedinUrl ?? '',
+    practiceArea: contact.practiceArea ?? '',
+    introNotes: contact.introNotes ?? ''
+  }));
+}
@@ -0,0 +1,12 @@
+/**
+ * Request header carrying the CSRF token. Functions accept a state-changing request only
+ * when it matches the token in the cookie set alongside it (double-submit).
+ */
+export const CSRF_HEADER = 'X-CSRF-Token';
+
+/**
+ * Check the shape of a CSRF token: 32 random bytes, base64url encoded
+ */
+export function isValidCsrfToken(token: string): boolean {
+  return /^[A-Za-z0-9_-]{43}$/.test(token);
+}
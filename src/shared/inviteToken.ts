@@ -0,0 +1,59 @@
+import type { InviteClaims } from '../types';
+
+/**
+ * Query parameter that carries the invite token in an invite link
+ */
+export const INVITE_PARAM = 'invite';
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Read the claims in an invite token without checking its signature. Good enough
+ * to prefill the form; submit-form verifies the signature before trusting it.
+ * @param token - The token from the invite link ("<claims>.<signature>")
+ * @returns The claims, or null if the token is malformed
+ */
+export function decodeInviteToken(token: string): InviteClaims | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(decodeBase64Url(encoded)) as Partial<InviteClaims>;
+    if (
+      typeof claims?.advisorId !== 'string' ||
+      typeof claims.email !== 'string' ||
+      typeof claims.exp !== 'number' ||
+      (claims.campaign !== undefined && typeof claims.campaign !== 'string')
+    ) {
+      return null;
+    }
+    return { advisorId: claims.advisorId, email: claims.email, campaign: claims.campaign, exp: claims.exp };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether an invite has expired
+ * @param claims - The invite's claims
+ * @param now - Current time in milliseconds
+ */
+export function isInviteExpired(claims: InviteClaims, now: number = Date.now()): boolean {
+  return claims.exp * 1000 <= now;
+}
+
+/**
+ * Path of the link an advisor opens to use an invite
+ * @param token - The signed invite token
+ * @param campaign - Campaign slug, or undefined for the default form
+ */
+export function invitePath(token: string, campaign?: string): string {
+  const base = campaign ? `/c/${encodeURIComponent(campaign)}` : '/';
+  return `${base}?${INVITE_PARAM}=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,324 @@
+import type {
+  FirmRecord,
+  ProspectFirm,
+  ProspectFirmInput,
+  ProspectImportChange,
+  ProspectImportIssue,
+  ProspectImportPlan
+} from '../types';
+import { FirmService } from '../services/FirmService';
+import { sanitizeText } from './submissionSchema';
+
+/**
+ * Fuzzy score above which a new firm is flagged as a likely duplicate of another
+ */
+const LIKELY_DUPLICATE_THRESHOLD = 0.85;
+
+const NAME_COLUMNS = ['name', 'firm', 'firm name', 'firmname'];
+const ALIAS_COLUMNS = ['aliases', 'alias'];
+const FORMER_NAME_COLUMNS = ['former names', 'formernames', 'former_names', 'former name'];
+const ID_COLUMNS = ['id', 'firm id', 'firmid'];
+
+function namesOf(firm: FirmRecord): string[] {
+  return [firm.name, ...firm.aliases, ...firm.formerNames];
+}
+
+function sameName(a: string, b: string): boolean {
+  return FirmService.normalizeFirmName(a) === FirmService.normalizeFirmName(b);
+}
+
+/**
+ * Turn a firm name into a stable id, e.g. "Weil, Gotshal & Manges" becomes "weil-gotshal-and-manges"
+ * @param name - The firm name
+ */
+export function slugifyFirmName(name: string): string {
+  return FirmService.normalizeFirmName(name).replace(/\s+/g, '-') || 'firm';
+}
+
+/**
+ * Generate an id for a new firm that no existing firm uses
+ * @param name - The new firm's name
+ * @param firms - Firms already on the list
+ */
+export function uniqueFirmId(name: string, firms: FirmRecord[]): string {
+  const base = slugifyFirmName(name);
+  let id = base;
+  for (let suffix = 2; firms.some(firm => firm.id === id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Drop aliases and former names that repeat the canonical name or each other once normalised
+ * @param firm - The firm to tidy
+ */
+export function dedupeFirmNames(firm: FirmRecord): FirmRecord {
+  const seen = new Set([FirmService.normalizeFirmName(firm.name)]);
+  const keep = (name: string) => {
+    const key = FirmService.normalizeFirmName(name);
+    if (!key || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  };
+
+  return { ...firm, aliases: firm.aliases.filter(keep), formerNames: firm.formerNames.filter(keep) };
+}
+
+/**
+ * Find names on a firm that another active firm already uses as a name, alias or former name
+ * @param firm - The firm being saved
+ * @param firms - The current list
+ * @returns The colliding names with the firm that owns them
+ */
+export function findNameCollisions(
+  firm: FirmRecord,
+  firms: ProspectFirm[]
+): { name: string; firm: ProspectFirm }[] {
+  const others = firms.filter(other => other.id !== firm.id && other.status === 'active');
+  const collisions: { name: string; firm: ProspectFirm }[] = [];
+
+  namesOf(firm).forEach(name => {
+    const owner = others.find(other => namesOf(other).some(otherName => sameName(otherName, name)));
+    if (owner) {
+      collisions.push({ name, firm: owner });
+    }
+  });
+
+  return collisions;
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may contain commas, quotes and newlines)
+ * @param text - The CSV text
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+function splitNames(value: string | undefined): string[] {
+  return (value ?? '').split(/[;|]/).map(name => sanitizeText(name)).filter(Boolean);
+}
+
+/**
+ * Read a prospect CSV. The header row needs a "name" column and may add "aliases",
+ * "former names" and "id"; multiple aliases or former names are separated by semicolons.
+ * @param text - The CSV text
+ * @returns The firms in the file, plus problems found while reading it
+ */
+export function parseProspectCsv(text: string): { firms: ProspectFirmInput[]; issues: ProspectImportIssue[] } {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return { firms: [], issues: [{ severity: 'error', message: 'The file is empty' }] };
+  }
+
+  const columns = header.map(cell => cell.trim().toLowerCase());
+  const column = (names: string[]) => columns.findIndex(name => names.includes(name));
+  const nameColumn = column(NAME_COLUMNS);
+  const aliasColumn = column(ALIAS_COLUMNS);
+  const formerNameColumn = column(FORMER_NAME_COLUMNS);
+  const idColumn = column(ID_COLUMNS);
+
+  if (nameColumn === -1) {
+    return { firms: [], issues: [{ severity: 'error', message: 'The first row must be a header with a "name" column' }] };
+  }
+
+  const firms: ProspectFirmInput[] = [];
+  const issues: ProspectImportIssue[] = [];
+
+  rows.forEach((cells, index) => {
+    const name = sanitizeText(cells[nameColumn] ?? '');
+    if (!name) {
+      issues.push({ severity: 'warning', message: `Row ${index + 2} has no firm name and was skipped` });
+      return;
+    }
+
+    firms.push({
+      id: idColumn === -1 ? undefined : sanitizeText(cells[idColumn] ?? '') || undefined,
+      name,
+      aliases: aliasColumn === -1 ? [] : splitNames(cells[aliasColumn]),
+      formerNames: formerNameColumn === -1 ? [] : splitNames(cells[formerNameColumn])
+    });
+  });
+
+  return { firms, issues };
+}
+
+/**
+ * Work out what importing a list of firms would change, without changing anything.
+ * Each row is matched to an existing firm by id, by any of its names, or by the
+ * row's former names, all normalised the way FirmService does. Matched firms keep
+ * their id and gain the row's aliases. A row matched by id or former name with a new
+ * name renames the firm, keeping the old name as a former name. Unmatched rows become
+ * new firms.
+ * @param current - The current prospect list, including archived firms
+ * @param rows - The firms to import
+ * @param archiveMissing - Archive active firms that are not in the import
+ * @returns The changes, problems that block the import (errors) and ones to review (warnings)
+ */
+export function planProspectImport(
+  current: ProspectFirm[],
+  rows: ProspectFirmInput[],
+  archiveMissing: boolean = false
+): ProspectImportPlan {
+  const changes: ProspectImportChange[] = [];
+  const issues: ProspectImportIssue[] = [];
+  const working: ProspectFirm[] = current.map(firm => ({ ...firm }));
+  const claimedBy = new Map<string, string>();
+  const touched = new Set<string>();
+
+  rows.forEach(row => {
+    const byId = row.id ? working.find(firm => firm.id === row.id) : undefined;
+    const existing = byId
+      ?? working.find(firm => sameName(firm.name, row.name))
+      ?? working.find(firm => namesOf(firm).some(name => sameName(name, row.name)))
+      // A row listing an existing firm's name under "former names" is that firm under a new name
+      ?? working.find(firm => (row.formerNames ?? []).some(former => namesOf(firm).some(name => sameName(name, former))));
+
+    if (existing) {
+      const earlierRow = claimedBy.get(existing.id);
+      if (earlierRow !== undefined) {
+        issues.push({
+          severity: 'error',
+          message: `"${row.name}" and "${earlierRow}" both match ${existing.name}; keep one row and list the other as an alias`
+        });
+        return;
+      }
+      claimedBy.set(existing.id, row.name);
+      touched.add(existing.id);
+
+      const before: FirmRecord = {
+        id: existing.id,
+        name: existing.name,
+        aliases: [...existing.aliases],
+        formerNames: [...existing.formerNames]
+      };
+
+      // A row that uses one of the firm's aliases refers to the firm; it does not rename it
+      const knownName = namesOf(existing).some(name => sameName(name, row.name));
+      const renamed = !sameName(existing.name, row.name) && (existing === byId || !knownName);
+      const name = renamed ? row.name : existing.name;
+      const after = dedupeFirmNames({
+        id: existing.id,
+        name,
+        aliases: [...existing.aliases.filter(alias => !sameName(alias, name)), ...(row.aliases ?? [])],
+        formerNames: [
+          ...(renamed ? [existing.name] : []),
+          ...existing.formerNames.filter(formerName => !sameName(formerName, name)),
+          ...(row.formerNames ?? [])
+        ]
+      });
+
+      const wasArchived = existing.status === 'archived';
+      if (!wasArchived && JSON.stringify(after) === JSON.stringify(before)) {
+        return;
+      }
+
+      Object.assign(existing, after, { status: 'active' });
+      changes.push({
+        type: wasArchived ? 'restored' : renamed ? 'renamed' : 'updated',
+        before,
+        after
+      });
+      return;
+    }
+
+    const added = dedupeFirmNames({
+      id: uniqueFirmId(row.name, working),
+      name: row.name,
+      aliases: row.aliases ?? [],
+      formerNames: row.formerNames ?? []
+    });
+    working.push({ ...added, status: 'active', updatedAt: '', updatedBy: '' });
+    touched.add(added.id);
+    claimedBy.set(added.id, row.name);
+    changes.push({ type: 'added', before: null, after: added });
+  });
+
+  if (archiveMissing) {
+    working
+      .filter(firm => firm.status === 'active' && !touched.has(firm.id))
+      .forEach(firm => {
+        const record: FirmRecord = { id: firm.id, name: firm.name, aliases: firm.aliases, formerNames: firm.formerNames };
+        firm.status = 'archived';
+        changes.push({ type: 'removed', before: record, after: record });
+      });
+  }
+
+  // Names that would match two active firms make matching ambiguous, so they block the import
+  changes.filter(change => change.type !== 'removed').forEach(change => {
+    findNameCollisions(change.after, working).forEach(collision => {
+      issues.push({
+        severity: 'error',
+        message: `"${collision.name}" on ${change.after.name} is already used by ${collision.firm.name}`
+      });
+    });
+  });
+
+  // New firms that are close to, but not exactly, another firm's name are probably the same firm
+  const reported = new Set<string>();
+  changes.filter(change => change.type === 'added').forEach(change => {
+    const lookalike = working.find(firm =>
+      firm.id !== change.after.id &&
+      firm.status === 'active' &&
+      !reported.has(`${firm.id}:${change.after.id}`) &&
+      namesOf(firm).some(name => FirmService.scoreFirmMatch(change.after.name, name) >= LIKELY_DUPLICATE_THRESHOLD)
+    );
+    if (lookalike) {
+      reported.add(`${change.after.id}:${lookalike.id}`);
+      issues.push({
+        severity: 'warning',
+        message: `"${change.after.name}" looks like a duplicate of ${lookalike.name}`
+      });
+    }
+  });
+
+  return {
+    changes,
+    issues,
+    unchanged: current.length - changes.filter(change => change.type !== 'added').length
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Where advisors see and change what they have submitted
+ */
+export const MY_SUBMISSIONS_PATH = '/me';
+
+/**
+ * Query parameter that carries the token in an emailed sign-in link
+ */
+export const SIGN_IN_PARAM = 'token';
+
+/**
+ * Minutes an emailed sign-in link works for
+ */
+export const SIGN_IN_LINK_MINUTES = 15;
+
+/**
+ * Path of the link emailed to an advisor to sign in to /me
+ * @param token - The one-time sign-in token
+ */
+export function signInPath(token: string): string {
+  return `${MY_SUBMISSIONS_PATH}?${SIGN_IN_PARAM}=${encodeURIComponent(token)}`;
+}
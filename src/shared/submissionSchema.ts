@@ -0,0 +1,425 @@
+import type { AdvisorConsent, BotCheck, FirmContact, FirmEntry, PreviousEntryRef, SubmitFormPayload, ValidationErrorDetail } from '../types';
+import { FirmService } from '../services/FirmService';
+import { CONTACT_FREQUENCIES, RELATIONSHIP_STRENGTHS } from './contactOptions';
+import { INTRO_PREFERENCES, PRIVACY_NOTICE } from './consent';
+
+/**
+ * Limits applied to every submission, on the client before sending and again in submit-form
+ */
+export const SUBMISSION_LIMITS = {
+  maxFirms: 5,
+  firmNameLength: 200,
+  maxContactsPerFirm: 5,
+  contactNameLength: 120,
+  contactDesignationLength: 120,
+  contactEmailLength: 254,
+  contactPhoneLength: 40,
+  linkedinUrlLength: 300,
+  practiceAreaLength: 120,
+  introNotesLength: 1000,
+  userEmailLength: 254,
+  campaignSlugLength: 100,
+  inviteTokenLength: 2048,
+  honeypotLength: 200
+} as const;
+
+export type SubmissionValidationError = ValidationErrorDetail;
+
+export type SubmissionValidationResult =
+  | { valid: true; value: SubmitFormPayload }
+  | { valid: false; errors: SubmissionValidationError[] };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9-]{16,128}$/;
+const ENTRY_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+/**
+ * Request header carrying the key the form generates for each draft, so submit-form
+ * can recognise a submission it has already processed
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Check that an email address is plausibly valid
+ * @param email - The email address to check
+ * @returns boolean indicating if the email is valid
+ */
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email);
+}
+
+/**
+ * Check that a phone number uses only digits, spaces, brackets, dots, hyphens and
+ * a leading "+", and has a plausible number of digits
+ * @param phone - The phone number to check
+ * @returns boolean indicating if the phone number is valid
+ */
+export function isValidPhone(phone: string): boolean {
+  const digits = phone.replace(/\D/g, '').length;
+  return PHONE_PATTERN.test(phone) && digits >= 7 && digits <= 15;
+}
+
+/**
+ * Check that a URL is a LinkedIn profile, e.g. https://www.linkedin.com/in/jane-doe
+ * @param url - The URL to check
+ * @returns boolean indicating if the URL points to a LinkedIn profile
+ */
+export function isValidLinkedInUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.toLowerCase();
+    return (
+      (parsed.protocol === 'https:' || parsed.protocol === 'http:') &&
+      (host === 'linkedin.com' || host.endsWith('.linkedin.com')) &&
+      /^\/(in|pub)\/[^/]+/.test(parsed.pathname)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that an idempotency key is safe to store, e.g. a UUID
+ * @param key - The key from the Idempotency-Key header
+ * @returns boolean indicating if the key can be used
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return IDEMPOTENCY_KEY_PATTERN.test(key);
+}
+
+/**
+ * Trim a free-text value and collapse control characters and runs of whitespace
+ * @param value - The raw value
+ * @returns The cleaned string
+ */
+export function sanitizeText(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  return value.replace(/[\u0000-\u001f\u007f\u200b-\u200f\u2028\u2029]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readText(
+  source: Record<string, unknown>,
+  key: string,
+  field: string,
+  maxLength: number,
+  errors: SubmissionValidationError[]
+): string | undefined {
+  const value = source[key];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    errors.push({ field, message: 'Must be text' });
+    return undefined;
+  }
+
+  const cleaned = sanitizeText(value);
+  if (cleaned.length > maxLength) {
+    errors.push({ field, message: `Must be ${maxLength} characters or fewer` });
+  }
+  return cleaned || undefined;
+}
+
+function readOption<T extends string>(
+  source: Record<string, unknown>,
+  key: string,
+  field: string,
+  options: readonly T[],
+  errors: SubmissionValidationError[]
+): T | '' | undefined {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (value === '') {
+    return '';
+  }
+  if (!options.includes(value as T)) {
+    errors.push({ field, message: `Must be one of: ${options.join(', ')}` });
+    return undefined;
+  }
+  return value as T;
+}
+
+function validateContact(
+  input: unknown,
+  prefix: string,
+  errors: SubmissionValidationError[]
+): FirmContact | null {
+  if (!isRecord(input)) {
+    errors.push({ field: prefix, message: 'Must be a contact' });
+    return null;
+  }
+
+  const name = readText(input, 'name', `${prefix}.name`, SUBMISSION_LIMITS.contactNameLength, errors);
+  if (!name) {
+    errors.push({ field: `${prefix}.name`, message: 'Contact name is required' });
+    return null;
+  }
+
+  const email = readText(input, 'email', `${prefix}.email`, SUBMISSION_LIMITS.contactEmailLength, errors);
+  if (email && !isValidEmail(email)) {
+    errors.push({ field: `${prefix}.email`, message: 'Must be a valid email address' });
+  }
+
+  const phone = readText(input, 'phone', `${prefix}.phone`, SUBMISSION_LIMITS.contactPhoneLength, errors);
+  if (phone && !isValidPhone(phone)) {
+    errors.push({ field: `${prefix}.phone`, message: 'Must be a valid phone number' });
+  }
+
+  const linkedinUrl = readText(input, 'linkedinUrl', `${prefix}.linkedinUrl`, SUBMISSION_LIMITS.linkedinUrlLength, errors);
+  if (linkedinUrl && !isValidLinkedInUrl(linkedinUrl)) {
+    errors.push({ field: `${prefix}.linkedinUrl`, message: 'Must be a LinkedIn profile URL' });
+  }
+
+  const practiceArea = readText(input, 'practiceArea', `${prefix}.practiceArea`, SUBMISSION_LIMITS.practiceAreaLength, errors);
+  const introNotes = readText(input, 'introNotes', `${prefix}.introNotes`, SUBMISSION_LIMITS.introNotesLength, errors);
+
+  return {
+    name,
+    designation: readText(input, 'designation', `${prefix}.designation`, SUBMISSION_LIMITS.contactDesignationLength, errors),
+    relationshipStrength: readOption(input, 'relationshipStrength', `${prefix}.relationshipStrength`, RELATIONSHIP_STRENGTHS, errors),
+    contactFrequency: readOption(input, 'contactFrequency', `${prefix}.contactFrequency`, CONTACT_FREQUENCIES, errors),
+    ...(email ? { email } : {}),
+    ...(phone ? { phone } : {}),
+    ...(linkedinUrl ? { linkedinUrl } : {}),
+    ...(practiceArea ? { practiceArea } : {}),
+    ...(introNotes ? { introNotes } : {})
+  };
+}
+
+/**
+ * Validate and sanitise a firm's contacts. Used for submissions and when an advisor
+ * edits the contacts of an entry they submitted earlier.
+ * @param input - The untrusted contacts
+ * @param field - Field name the errors are reported under, e.g. "firms[0].contacts"
+ * @param errors - Validation errors are appended here
+ * @returns The valid contacts, at most SUBMISSION_LIMITS.maxContactsPerFirm of them
+ */
+export function validateContacts(input: unknown[], field: string, errors: SubmissionValidationError[]): FirmContact[] {
+  if (input.length > SUBMISSION_LIMITS.maxContactsPerFirm) {
+    errors.push({ field, message: `No more than ${SUBMISSION_LIMITS.maxContactsPerFirm} contacts can be shared for one firm` });
+  }
+
+  return input
+    .slice(0, SUBMISSION_LIMITS.maxContactsPerFirm)
+    .map((contact, index) => validateContact(contact, `${field}[${index}]`, errors))
+    .filter((contact): contact is FirmContact => contact !== null);
+}
+
+/**
+ * Firm entries from builds before multiple contacts held a single contact's fields
+ * on the entry itself. Submissions queued by those builds are still accepted.
+ */
+function readContactsInput(input: Record<string, unknown>): unknown[] {
+  if (Array.isArray(input.contacts)) {
+    return input.contacts;
+  }
+  if (!input.contactName) {
+    return [];
+  }
+  return [{
+    name: input.contactName,
+    designation: input.contactDesignation,
+    relationshipStrength: input.relationshipStrength,
+    contactFrequency: input.contactFrequency
+  }];
+}
+
+function validateEntryRef(input: unknown, field: string, errors: SubmissionValidationError[]): PreviousEntryRef | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+
+  if (
+    !isRecord(input) ||
+    typeof input.submissionId !== 'string' || !ENTRY_ID_PATTERN.test(input.submissionId) ||
+    typeof input.entryId !== 'string' || !ENTRY_ID_PATTERN.test(input.entryId)
+  ) {
+    errors.push({ field, message: 'Must identify an earlier entry' });
+    return undefined;
+  }
+
+  return { submissionId: input.submissionId, entryId: input.entryId };
+}
+
+function validateFirm(
+  input: unknown,
+  index: number,
+  errors: SubmissionValidationError[]
+): FirmEntry | null {
+  const prefix = `firms[${index}]`;
+
+  if (!isRecord(input)) {
+    errors.push({ field: prefix, message: 'Must be a firm entry' });
+    return null;
+  }
+
+  // Entry ids are chosen by the form and later identify the entry in amendments and the portal
+  if (input.id !== undefined && (typeof input.id !== 'string' || !ENTRY_ID_PATTERN.test(input.id))) {
+    errors.push({ field: `${prefix}.id`, message: 'Must be a valid entry id' });
+    return null;
+  }
+  const id = input.id ?? crypto.randomUUID();
+  const firmName = readText(input, 'firmName', `${prefix}.firmName`, SUBMISSION_LIMITS.firmNameLength, errors);
+  if (!firmName) {
+    errors.push({ field: `${prefix}.firmName`, message: 'Firm name is required' });
+    return null;
+  }
+
+  const timestamp = new Date(typeof input.timestamp === 'string' || typeof input.timestamp === 'number' ? input.timestamp : NaN);
+  const amends = validateEntryRef(input.amends, `${prefix}.amends`, errors);
+
+  // The client's isMatched flag is never trusted: match against the prospect list again
+  const matchedFirm = FirmService.resolveFirm(firmName);
+
+  // A firm picked from an out-of-date copy of the list may since have been archived or renamed.
+  // Refuse it rather than quietly storing it unmatched, so the form reloads the list.
+  if (typeof input.firmId === 'string' && input.firmId !== matchedFirm?.id) {
+    errors.push({ field: `${prefix}.firmName`, message: `${firmName} has changed on our list of firms. Please remove it and add it again` });
+    return null;
+  }
+
+  if (!matchedFirm) {
+    return {
+      id,
+      firmName,
+      isMatched: false,
+      timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+      ...(amends ? { amends } : {})
+    };
+  }
+
+  return {
+    id,
+    firmId: matchedFirm.id,
+    firmName: matchedFirm.name,
+    isMatched: true,
+    contacts: validateContacts(readContactsInput(input), `${prefix}.contacts`, errors),
+    timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+    ...(amends ? { amends } : {})
+  };
+}
+
+function validateConsent(input: unknown, errors: SubmissionValidationError[]): AdvisorConsent | null {
+  if (!isRecord(input)) {
+    errors.push({ field: 'consent', message: 'You must agree to the privacy notice' });
+    return null;
+  }
+
+  // Consent only counts for the notice the advisor was shown, so an out-of-date version is refused
+  if (input.privacyNoticeVersion !== PRIVACY_NOTICE.version) {
+    errors.push({ field: 'consent.privacyNoticeVersion', message: 'The privacy notice has been updated. Please review it and agree again' });
+  }
+
+  if (input.introPreference === undefined || input.introPreference === null || input.introPreference === '') {
+    errors.push({ field: 'consent.introPreference', message: 'Please choose how you would like introductions to happen' });
+    return null;
+  }
+
+  const introPreference = readOption(input, 'introPreference', 'consent.introPreference', INTRO_PREFERENCES, errors);
+  if (!introPreference) {
+    return null;
+  }
+
+  return { privacyNoticeVersion: PRIVACY_NOTICE.version, introPreference };
+}
+
+/**
+ * Check the shape of what the form measured. Whether it gives a bot away is
+ * decided by submit-form, which logs and counts the attempts it turns away.
+ */
+function validateBotCheck(input: unknown, errors: SubmissionValidationError[]): BotCheck | null {
+  if (!isRecord(input) || typeof input.honeypot !== 'string' ||
+    typeof input.fillTimeMs !== 'number' || !Number.isFinite(input.fillTimeMs)) {
+    errors.push({ field: 'botCheck', message: 'Please reload the page and submit the form again' });
+    return null;
+  }
+
+  return {
+    honeypot: input.honeypot.slice(0, SUBMISSION_LIMITS.honeypotLength),
+    fillTimeMs: Math.max(Math.round(input.fillTimeMs), 0)
+  };
+}
+
+/**
+ * Validate and sanitise a submission. Used by AdvisorForm before sending and by
+ * submit-form before storing, so both sides enforce the same rules.
+ * @param input - The untrusted submission payload
+ * @param maxFirms - Maximum number of firms allowed in one submission
+ * @returns The cleaned payload, or the list of validation errors
+ */
+export function validateSubmission(
+  input: unknown,
+  maxFirms: number = SUBMISSION_LIMITS.maxFirms
+): SubmissionValidationResult {
+  const errors: SubmissionValidationError[] = [];
+
+  if (!isRecord(input)) {
+    return { valid: false, errors: [{ field: '', message: 'Submission must be an object' }] };
+  }
+
+  const userEmail = typeof input.userEmail === 'string' ? input.userEmail.trim() : '';
+  if (!userEmail) {
+    errors.push({ field: 'userEmail', message: 'Email address is required' });
+  } else if (userEmail.length > SUBMISSION_LIMITS.userEmailLength || !isValidEmail(userEmail)) {
+    errors.push({ field: 'userEmail', message: 'Must be a valid email address' });
+  }
+
+  const campaign = readText(input, 'campaign', 'campaign', SUBMISSION_LIMITS.campaignSlugLength, errors);
+  const inviteToken = readText(input, 'inviteToken', 'inviteToken', SUBMISSION_LIMITS.inviteTokenLength, errors);
+  const consent = validateConsent(input.consent, errors);
+  const botCheck = validateBotCheck(input.botCheck, errors);
+
+  if (!Array.isArray(input.firms) || input.firms.length === 0) {
+    errors.push({ field: 'firms', message: 'At least one firm is required' });
+    return { valid: false, errors };
+  }
+
+  if (input.firms.length > maxFirms) {
+    errors.push({ field: 'firms', message: `No more than ${maxFirms} firms can be submitted` });
+  }
+
+  const validated = input.firms.slice(0, maxFirms).map((firm, index) => validateFirm(firm, index, errors));
+  const firms = validated.filter((firm): firm is FirmEntry => firm !== null);
+
+  const seen = new Set<string>();
+  const entryIds = new Set<string>();
+  validated.forEach((firm, index) => {
+    if (!firm) {
+      return;
+    }
+
+    const key = firm.firmId ?? FirmService.normalizeFirmName(firm.firmName);
+    if (seen.has(key)) {
+      errors.push({ field: `firms[${index}].firmName`, message: 'This firm has already been entered' });
+    }
+    seen.add(key);
+
+    if (entryIds.has(firm.id)) {
+      errors.push({ field: `firms[${index}].id`, message: 'Each entry needs its own id' });
+    }
+    entryIds.add(firm.id);
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      firms,
+      userEmail,
+      ...(campaign ? { campaign } : {}),
+      ...(inviteToken ? { inviteToken } : {}),
+      ...(consent ? { consent } : {}),
+      ...(botCheck ? { botCheck } : {})
+    }
+  };
+}
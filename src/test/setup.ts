@@ -0,0 +1,18 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// jsdom lacks the layout APIs Headless UI's Listbox uses to position and animate its options
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+globalThis.ResizeObserver ??= ResizeObserverStub;
+Element.prototype.getAnimations ??= () => [];
+
+// Components keep drafts, queued submissions and the prospect cache in localStorage
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
@@ -1,3 +1,7 @@
+import type { ReactNode } from 'react';
+import type { ContactFrequency, RelationshipStrength } from '../shared/contactOptions';
+import type { IntroPreference } from '../shared/consent';
+
 export interface TabItem {
   id: string;
   label: string;
@@ -34,8 +38,8 @@ export interface ActionButtonProps {
   size: 'small' | 'medium' | 'large';
   disabled?: boolean;
   onClick?: () => void;
-  children: React.ReactNode;
-  icon?: React.ReactNode;
+  children: ReactNode;
+  icon?: ReactNode;
 }
 
 export interface BottomAction {
@@ -46,30 +50,479 @@ export interface BottomAction {
 }
 
 // Advisor Form Types
+export interface FirmRecord {
+  id: string;
+  name: string;
+  aliases: string[];
+  formerNames: string[];
+}
+
+/**
+ * Someone the advisor knows at a matched firm
+ */
+export interface FirmContact {
+  name: string;
+  designation?: string;
+  relationshipStrength?: RelationshipStrength | '';
+  contactFrequency?: ContactFrequency | '';
+  email?: string;
+  phone?: string;
+  linkedinUrl?: string;
+  practiceArea?: string;
+  /** How the advisor knows them and anything useful for the introduction */
+  introNotes?: string;
+  /** ISO timestamp of when the advisor said the contact left the firm */
+  leftFirmAt?: string;
+}
+
 export interface FirmEntry {
   id: string;
+  firmId?: string;
   firmName: string;
   isMatched: boolean;
-  contactName?: string;
-  contactDesignation?: string;
-  relationshipStrength?: 'very-strong' | 'strong' | 'moderate' | 'weak' | '';
-  contactFrequency?: 'quarterly' | 'annually' | 'occasionally' | 'recently' | '';
+  /** Contacts at a matched firm, in the order the advisor entered them */
+  contacts?: FirmContact[];
   timestamp: Date;
+  /** The advisor's earlier entry for this firm that this one replaces */
+  amends?: PreviousEntryRef;
+  /** Set on a stored entry once a later submission has replaced it */
+  supersededBy?: PreviousEntryRef;
+  /** ISO timestamp of when the advisor withdrew the relationship */
+  withdrawnAt?: string;
+  /** Changes the advisor has made since submitting, oldest first */
+  revisions?: EntryRevision[];
+}
+
+/**
+ * Identifies a firm entry within a stored submission
+ */
+export interface PreviousEntryRef {
+  submissionId: string;
+  entryId: string;
+}
+
+/**
+ * The latest entry an advisor submitted for a firm
+ */
+export interface PreviousFirmEntry extends PreviousEntryRef {
+  firmId?: string;
+  firmName: string;
+  isMatched: boolean;
+  contacts?: FirmContact[];
+  /** ISO timestamp of when submit-form received it */
+  submittedAt: string;
+}
+
+/**
+ * A change an advisor makes to one of their stored entries from /me
+ */
+export type EntryChange =
+  | { action: 'update-contacts'; submissionId: string; entryId: string; contacts: FirmContact[] }
+  | { action: 'withdraw'; submissionId: string; entryId: string }
+  | { action: 'mark-contact-left'; submissionId: string; entryId: string; contactIndex: number };
+
+/**
+ * The parts of an entry an advisor can change
+ */
+export type EntrySnapshot = Pick<FirmEntry, 'contacts' | 'withdrawnAt'>;
+
+export interface EntryRevision {
+  id: string;
+  /** ISO timestamp of the change */
+  at: string;
+  /** Email the advisor signed in with */
+  actor: string;
+  action: EntryChange['action'];
+  before: EntrySnapshot;
+  after: EntrySnapshot;
+}
+
+/**
+ * A stored submission as the advisor who made it sees it
+ */
+export interface AdvisorSubmission {
+  id: string;
+  receivedAt: string;
+  campaign?: string;
+  firms: FirmEntry[];
+}
+
+export interface MySubmissionsResponse {
+  submissions: AdvisorSubmission[];
+}
+
+/**
+ * Who is signed in to /me, from the advisor-session function
+ */
+export interface AdvisorSessionResponse {
+  email: string;
+  expiresAt: string;
+}
+
+export interface SignInLinkResponse {
+  message: string;
+}
+
+/**
+ * Response from the previous-firms function
+ */
+export interface PreviousFirmsResponse {
+  /** The advisor's earlier firms, most recently submitted first */
+  firms: PreviousFirmEntry[];
+}
+
+/**
+ * Response from the invite-status function
+ */
+export interface InviteStatusResponse {
+  /** Whether submissions that don't come through an invite link are refused */
+  required: boolean;
+}
+
+export interface FirmMatch {
+  firmId: string;
+  firmName: string;
+  confidence: number;
+}
+
+export interface FirmSuggestion {
+  enteredName: string;
+  match: FirmMatch;
 }
 
 export interface AdvisorFormState {
-  currentStep: 'firm-input' | 'contact-details' | 'thank-you';
+  currentStep: 'firm-input' | 'contact-details' | 'consent' | 'thank-you';
+  currentFirmId: string;
   currentFirmName: string;
   currentFirmMatched: boolean;
   enteredFirms: FirmEntry[];
   isFormComplete: boolean;
   maxFirms: number;
   userEmail: string;
+  pendingSubmissionId?: string;
+  /** Slug of the campaign the form was opened from; omitted for the default form */
+  campaign?: string;
+  /** Signed invite the form was opened with; its email cannot be changed */
+  inviteToken?: string;
+  /** Id of the entered firm whose contact details are being changed */
+  editingFirmId?: string;
+  /** What the advisor agreed to on the consent step, kept so a failed submission can be retried */
+  consent?: AdvisorConsent;
+  /** The earlier entry the firm in contact details will replace, when the advisor chose to update it */
+  currentFirmAmends?: PreviousEntryRef;
+  /** Idempotency key sent with every attempt to submit this draft, so submit-form processes it once */
+  submissionKey?: string;
+  /** When the form was opened, in milliseconds since the epoch, for the minimum fill time check */
+  startedAt?: number;
 }
 
+/**
+ * One contact row in ContactForm. Email, phone, LinkedIn URL, practice area
+ * and intro notes are optional and left empty when not given.
+ */
 export interface ContactFormData {
   name: string;
   designation: string;
-  relationshipStrength: 'very-strong' | 'strong' | 'moderate' | 'weak' | '';
-  contactFrequency: 'quarterly' | 'annually' | 'occasionally' | 'recently' | '';
-}
\ No newline at end of file
+  relationshipStrength: RelationshipStrength | '';
+  contactFrequency: ContactFrequency | '';
+  email: string;
+  phone: string;
+  linkedinUrl: string;
+  practiceArea: string;
+  introNotes: string;
+}
+
+export interface AdvisorFormDraft {
+  formState: AdvisorFormState;
+  contactForm: ContactFormData[] | null;
+  savedAt: Date;
+}
+
+/**
+ * The advisor's agreement to the privacy notice and how they want introductions handled
+ */
+export interface AdvisorConsent {
+  /** Version of the privacy notice the advisor agreed to */
+  privacyNoticeVersion: string;
+  introPreference: IntroPreference;
+}
+
+/**
+ * Consent as stored with a submission, stamped by submit-form when it was received
+ */
+export interface ConsentRecord extends AdvisorConsent {
+  /** ISO timestamp of when submit-form recorded the consent */
+  consentedAt: string;
+}
+
+export interface SubmitFormPayload {
+  firms: FirmEntry[];
+  userEmail: string;
+  /** Slug of the campaign the submission was made through; omitted for the default form */
+  campaign?: string;
+  /** Signed invite from the advisor's link, checked by submit-form */
+  inviteToken?: string;
+  /** Required by submit-form; moved to the record's consent when stored */
+  consent?: AdvisorConsent;
+  /** Required by submit-form to turn away automated submissions; never stored */
+  botCheck?: BotCheck;
+}
+
+/**
+ * What the form measured while the advisor filled it in
+ */
+export interface BotCheck {
+  /** Value of the hidden honeypot field, which only bots fill in */
+  honeypot: string;
+  /** Milliseconds between opening the form and submitting it */
+  fillTimeMs: number;
+}
+
+/**
+ * Why submit-form turned away a submission attempt before processing it
+ */
+export type RejectionReason = 'honeypot' | 'too-fast' | 'proof-of-work' | 'ip-rate-limit' | 'email-rate-limit';
+
+/**
+ * An outreach campaign, reached at /c/:slug. Each campaign can target its own
+ * firms, allow a different number of firms and introduce the form differently.
+ */
+export interface Campaign {
+  slug: string;
+  /** Shown to admins and in notifications */
+  name: string;
+  maxFirms: number;
+  /** Prospect firm ids advisors are matched against; omitted to use the whole prospect list */
+  firmIds?: string[];
+  intro: {
+    title: string;
+    paragraphs: string[];
+  };
+}
+
+export interface SubmitFormResponse {
+  success: true;
+  submissionId: string;
+  message: string;
+}
+
+export interface ValidationErrorDetail {
+  field: string;
+  message: string;
+}
+
+/**
+ * Response from the csrf-token function; the same token is also set as a cookie
+ */
+export interface CsrfTokenResponse {
+  token: string;
+}
+
+export interface ApiErrorResponse {
+  error: string;
+  message?: string;
+  details?: ValidationErrorDetail[];
+}
+
+export interface QueuedSubmission {
+  id: string;
+  payload: SubmitFormPayload;
+  /** Idempotency key of the draft, resent with every retry; missing on submissions queued before keys were used */
+  idempotencyKey?: string;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Outcome of retrying the queued submissions that were due
+ */
+export interface RetryResult {
+  /** Ids of the submissions that were delivered */
+  delivered: string[];
+  /** Submissions the server refused, which have been dropped from the queue */
+  rejected: RejectedSubmission[];
+}
+
+export interface RejectedSubmission {
+  id: string;
+  message: string;
+  status: number;
+}
+
+/**
+ * Delivery state of a stored submission for one downstream consumer
+ */
+export interface DeliveryStatus {
+  status: 'pending' | 'delivered' | 'failed';
+  attemptedAt?: string;
+  error?: string;
+}
+
+/**
+ * A stored submission
+ */
+export interface SubmissionRecord {
+  /** Stable submission id returned to the client */
+  id: string;
+  /** ISO timestamp of when the function received the submission */
+  receivedAt: string;
+  /** The validated form data, without the invite token or consent */
+  payload: SubmitFormPayload;
+  /** The advisor record the submission was verified against, when it came through an invite */
+  advisorId?: string;
+  /** The advisor's consent; missing only on submissions received before consent was asked for */
+  consent?: ConsentRecord;
+  /** Delivery state keyed by consumer name */
+  deliveries: Record<string, DeliveryStatus>;
+}
+
+/**
+ * Filters accepted by the admin submission endpoints. Firm-level filters
+ * (firm, status, relationshipStrength) must all hold for the same firm;
+ * relationshipStrength holds when any of the firm's contacts has it.
+ */
+export interface SubmissionListFilters {
+  /** Earliest received date, inclusive (YYYY-MM-DD, UTC) */
+  from?: string;
+  /** Latest received date, inclusive (YYYY-MM-DD, UTC) */
+  to?: string;
+  userEmail?: string;
+  firm?: string;
+  status?: 'matched' | 'unmatched';
+  relationshipStrength?: RelationshipStrength;
+}
+
+export interface SubmissionListResponse {
+  submissions: SubmissionRecord[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  /** Attempts submit-form turned away over the last week, by reason */
+  rejections?: Record<RejectionReason, number>;
+}
+
+export type SubmissionExportView = 'entries' | 'matrix';
+
+export type SubmissionExportFormat = 'csv' | 'xlsx';
+
+/**
+ * A firm on the managed prospect list. Archived firms stay on the list so stored
+ * submissions can still be traced back to them, but they no longer match.
+ */
+export interface ProspectFirm extends FirmRecord {
+  status: 'active' | 'archived';
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface ProspectFirmInput {
+  id?: string;
+  name: string;
+  aliases?: string[];
+  formerNames?: string[];
+}
+
+export type ProspectChange =
+  | { action: 'create'; firm: ProspectFirmInput }
+  | { action: 'update'; firm: ProspectFirmInput & { id: string } }
+  | { action: 'archive'; firmId: string }
+  | { action: 'restore'; firmId: string }
+  | { action: 'import'; firms: ProspectFirmInput[]; archiveMissing?: boolean };
+
+export interface ProspectAuditEntry {
+  id: string;
+  /** ISO timestamp of the change */
+  at: string;
+  /** Email of the admin who made the change */
+  actor: string;
+  action: ProspectChange['action'];
+  firmId: string;
+  before: FirmRecord | null;
+  after: FirmRecord | null;
+}
+
+export interface ProspectListResponse {
+  /** Active firms only */
+  firms: FirmRecord[];
+  updatedAt: string | null;
+}
+
+export interface ManageProspectsResponse {
+  firms: ProspectFirm[];
+  /** Version of the list, sent back with a change so it is refused if someone else has changed the list since */
+  version: string;
+  audit: ProspectAuditEntry[];
+}
+
+export interface ProspectImportChange {
+  type: 'added' | 'renamed' | 'updated' | 'restored' | 'removed';
+  before: FirmRecord | null;
+  after: FirmRecord;
+}
+
+export interface ProspectImportIssue {
+  /** Errors block the import; warnings are shown for review */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ProspectImportPlan {
+  changes: ProspectImportChange[];
+  issues: ProspectImportIssue[];
+  /** Existing firms the import leaves as they are */
+  unchanged: number;
+}
+
+/**
+ * An advisor who has been sent an invite link
+ */
+export interface Advisor {
+  id: string;
+  email: string;
+  name?: string;
+  createdAt: string;
+  /** ISO timestamp of the most recent invite */
+  invitedAt: string;
+  /** Email of the admin who sent the most recent invite */
+  invitedBy: string;
+  /** Expiry of the most recent invite */
+  inviteExpiresAt: string;
+  /**
+   * Expiry of the latest invite for each campaign, keyed by campaign slug. Only links with
+   * these expiries are accepted. Missing on advisors last invited before it was kept.
+   */
+  inviteExpiries?: Record<string, string>;
+}
+
+/**
+ * What an invite token vouches for. Tokens are signed by the server, so the
+ * client can read these but only submit-form can trust them.
+ */
+export interface InviteClaims {
+  advisorId: string;
+  email: string;
+  /** Campaign slug the invite is for; omitted for the default form */
+  campaign?: string;
+  /** Expiry as seconds since the epoch */
+  exp: number;
+}
+
+export interface CreateInviteRequest {
+  email: string;
+  name?: string;
+  campaign?: string;
+  expiresInDays?: number;
+}
+
+export interface CreateInviteResponse {
+  advisor: Advisor;
+  token: string;
+  /** Path of the invite link, relative to the site root */
+  path: string;
+  expiresAt: string;
+}
+
+export interface AdvisorListResponse {
+  advisors: Advisor[];
+}
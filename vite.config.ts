@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -10,4 +11,24 @@ export default defineConfig({
     tailwindcss(),
     svgr()
   ],
+  test: {
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: 'app',
+          include: ['src/**/*.test.{ts,tsx}'],
+          environment: 'jsdom',
+          setupFiles: './src/test/setup.ts'
+        }
+      },
+      {
+        test: {
+          name: 'functions',
+          include: ['netlify/**/*.test.ts'],
+          environment: 'node'
+        }
+      }
+    ]
+  },
 })